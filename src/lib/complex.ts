@@ -0,0 +1,202 @@
+/**
+ * Storage of the complex dtypes, `complex64` and `complex128`.
+ *
+ * @packageDocumentation
+ */
+"use strict";
+
+import * as errors from "./errors";
+
+/**
+ * A complex number, as returned by `get` or `tolist` on complex arrays.
+ */
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export type ComplexDType = "complex64" | "complex128";
+
+/**
+ * Return true if the value is a complex number, i.e. an object with numeric `re` and `im` properties.
+ */
+export function isComplexValue(value: unknown): value is Complex {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as Complex).re === "number" &&
+    typeof (value as Complex).im === "number"
+  );
+}
+
+/**
+ * Interleaved real and imaginary parts, to be wrapped by a complex array without copying them.
+ */
+export interface Interleaved<B extends Float32Array | Float64Array> {
+  interleaved: B;
+}
+
+/**
+ * Fixed-size array of complex numbers, stored in a typed array of twice its length where the real and imaginary
+ * parts of each item are interleaved.
+ */
+abstract class ComplexArray<B extends Float32Array | Float64Array> {
+  /** Interleaved real and imaginary parts */
+  readonly buffer: B;
+
+  abstract get dtype(): ComplexDType;
+
+  constructor(
+    buffer: B,
+    values?:
+      | ArrayLike<number | Complex>
+      | ComplexArray<Float32Array | Float64Array>
+  ) {
+    this.buffer = buffer;
+    if (values instanceof ComplexArray) {
+      this.buffer.set(values.buffer);
+    } else if (values) {
+      for (let i = 0; i < values.length; i++) {
+        this.set(i, values[i]);
+      }
+    }
+  }
+
+  get length(): number {
+    return this.buffer.length >> 1;
+  }
+
+  get(i: number): Complex {
+    return { re: this.buffer[2 * i], im: this.buffer[2 * i + 1] };
+  }
+
+  set(i: number, value: number | Complex) {
+    if (isComplexValue(value)) {
+      this.buffer[2 * i] = value.re;
+      this.buffer[2 * i + 1] = value.im;
+    } else {
+      this.buffer[2 * i] = value;
+      this.buffer[2 * i + 1] = 0;
+    }
+  }
+
+  /**
+   * Return a copy of a section of the array.
+   */
+  abstract slice(start?: number, end?: number): ComplexArray<B>;
+}
+
+function fromLengthOrValues<B extends Float32Array | Float64Array>(
+  B: new (n: number) => B,
+  x:
+    | number
+    | ArrayLike<number | Complex>
+    | ComplexArray<Float32Array | Float64Array>
+    | Interleaved<B>
+): [
+  B,
+  ArrayLike<number | Complex> | ComplexArray<Float32Array | Float64Array>
+] {
+  if (typeof x === "number") {
+    return [new B(2 * x), null];
+  }
+  if ("interleaved" in x) {
+    return [x.interleaved, null];
+  }
+  return [new B(2 * x.length), x];
+}
+
+/**
+ * Storage of the `complex64` dtype: single precision real and imaginary parts.
+ */
+export class Complex64Array extends ComplexArray<Float32Array> {
+  /**
+   * @param x - length of the (zero-filled) array, or values to copy, real numbers having a null imaginary part,
+   * or interleaved parts to wrap
+   */
+  constructor(
+    x:
+      | number
+      | ArrayLike<number | Complex>
+      | ComplexArray<Float32Array | Float64Array>
+      | Interleaved<Float32Array>
+  ) {
+    super(...fromLengthOrValues(Float32Array, x));
+  }
+
+  get dtype(): "complex64" {
+    return "complex64";
+  }
+
+  /**
+   * Wrap a buffer of interleaved real and imaginary parts, without copying it.
+   */
+  static fromInterleaved(buffer: Float32Array): Complex64Array {
+    return new Complex64Array({ interleaved: buffer });
+  }
+
+  slice(start = 0, end = this.length): Complex64Array {
+    return Complex64Array.fromInterleaved(
+      this.buffer.slice(2 * start, 2 * end)
+    );
+  }
+}
+
+/**
+ * Storage of the `complex128` dtype: double precision real and imaginary parts.
+ */
+export class Complex128Array extends ComplexArray<Float64Array> {
+  /**
+   * @param x - length of the (zero-filled) array, or values to copy, real numbers having a null imaginary part,
+   * or interleaved parts to wrap
+   */
+  constructor(
+    x:
+      | number
+      | ArrayLike<number | Complex>
+      | ComplexArray<Float32Array | Float64Array>
+      | Interleaved<Float64Array>
+  ) {
+    super(...fromLengthOrValues(Float64Array, x));
+  }
+
+  get dtype(): "complex128" {
+    return "complex128";
+  }
+
+  /**
+   * Wrap a buffer of interleaved real and imaginary parts, without copying it.
+   */
+  static fromInterleaved(buffer: Float64Array): Complex128Array {
+    return new Complex128Array({ interleaved: buffer });
+  }
+
+  slice(start = 0, end = this.length): Complex128Array {
+    return Complex128Array.fromInterleaved(
+      this.buffer.slice(2 * start, 2 * end)
+    );
+  }
+}
+
+export type ComplexTypedArray = Complex64Array | Complex128Array;
+
+/**
+ * Return true if the data of an array is stored with a complex dtype.
+ */
+export function isComplexData(data: unknown): data is ComplexTypedArray {
+  return data instanceof ComplexArray;
+}
+
+/**
+ * Throw a `NotImplementedError` if any of the given array data is complex, for the operations which only support
+ * real values.
+ *
+ * @param name - name of the operation, used in the error message
+ */
+export function checkRealData(name: string, ...data: unknown[]) {
+  if (data.some(isComplexData)) {
+    throw new errors.NotImplementedError(
+      "complex arrays are not supported by " + name
+    );
+  }
+}
@@ -1,5 +1,7 @@
 "use strict";
 
+import { Complex64Array, Complex128Array } from "./complex";
+
 export default {
   int8: Int8Array,
   int16: Int16Array,
@@ -9,6 +11,8 @@ export default {
   uint32: Uint32Array,
   float32: Float32Array,
   float64: Float64Array,
+  complex64: Complex64Array,
+  complex128: Complex128Array,
   uint8_clamped: Uint8ClampedArray,
   array: Array,
 };
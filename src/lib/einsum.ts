@@ -0,0 +1,371 @@
+/**
+ * Einstein summation, exported as `nj.einsum`.
+ *
+ * @packageDocumentation
+ */
+"use strict";
+
+import ops from "ndarray-ops";
+
+import { NdArray, ArbDimNumArray, OneDimNumArray } from "./ndarray";
+import { checkRealData } from "./complex";
+import * as errors from "./errors";
+import _ from "./utils";
+
+/** An operand (or intermediate result) of the summation, with one label per axis */
+interface Term {
+  arr: NdArray;
+  labels: string[];
+}
+
+const ELLIPSIS = "...";
+
+/**
+ * Split the subscripts of one operand into labels, "..." being kept as a single item.
+ */
+function parseLabels(subscripts: string): string[] {
+  const labels = [];
+  for (let i = 0; i < subscripts.length; i++) {
+    if (subscripts.substr(i, 3) === ELLIPSIS) {
+      if (labels.indexOf(ELLIPSIS) !== -1) {
+        throw new errors.ValueError(
+          "einstein sum subscripts string contains more than one ellipsis"
+        );
+      }
+      labels.push(ELLIPSIS);
+      i += 2;
+    } else if (/[a-zA-Z]/.test(subscripts[i])) {
+      labels.push(subscripts[i]);
+    } else {
+      throw new errors.ValueError(
+        "invalid subscript '" +
+          subscripts[i] +
+          "' in einstein sum subscripts string, subscripts must be letters"
+      );
+    }
+  }
+  return labels;
+}
+
+/**
+ * Replace the ellipsis of an operand with the labels of the broadcast dimensions it covers, named "0", "1", ...
+ * from the first broadcast dimension of the result, which has `ellipsisDims` dimensions.
+ */
+function expandEllipsis(
+  labels: string[],
+  covered: number,
+  ellipsisDims: number
+): string[] {
+  const i = labels.indexOf(ELLIPSIS);
+  if (i === -1) {
+    return labels;
+  }
+  const dims = [];
+  for (let k = ellipsisDims - covered; k < ellipsisDims; k++) {
+    dims.push(String(k));
+  }
+  return labels
+    .slice(0, i)
+    .concat(dims)
+    .concat(labels.slice(i + 1));
+}
+
+function isBroadcastLabel(label: string) {
+  return /^[0-9]+$/.test(label);
+}
+
+/**
+ * Return a view of the array with one axis per distinct label, taking the diagonal of the axes sharing a label.
+ */
+function diagonal(arr: NdArray, labels: string[], operand: number): Term {
+  const unique = [];
+  const shape = [];
+  const stride = [];
+  labels.forEach(function (label, i) {
+    const j = unique.indexOf(label);
+    const size = arr.shape[i];
+    if (j === -1) {
+      unique.push(label);
+      shape.push(size);
+      stride.push(arr.selection.stride[i]);
+    } else if (shape[j] !== size) {
+      throw new errors.ValueError(
+        "dimensions in operand " +
+          operand +
+          " for collapsing index '" +
+          label +
+          "' don't match (" +
+          shape[j] +
+          " != " +
+          size +
+          ")"
+      );
+    } else {
+      stride[j] += arr.selection.stride[i];
+    }
+  });
+  return {
+    arr: new NdArray(
+      arr.selection.data as OneDimNumArray,
+      shape,
+      stride,
+      arr.selection.offset
+    ),
+    labels: unique,
+  };
+}
+
+/**
+ * Sum the term over the given labels.
+ */
+function sumOut(term: Term, labels: string[]): Term {
+  const axes = [];
+  term.labels.forEach(function (label, i) {
+    if (labels.indexOf(label) !== -1) {
+      axes.push(i);
+    }
+  });
+  if (!axes.length) {
+    return term;
+  }
+  return {
+    arr: term.arr.sum({ axis: axes }),
+    labels: term.labels.filter((label) => labels.indexOf(label) === -1),
+  };
+}
+
+/**
+ * Return a contiguous float64 copy of the term, with its axes ordered as `labels`.
+ */
+function arrange(term: Term, labels: string[]): Float64Array {
+  let arr = term.arr;
+  if (labels.length > 1) {
+    arr = arr.transpose(labels.map((label) => term.labels.indexOf(label)));
+  }
+  const data = new Float64Array(arr.size);
+  ops.assign(new NdArray(data, arr.shape).selection, arr.selection);
+  return data;
+}
+
+/**
+ * Contract two terms over their common labels that are not in `keep`, with a single (batched) matrix product.
+ */
+function contract(a: Term, b: Term, keep: string[]): Term {
+  const inB = (label: string) => b.labels.indexOf(label) !== -1;
+  const inA = (label: string) => a.labels.indexOf(label) !== -1;
+  // first sum over the labels that only appear in one of the terms and are not needed anymore
+  a = sumOut(
+    a,
+    a.labels.filter((label) => !inB(label) && keep.indexOf(label) === -1)
+  );
+  b = sumOut(
+    b,
+    b.labels.filter((label) => !inA(label) && keep.indexOf(label) === -1)
+  );
+  const batch = a.labels.filter((l) => inB(l) && keep.indexOf(l) !== -1);
+  const summed = a.labels.filter((l) => inB(l) && keep.indexOf(l) === -1);
+  const aFree = a.labels.filter((l) => !inB(l));
+  const bFree = b.labels.filter((l) => !inA(l));
+  const size = (term: Term, labels: string[]) =>
+    labels.reduce((p, l) => p * term.arr.shape[term.labels.indexOf(l)], 1);
+  const [nb, m, k, n] = [
+    size(a, batch),
+    size(a, aFree),
+    size(a, summed),
+    size(b, bFree),
+  ];
+  const x = new NdArray(arrange(a, batch.concat(aFree, summed)), [nb, m, k]);
+  const y = new NdArray(arrange(b, batch.concat(summed, bFree)), [nb, k, n]);
+  const labels = batch.concat(aFree, bFree);
+  const shape = batch
+    .concat(aFree)
+    .map((l) => a.arr.shape[a.labels.indexOf(l)])
+    .concat(bFree.map((l) => b.arr.shape[b.labels.indexOf(l)]));
+  return {
+    arr: new NdArray(
+      x.matmul(y).selection.data as Float64Array,
+      shape.length ? shape : [1]
+    ),
+    labels,
+  };
+}
+
+/**
+ * Evaluate the Einstein summation convention on the operands.
+ *
+ * Subscripts are letters, one per axis of each operand, separated by commas, e.g. `"ij,jk->ik"` for a matrix
+ * product. Axes sharing a label are multiplied together, and the labels missing from the output (after `->`) are
+ * summed over:
+ * - a label repeated within an operand takes its diagonal, e.g. `"ii->i"`, or `"ii"` for the trace,
+ * - `...` stands for the remaining axes, which are broadcast together across operands, e.g. `"...ij,...jk->...ik"`,
+ * - without `->` (implicit mode), the output holds the broadcast axes followed by the labels appearing only once,
+ * in alphabetical order.
+ *
+ * Contractions of two operands are evaluated as (batched) matrix products, choosing at each step the pair of
+ * operands giving the smallest intermediate result.
+ *
+ * @returns an array of the dtype of the first operand, of shape `[1]` when the output has no subscripts
+ */
+export function einsum(
+  subscripts: string,
+  ...operands: Array<NdArray | ArbDimNumArray>
+): NdArray {
+  const arrays = operands.map((x) => NdArray.new(x));
+  checkRealData("einsum", ...arrays.map((x) => x.selection.data));
+  const parts = subscripts.replace(/\s/g, "").split("->");
+  if (parts.length > 2) {
+    throw new errors.ValueError(
+      "einstein sum subscripts string includes output subscripts more than once"
+    );
+  }
+  const inputs = parts[0].split(",").map(parseLabels);
+  if (inputs.length !== arrays.length) {
+    throw new errors.ValueError(
+      (inputs.length < arrays.length ? "more" : "fewer") +
+        " operands provided to einstein sum function than specified in the subscripts string"
+    );
+  }
+
+  // number of dimensions covered by the ellipsis of each operand
+  const covered = inputs.map(function (labels, i) {
+    const explicit = labels.filter((l) => l !== ELLIPSIS).length;
+    const ndim = arrays[i].ndim;
+    if (explicit > ndim) {
+      throw new errors.ValueError(
+        "einstein sum subscripts string contains too many subscripts for operand " +
+          i
+      );
+    }
+    if (labels.indexOf(ELLIPSIS) === -1 && explicit < ndim) {
+      throw new errors.ValueError(
+        "operand has more dimensions than subscripts given in einstein sum, but no '...' ellipsis provided to broadcast the extra dimensions."
+      );
+    }
+    return ndim - explicit;
+  });
+  const ellipsisDims = Math.max(0, ...covered);
+  const expanded = inputs.map((labels, i) =>
+    expandEllipsis(labels, covered[i], ellipsisDims)
+  );
+
+  let output: string[];
+  if (parts.length === 2) {
+    const labels = parseLabels(parts[1]);
+    output = expandEllipsis(labels, ellipsisDims, ellipsisDims);
+    output.forEach(function (label, i) {
+      if (output.indexOf(label) !== i) {
+        throw new errors.ValueError(
+          "einstein sum subscripts string includes output subscript '" +
+            label +
+            "' multiple times"
+        );
+      }
+      if (!expanded.some((labels) => labels.indexOf(label) !== -1)) {
+        throw new errors.ValueError(
+          "einstein sum subscripts string included output subscript '" +
+            label +
+            "' which never appeared in an input"
+        );
+      }
+    });
+  } else {
+    const counts: { [label: string]: number } = {};
+    expanded.forEach(function (labels) {
+      labels.forEach(function (label) {
+        counts[label] = (counts[label] || 0) + 1;
+      });
+    });
+    output = [];
+    for (let k = 0; k < ellipsisDims; k++) {
+      output.push(String(k));
+    }
+    output = output.concat(
+      Object.keys(counts)
+        .filter((label) => counts[label] === 1 && !isBroadcastLabel(label))
+        .sort()
+    );
+  }
+
+  // size of each label, broadcasting the axes of size one covered by ellipses
+  const sizes: { [label: string]: number } = {};
+  const terms = arrays.map(function (arr, i) {
+    const term = diagonal(arr, expanded[i], i);
+    term.labels.forEach(function (label, j) {
+      const size = term.arr.shape[j];
+      const prev = sizes[label];
+      if (prev === undefined || (prev === 1 && isBroadcastLabel(label))) {
+        sizes[label] = size;
+      } else if (size !== prev && !(size === 1 && isBroadcastLabel(label))) {
+        throw new errors.ValueError(
+          isBroadcastLabel(label)
+            ? "operands could not be broadcast together with remapped shapes"
+            : "size of label '" +
+              label +
+              "' for operand " +
+              i +
+              " (" +
+              size +
+              ") does not match previous terms (" +
+              prev +
+              ")."
+        );
+      }
+    });
+    return term;
+  });
+  terms.forEach(function (term) {
+    term.arr = term.arr.broadcastTo(term.labels.map((label) => sizes[label]));
+  });
+
+  // contract the pair of terms giving the smallest result, until only one is left
+  while (terms.length > 1) {
+    let best: [number, number] = null;
+    let bestSize = Infinity;
+    let bestKeep: string[] = null;
+    for (let i = 0; i < terms.length; i++) {
+      for (let j = i + 1; j < terms.length; j++) {
+        const keep = output.slice();
+        terms.forEach(function (term, k) {
+          if (k !== i && k !== j) {
+            keep.push(...term.labels);
+          }
+        });
+        let size = 1;
+        terms[i].labels
+          .concat(
+            terms[j].labels.filter((l) => terms[i].labels.indexOf(l) === -1)
+          )
+          .forEach(function (label) {
+            if (keep.indexOf(label) !== -1) {
+              size *= sizes[label];
+            }
+          });
+        if (size < bestSize) {
+          best = [i, j];
+          bestSize = size;
+          bestKeep = keep;
+        }
+      }
+    }
+    const [i, j] = best;
+    const term = contract(terms[i], terms[j], bestKeep);
+    terms.splice(j, 1);
+    terms.splice(i, 1, term);
+  }
+
+  const result = sumOut(
+    terms[0],
+    terms[0].labels.filter((label) => output.indexOf(label) === -1)
+  );
+  const shape = output.map((label) => sizes[label]);
+  const T = _.getType(arrays[0].dtype);
+  const out = new NdArray(
+    new T(_.shapeSize(shape)),
+    shape.length ? shape : [1]
+  );
+  ops.assign(
+    out.selection,
+    new NdArray(arrange(result, output), out.shape).selection
+  );
+  return out;
+}
@@ -3,3 +3,5 @@
 export class ValueError extends Error {}
 export class ConfigError extends Error {}
 export class NotImplementedError extends Error {}
+export class IndexError extends Error {}
+export class LinAlgError extends Error {}
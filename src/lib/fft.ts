@@ -0,0 +1,438 @@
+/**
+ * Discrete Fourier transforms, exported as `nj.fft`, which can also be called directly as `nj.fft(x)`.
+ *
+ * @packageDocumentation
+ */
+"use strict";
+
+import ops from "ndarray-ops";
+import fftMatrix from "ndarray-fft/lib/fft-matrix";
+import ndarray from "ndarray";
+
+import { NdArray, ArbDimNumArray, ArbDimComplexArray } from "./ndarray";
+import { Complex128Array, isComplexData } from "./complex";
+import * as errors from "./errors";
+import _ from "./utils";
+
+function checkSize(n: number) {
+  if (n < 1) {
+    throw new errors.ValueError(
+      "Invalid number of FFT data points (" + n + ") specified."
+    );
+  }
+}
+
+/**
+ * Normalization mode of the transforms, NumPy-like:
+ * - `"backward"` (default) leaves the forward transforms unscaled, and scales the inverse ones by `1/n`,
+ * - `"ortho"` scales both by `1/sqrt(n)`, which makes them unitary,
+ * - `"forward"` scales the forward transforms by `1/n`, and leaves the inverse ones unscaled.
+ */
+export type FFTNorm = "backward" | "ortho" | "forward";
+
+/**
+ * Return the scale factor of the transforms of size `n` computed by ndarray-fft, which scales its forward transforms
+ * (as defined by NumPy) by `1/n`.
+ */
+function normScale(dir: 1 | -1, n: number, norm: FFTNorm | null): number {
+  switch (norm == null ? "backward" : norm) {
+    case "backward":
+      return dir === 1 ? n : 1 / n;
+    case "ortho":
+      return dir === 1 ? Math.sqrt(n) : 1 / Math.sqrt(n);
+    case "forward":
+      return 1;
+    default:
+      throw new errors.ValueError(
+        "Invalid norm value " +
+          norm +
+          '; should be "backward","ortho" or "forward".'
+      );
+  }
+}
+
+/**
+ * Compute the 1-D transforms of size `n` along `axis`, the input being truncated or padded with zeros to `n` values.
+ *
+ * @param keep - number of values of each transform which are kept in the result, default is all of them
+ * @returns a new `complex128` array
+ */
+function transformAxis(
+  dir: 1 | -1,
+  x: NdArray,
+  n: number,
+  axis: number,
+  norm: FFTNorm | null,
+  keep = n
+): NdArray {
+  const scale = normScale(dir, n, norm);
+  const ndim = x.ndim;
+  const perm = Array.from(Array(ndim).keys())
+    .filter((i) => i !== axis)
+    .concat(axis);
+  const outShape = x.shape.slice();
+  outShape[axis] = keep;
+  const out = new NdArray(new Complex128Array(_.shapeSize(outShape)), outShape);
+
+  // real parts of the transforms, then imaginary parts, one row per transform, then scratch memory
+  const shape = perm.map((i) => x.shape[i]);
+  shape[ndim - 1] = n;
+  const size = _.shapeSize(shape);
+  const buffer = new Float64Array(2 * size + fftMatrix.scratchMemory(n));
+  const re = ndarray(buffer, shape);
+  const im = ndarray(buffer, shape, re.stride, size);
+  const crop = (s, k: number) => s.hi(...shape.slice(0, -1), k);
+
+  const src = x.transpose(perm);
+  const k = Math.min(n, x.shape[axis]);
+  ops.assign(crop(re, k), crop(src.real.selection, k));
+  if (isComplexData(x.selection.data)) {
+    ops.assign(crop(im, k), crop(src.imag.selection, k));
+  }
+  if (size) {
+    // ndarray-fft uses the opposite sign convention
+    fftMatrix(-dir, size / n, n, buffer, 0, size, 2 * size);
+    if (scale !== 1) {
+      for (let i = 0; i < 2 * size; i++) {
+        buffer[i] *= scale;
+      }
+    }
+  }
+
+  const dst = out.transpose(perm);
+  ops.assign(dst.real.selection, crop(re, keep));
+  ops.assign(dst.imag.selection, crop(im, keep));
+  return out;
+}
+
+/**
+ * Compute the transforms of sizes `s` along `axes` of a complex array.
+ *
+ * @param s - default is the size of the input along `axes`
+ * @param axes - default is all the axes, or the last `s.length` ones if `s` is given
+ */
+function transformAxes(
+  dir: 1 | -1,
+  z: NdArray,
+  s: number[] | null,
+  axes: number[] | null,
+  norm: FFTNorm | null
+): NdArray {
+  if (axes == null) {
+    const k = s == null ? z.ndim : s.length;
+    axes = Array.from(Array(k).keys()).map((i) => i - k);
+  }
+  axes = _.checkAxes(axes, z.ndim);
+  if (s == null) {
+    s = axes.map((axis) => z.shape[axis]);
+  } else if (s.length !== axes.length) {
+    throw new errors.ValueError("Shape and axes have different lengths.");
+  }
+  s.forEach(checkSize);
+  if (!axes.length) {
+    const copy = new NdArray(new Complex128Array(z.size), z.shape);
+    ops.assign(copy.real.selection, z.real.selection);
+    ops.assign(copy.imag.selection, z.imag.selection);
+    return copy;
+  }
+  for (let i = axes.length - 1; i >= 0; i--) {
+    z = transformAxis(dir, z, s[i], axes[i], norm);
+  }
+  return z;
+}
+
+/**
+ * Transform a complex array, or a real array holding the real and imaginary parts along its last axis, in which case
+ * the result has the same format and the axes refer to the other dimensions.
+ */
+function transform(
+  dir: 1 | -1,
+  x: ArbDimComplexArray | NdArray,
+  s: number[] | null,
+  axes: number[] | null,
+  norm: FFTNorm | null
+): NdArray {
+  const arr = NdArray.new(x);
+  if (isComplexData(arr.selection.data)) {
+    return transformAxes(dir, arr, s, axes, norm);
+  }
+  const d = arr.ndim;
+  if (arr.shape[d - 1] !== 2) {
+    throw new errors.ValueError(
+      "expect last dimension of the array to have 2 values (for both real and imaginary part)"
+    );
+  }
+  const part = (a: NdArray, i: number) =>
+    a.pick(...new Array(d - 1).fill(null), i).selection;
+  const z = new NdArray(
+    new Complex128Array(arr.size / 2),
+    arr.shape.slice(0, -1)
+  );
+  // for backward compatibility, this format keeps the sign convention of the first versions, opposite to NumPy's:
+  // conjugating the input and the output of the transform flips the sign of its exponent
+  ops.assign(z.real.selection, part(arr, 0));
+  ops.neg(z.imag.selection, part(arr, 1));
+  const transformed = transformAxes(dir, z, s, axes, norm);
+  const T = _.getType(arr.dtype);
+  const out = new NdArray(
+    new T(2 * transformed.size),
+    transformed.shape.concat(2)
+  );
+  ops.assign(part(out, 0), transformed.real.selection);
+  ops.neg(part(out, 1), transformed.imag.selection);
+  return out;
+}
+
+/**
+ * Compute the discrete Fourier Transform.
+ *
+ * A complex array gives a `complex128` array, the transform using `exp(-2πi·jk/n)` as in NumPy. Otherwise, the last
+ * dimension of the array must have 2 values, holding the real and imaginary parts, and so does the result: for
+ * backward compatibility, this format keeps the opposite sign convention, `exp(+2πi·jk/n)`.
+ *
+ * @param n - number of points of the transform, the input being truncated or padded with zeros, default is the size
+ * of the input along `axis`
+ * @param axis - axis of the 1-D transform. Default is the last axis if `n` is given; otherwise, for backward
+ * compatibility, the transform runs over all the axes, as `fftn`
+ * @param norm - normalization mode, see `FFTNorm`
+ */
+export function fft(
+  x: ArbDimComplexArray | NdArray,
+  n: number | null = null,
+  axis: number | null = null,
+  norm: FFTNorm | null = null
+): NdArray {
+  return transform(
+    1,
+    x,
+    n == null ? null : [n],
+    axis == null ? null : [axis],
+    norm
+  );
+}
+
+/**
+ * Compute the inverse discrete Fourier Transform, see `fft` for the parameters.
+ */
+export function ifft(
+  x: ArbDimComplexArray | NdArray,
+  n: number | null = null,
+  axis: number | null = null,
+  norm: FFTNorm | null = null
+): NdArray {
+  return transform(
+    -1,
+    x,
+    n == null ? null : [n],
+    axis == null ? null : [axis],
+    norm
+  );
+}
+
+/**
+ * Compute the 2-dimensional discrete Fourier Transform, see `fftn` for the parameters.
+ */
+export function fft2(
+  x: ArbDimComplexArray | NdArray,
+  s: number[] | null = null,
+  axes: number[] = [-2, -1],
+  norm: FFTNorm | null = null
+): NdArray {
+  return transform(1, x, s, axes, norm);
+}
+
+/**
+ * Compute the 2-dimensional inverse discrete Fourier Transform, see `fftn` for the parameters.
+ */
+export function ifft2(
+  x: ArbDimComplexArray | NdArray,
+  s: number[] | null = null,
+  axes: number[] = [-2, -1],
+  norm: FFTNorm | null = null
+): NdArray {
+  return transform(-1, x, s, axes, norm);
+}
+
+/**
+ * Compute the N-dimensional discrete Fourier Transform, with the same input formats as `fft`.
+ *
+ * @param s - number of points along each transformed axis, the input being truncated or padded with zeros, default
+ * is the size of the input along `axes`
+ * @param axes - default is all the axes, or the last `s.length` ones if `s` is given
+ * @param norm - normalization mode, see `FFTNorm`
+ */
+export function fftn(
+  x: ArbDimComplexArray | NdArray,
+  s: number[] | null = null,
+  axes: number[] | null = null,
+  norm: FFTNorm | null = null
+): NdArray {
+  return transform(1, x, s, axes, norm);
+}
+
+/**
+ * Compute the N-dimensional inverse discrete Fourier Transform, see `fftn` for the parameters.
+ */
+export function ifftn(
+  x: ArbDimComplexArray | NdArray,
+  s: number[] | null = null,
+  axes: number[] | null = null,
+  norm: FFTNorm | null = null
+): NdArray {
+  return transform(-1, x, s, axes, norm);
+}
+
+/**
+ * Compute the 1-D discrete Fourier Transform of a real input along an axis, keeping only the non-negative
+ * frequency terms (the others being their complex conjugates).
+ *
+ * @param n - number of points of the transform, the input being truncated or padded with zeros, default is the size
+ * of the input along `axis`
+ * @param axis - default is the last axis
+ * @param norm - normalization mode, see `FFTNorm`
+ * @returns a `complex128` array, of size `n/2+1` along `axis`; the imaginary part of complex inputs is discarded
+ */
+export function rfft(
+  x: ArbDimNumArray | NdArray,
+  n: number | null = null,
+  axis = -1,
+  norm: FFTNorm | null = null
+): NdArray {
+  const arr = NdArray.new(x);
+  const [ax] = _.checkAxes([axis], arr.ndim);
+  n = n == null ? arr.shape[ax] : n;
+  checkSize(n);
+  return transformAxis(1, arr.real, n, ax, norm, (n >> 1) + 1);
+}
+
+/**
+ * Compute the inverse of `rfft`: the real signal of `n` points whose transform has the given non-negative frequency
+ * terms along `axis`.
+ *
+ * @param n - number of points of the output, the input being truncated or padded with zeros to `n/2+1` values,
+ * default is `2*(m-1)` where `m` is the size of the input along `axis`
+ * @param axis - default is the last axis
+ * @param norm - normalization mode, see `FFTNorm`
+ * @returns a `float64` array, of size `n` along `axis`
+ */
+export function irfft(
+  x: ArbDimComplexArray | NdArray,
+  n: number | null = null,
+  axis = -1,
+  norm: FFTNorm | null = null
+): NdArray {
+  const arr = NdArray.new(x);
+  const [ax] = _.checkAxes([axis], arr.ndim);
+  n = n == null ? 2 * (arr.shape[ax] - 1) : n;
+  checkSize(n);
+
+  // rebuild the whole (hermitian-symmetric) spectrum
+  const half = (n >> 1) + 1;
+  const shape = arr.shape.slice();
+  shape[ax] = n;
+  const spectrum = new NdArray(new Complex128Array(_.shapeSize(shape)), shape);
+  const k = Math.min(half, arr.shape[ax]);
+  const [re, im] = [spectrum.real.selection, spectrum.imag.selection];
+  ops.assign(
+    _.axisRange(re, ax, 0, k),
+    _.axisRange(arr.real.selection, ax, 0, k)
+  );
+  ops.assign(
+    _.axisRange(im, ax, 0, k),
+    _.axisRange(arr.imag.selection, ax, 0, k)
+  );
+  if (n > half) {
+    ops.assign(
+      _.axisRange(re, ax, half, n),
+      _.axisRange(re, ax, n - half, 0, -1)
+    );
+    ops.neg(_.axisRange(im, ax, half, n), _.axisRange(im, ax, n - half, 0, -1));
+  }
+
+  const signal = transformAxis(-1, spectrum, n, ax, norm);
+  const out = new NdArray(new Float64Array(signal.size), shape);
+  ops.assign(out.selection, signal.real.selection);
+  return out;
+}
+
+/**
+ * Return the sample frequencies of a discrete Fourier Transform of `n` points, in cycles per unit of the sample
+ * spacing `d`: `[0, 1, ..., ceil(n/2)-1, -floor(n/2), ..., -1] / (d*n)`.
+ */
+export function fftfreq(n: number, d = 1): NdArray {
+  const out = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    out[i] = (i < (n + 1) >> 1 ? i : i - n) / (d * n);
+  }
+  return new NdArray(out, [n]);
+}
+
+/**
+ * Return the sample frequencies of the non-negative frequency terms of `rfft` on `n` points, in cycles per unit of the
+ * sample spacing `d`: `[0, 1, ..., floor(n/2)] / (d*n)`.
+ */
+export function rfftfreq(n: number, d = 1): NdArray {
+  const out = new Float64Array((n >> 1) + 1);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = i / (d * n);
+  }
+  return new NdArray(out, [out.length]);
+}
+
+/**
+ * Roll the array along the axes, by `shift(size)` positions.
+ */
+function roll(
+  x: ArbDimComplexArray | NdArray,
+  axes: number | number[] | null,
+  shift: (size: number) => number
+): NdArray {
+  let arr = NdArray.new(x);
+  const list =
+    axes == null
+      ? Array.from(Array(arr.ndim).keys())
+      : _.checkAxes(
+          _.isNumber(axes) ? [axes as number] : (axes as number[]),
+          arr.ndim
+        );
+  list.forEach(function (axis) {
+    const size = arr.shape[axis];
+    const s = shift(size);
+    const T = _.getType(arr.dtype);
+    const out = new NdArray(new T(arr.size), arr.shape);
+    if (s < size) {
+      ops.assign(
+        _.axisRange(out.selection, axis, s, size),
+        _.axisRange(arr.selection, axis, 0, size - s)
+      );
+    }
+    if (s > 0) {
+      ops.assign(
+        _.axisRange(out.selection, axis, 0, s),
+        _.axisRange(arr.selection, axis, size - s, size)
+      );
+    }
+    arr = out;
+  });
+  return arr;
+}
+
+/**
+ * Shift the zero-frequency term to the center of the spectrum, along the given axes (default is all of them).
+ */
+export function fftshift(
+  x: ArbDimComplexArray | NdArray,
+  axes: number | number[] | null = null
+): NdArray {
+  return roll(x, axes, (size) => size >> 1);
+}
+
+/**
+ * The inverse of `fftshift`, which differs from it for odd sizes.
+ */
+export function ifftshift(
+  x: ArbDimComplexArray | NdArray,
+  axes: number | number[] | null = null
+): NdArray {
+  return roll(x, axes, (size) => (size + 1) >> 1);
+}
@@ -9,51 +9,97 @@
 
 import cwise from "cwise";
 import ops from "ndarray-ops";
-import ndFFT from "ndarray-fft";
 
-export { default as config } from "./config";
-export { default as dtypes } from "./dtypes";
-export { default as ndarray } from "ndarray";
 import {
   NdArray,
   ArbDimNumArray,
+  ArbDimComplexArray,
   ArrayLikeConstructor,
+  ConvolveOptions,
   DType,
+  ReduceOptions,
+  SortOptions,
 } from "./ndarray";
-export { NdArray };
+import { Complex, checkRealData, isComplexData } from "./complex";
 import * as errors from "./errors";
-export { errors };
-
+import * as linalg from "./linalg";
+import * as fftpack from "./fft";
+import * as randompack from "./random";
 import _ from "./utils";
 
+export { default as config } from "./config";
+export { default as dtypes } from "./dtypes";
+export { default as ndarray } from "ndarray";
+export { NdArray, errors, linalg };
+export { einsum } from "./einsum";
+
+/**
+ * Compute the discrete Fourier Transform, see `fft.fft`.
+ *
+ * `nj.fft` also holds the other discrete Fourier transforms and their helpers, e.g. `nj.fft.rfft` or `nj.fft.fftfreq`.
+ */
+export const fft = Object.assign(
+  (...args: Parameters<typeof fftpack.fft>): NdArray => fftpack.fft(...args),
+  fftpack
+);
+
+/**
+ * Compute the inverse discrete Fourier Transform, see `fft.ifft`.
+ */
+export const ifft = fftpack.ifft;
+
+/**
+ * Create an array of the given shape and propagate it with random samples from a uniform distribution over [0, 1),
+ * see `random.random`.
+ *
+ * `nj.random` also holds the other random functions and the generators drawing them, e.g. `nj.random.seed` or
+ * `nj.random.default_rng`.
+ */
+export const random = Object.assign(
+  function (...args: any[]): NdArray {
+    return randompack.random(...args);
+  } as typeof randompack.random,
+  randompack
+);
+
+/**
+ * Compute the shape resulting from broadcasting two shapes against each other.
+ * @returns `undefined` if the shapes cannot be broadcast together
+ */
 export function broadcast(shape1: number[], shape2: number[]) {
   if (shape1.length === 0 || shape2.length === 0) {
     return;
   }
-  const reversed1 = shape1.slice().reverse();
-  const reversed2 = shape2.slice().reverse();
-  const maxLength = Math.max(shape1.length, shape2.length);
-  const outShape: number[] = new Array(maxLength);
-  for (let i = 0; i < maxLength; i++) {
-    if (!reversed1[i] || reversed1[i] === 1) {
-      outShape[i] = reversed2[i];
-    } else if (!reversed2[i] || reversed2[i] === 1) {
-      outShape[i] = reversed1[i];
-    } else if (reversed1[i] === reversed2[i]) {
-      outShape[i] = reversed1[i];
-    } else {
-      return;
+  return _.broadcastShapes(shape1, shape2);
+}
+
+/**
+ * Broadcast any number of arrays against each other.
+ * @returns views of the input arrays, all having the broadcast shape
+ */
+export function broadcast_arrays(
+  ...arrays: Array<NdArray | ArbDimNumArray | number>
+): NdArray[] {
+  const nds = arrays.map((a) => NdArray.new(a));
+  let shape = nds[0].shape;
+  for (let i = 1; i < nds.length; i++) {
+    shape = _.broadcastShapes(shape, nds[i].shape);
+    if (!shape) {
+      throw new errors.ValueError(
+        "operands could not be broadcast together with shapes " +
+          nds.map((a) => _.formatShape(a.shape)).join(" ")
+      );
     }
   }
-  return outShape.reverse();
+  return nds.map((a) => a.broadcastTo(shape));
 }
 
 /**
  * Add arguments, element-wise.
  */
 export function add(
-  a: NdArray | ArbDimNumArray | number,
-  b: NdArray | ArbDimNumArray | number
+  a: NdArray | ArbDimComplexArray | number | Complex,
+  b: NdArray | ArbDimComplexArray | number | Complex
 ): NdArray {
   return NdArray.new(a).add(b);
 }
@@ -62,8 +108,8 @@ export function add(
  * Multiply arguments, element-wise.
  */
 export function multiply(
-  a: ArbDimNumArray | NdArray,
-  b: ArbDimNumArray | NdArray | number
+  a: NdArray | ArbDimComplexArray | number | Complex,
+  b: NdArray | ArbDimComplexArray | number | Complex
 ): NdArray {
   return NdArray.new(a).multiply(b);
 }
@@ -72,8 +118,8 @@ export function multiply(
  * Divide `a` by `b`, element-wise.
  */
 export function divide(
-  a: ArbDimNumArray | NdArray,
-  b: ArbDimNumArray | NdArray | number
+  a: NdArray | ArbDimComplexArray | number | Complex,
+  b: NdArray | ArbDimComplexArray | number | Complex
 ) {
   return NdArray.new(a).divide(b);
 }
@@ -82,8 +128,8 @@ export function divide(
  * Subtract second argument from the first, element-wise.
  */
 export function subtract(
-  a: ArbDimNumArray | NdArray | number,
-  b: ArbDimNumArray | NdArray | number
+  a: NdArray | ArbDimComplexArray | number | Complex,
+  b: NdArray | ArbDimComplexArray | number | Complex
 ): NdArray {
   return NdArray.new(a).subtract(b);
 }
@@ -98,6 +144,433 @@ export function equal(
   return NdArray.new(array1).equal(array2);
 }
 
+/* istanbul ignore next */
+const doGreater = cwise({
+  args: ["array", "array", "array"],
+  body: function greaterCwise(c, a, b) {
+    c = a > b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doGreaterEqual = cwise({
+  args: ["array", "array", "array"],
+  body: function greaterEqualCwise(c, a, b) {
+    c = a >= b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doLess = cwise({
+  args: ["array", "array", "array"],
+  body: function lessCwise(c, a, b) {
+    c = a < b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doLessEqual = cwise({
+  args: ["array", "array", "array"],
+  body: function lessEqualCwise(c, a, b) {
+    c = a <= b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doEqual = cwise({
+  args: ["array", "array", "array"],
+  body: function equalCwise(c, a, b) {
+    c = a === b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doNotEqual = cwise({
+  args: ["array", "array", "array"],
+  body: function notEqualCwise(c, a, b) {
+    c = a !== b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doLogicalAnd = cwise({
+  args: ["array", "array", "array"],
+  body: function logicalAndCwise(c, a, b) {
+    c = a && b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doLogicalOr = cwise({
+  args: ["array", "array", "array"],
+  body: function logicalOrCwise(c, a, b) {
+    c = a || b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doLogicalXor = cwise({
+  args: ["array", "array", "array"],
+  body: function logicalXorCwise(c, a, b) {
+    c = !a !== !b ? 1 : 0;
+  },
+});
+
+/* istanbul ignore next */
+const doLogicalNot = cwise({
+  args: ["array", "array"],
+  body: function logicalNotCwise(c, a) {
+    c = a ? 0 : 1;
+  },
+});
+
+function compare(
+  name: string,
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number,
+  kernel
+): NdArray {
+  const [a, b] = broadcast_arrays(x1, x2);
+  checkRealData(name, a.selection.data, b.selection.data);
+  const out = new NdArray(new Uint8Array(a.size), a.shape.slice());
+  kernel(out.selection, a.selection, b.selection);
+  return out;
+}
+
+/**
+ * Return the truth value of `(x1 > x2)` element-wise, as a uint8 mask (1 where true, 0 elsewhere).
+ * Operands are broadcast against each other.
+ */
+export function greater(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  return compare("greater", x1, x2, doGreater);
+}
+
+/**
+ * Return the truth value of `(x1 >= x2)` element-wise, as a uint8 mask.
+ */
+export function greater_equal(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  return compare("greater_equal", x1, x2, doGreaterEqual);
+}
+
+/**
+ * Return the truth value of `(x1 < x2)` element-wise, as a uint8 mask.
+ */
+export function less(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  return compare("less", x1, x2, doLess);
+}
+
+/**
+ * Return the truth value of `(x1 <= x2)` element-wise, as a uint8 mask.
+ */
+export function less_equal(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  return compare("less_equal", x1, x2, doLessEqual);
+}
+
+/**
+ * Return the truth value of `(x1 == x2)` element-wise, as a uint8 mask.
+ * Unlike `equal`, which compares whole arrays, the result has the broadcast shape of the operands.
+ */
+export function equal_elementwise(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  const [a, b] = [NdArray.new(x1), NdArray.new(x2)];
+  if (isComplexData(a.selection.data) || isComplexData(b.selection.data)) {
+    return logical_and(
+      equal_elementwise(a.real, b.real),
+      equal_elementwise(a.imag, b.imag)
+    );
+  }
+  return compare("equal_elementwise", a, b, doEqual);
+}
+
+/**
+ * Return the truth value of `(x1 != x2)` element-wise, as a uint8 mask.
+ */
+export function not_equal(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  const [a, b] = [NdArray.new(x1), NdArray.new(x2)];
+  if (isComplexData(a.selection.data) || isComplexData(b.selection.data)) {
+    return logical_or(not_equal(a.real, b.real), not_equal(a.imag, b.imag));
+  }
+  return compare("not_equal", a, b, doNotEqual);
+}
+
+/**
+ * Compute the truth value of `x1 AND x2` element-wise, as a uint8 mask. Non-zero values are considered true.
+ */
+export function logical_and(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  return compare("logical_and", x1, x2, doLogicalAnd);
+}
+
+/**
+ * Compute the truth value of `x1 OR x2` element-wise, as a uint8 mask.
+ */
+export function logical_or(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  return compare("logical_or", x1, x2, doLogicalOr);
+}
+
+/**
+ * Compute the truth value of `x1 XOR x2` element-wise, as a uint8 mask.
+ */
+export function logical_xor(
+  x1: NdArray | ArbDimNumArray | number,
+  x2: NdArray | ArbDimNumArray | number
+): NdArray {
+  return compare("logical_xor", x1, x2, doLogicalXor);
+}
+
+/**
+ * Compute the truth value of `NOT x` element-wise, as a uint8 mask.
+ */
+export function logical_not(x: NdArray | ArbDimNumArray | number): NdArray {
+  const a = NdArray.new(x);
+  checkRealData("logical_not", a.selection.data);
+  const out = new NdArray(new Uint8Array(a.size), a.shape.slice());
+  doLogicalNot(out.selection, a.selection);
+  return out;
+}
+
+/* istanbul ignore next */
+const doWhere = cwise({
+  args: ["array", "array", "array", "array"],
+  body: function whereCwise(out, c, x, y) {
+    out = c ? x : y;
+  },
+});
+
+/**
+ * Return the indices of the elements that are non-zero, one int32 array per dimension.
+ */
+export function nonzero(a: NdArray | ArbDimNumArray | number): NdArray[] {
+  return NdArray.new(a).nonzero();
+}
+
+/**
+ * Find the indices of array elements that are non-zero, grouped by element.
+ * @returns an int32 array of shape `[N, a.ndim]` where N is the number of non-zero elements
+ */
+export function argwhere(a: NdArray | ArbDimNumArray | number): NdArray {
+  const arr = NdArray.new(a);
+  const indices = arr.nonzero();
+  const n = indices[0].size;
+  const d = arr.ndim;
+  const out = new NdArray(new Int32Array(n * d), [n, d]);
+  for (let i = 0; i < d; i++) {
+    out.pick(null, i).assign(indices[i], false);
+  }
+  return out;
+}
+
+/**
+ * Return the dtype of the output of `where`: integer dtypes of the same signedness give the larger one, and other
+ * distinct dtypes give float64. Plain values take the dtype of the NdArray, unless it is an integer one and they are not
+ * all integers.
+ */
+function whereDtype(
+  x: NdArray | ArbDimNumArray | number,
+  y: NdArray | ArbDimNumArray | number
+): DType {
+  const dtypes = [x, y]
+    .filter((v) => v instanceof NdArray)
+    .map((v) => (v as NdArray).dtype as DType);
+  if (dtypes.length === 0) {
+    return "array";
+  }
+  let dtype = dtypes[0];
+  if (dtypes.length === 2 && dtypes[1] !== dtype) {
+    const [a, b] = dtypes.map((d) => /^(u?)int(\d+)$/.exec(d));
+    dtype =
+      a && b && a[1] === b[1]
+        ? (dtypes[Number(a[2]) < Number(b[2]) ? 1 : 0] as DType)
+        : "float64";
+  }
+  const values = [x, y].filter((v) => !(v instanceof NdArray));
+  const integers = _.flatten(values, true).every((v) => Number.isInteger(v));
+  return /int/.test(dtype) && !integers ? "float64" : dtype;
+}
+
+/**
+ * Return elements chosen from `x` or `y` depending on `condition`. Arguments are broadcast against each other.
+ * When only `condition` is given, return the indices where it is non-zero (same as `nonzero`).
+ *
+ * @param condition where non-zero, yield `x`, otherwise yield `y`
+ * @returns an array with the common dtype of `x` and `y` (the one of the NdArray if only one of them is), promoted to
+ * float64 when non-integer values are mixed with an integer dtype
+ *
+ * @example
+ * ```typescript
+ * a = nj.arange(5)
+ * nj.where(nj.less(a, 3), a, a.multiply(10))
+ * // array([  0,  1,  2, 30, 40])
+ * ```
+ */
+export function where(condition: NdArray | ArbDimNumArray | number): NdArray[];
+export function where(
+  condition: NdArray | ArbDimNumArray | number,
+  x: NdArray | ArbDimNumArray | number,
+  y: NdArray | ArbDimNumArray | number
+): NdArray;
+export function where(
+  condition: NdArray | ArbDimNumArray | number,
+  x?: NdArray | ArbDimNumArray | number,
+  y?: NdArray | ArbDimNumArray | number
+): NdArray | NdArray[] {
+  if (arguments.length === 1) {
+    return nonzero(condition);
+  }
+  if (x === undefined || y === undefined) {
+    throw new errors.ValueError(
+      "either both or neither of x and y should be given"
+    );
+  }
+  const dtype = whereDtype(x, y);
+  const [c, xb, yb] = broadcast_arrays(condition, x, y);
+  checkRealData("where", c.selection.data);
+  const T = _.getType(dtype);
+  const out = new NdArray(new T(c.size), c.shape.slice());
+  doWhere(out.selection, c.selection, xb.selection, yb.selection);
+  return out;
+}
+
+/**
+ * Take elements from an array along an axis. By default, the flattened array is used.
+ */
+export function take(
+  a: NdArray | ArbDimNumArray | number,
+  indices: NdArray | ArbDimNumArray | number,
+  axis?: number
+): NdArray {
+  return NdArray.new(a).take(indices, axis);
+}
+
+/**
+ * Replace the elements of the flattened array at the given indices by `values`, in place.
+ */
+export function put(
+  a: NdArray,
+  indices: NdArray | ArbDimNumArray | number,
+  values: NdArray | ArbDimNumArray | number
+): NdArray {
+  return a.put(indices, values);
+}
+
+/**
+ * Build the index arrays selecting `indices` along `axis` and every position along the other axes.
+ */
+function alongAxisIndices(
+  arr: NdArray,
+  indices: NdArray,
+  axis: number
+): NdArray[] {
+  const d = arr.ndim;
+  if (indices.ndim !== d) {
+    throw new errors.ValueError(
+      "`indices` and `arr` must have the same number of dimensions"
+    );
+  }
+  if (axis < -d || axis >= d) {
+    throw new errors.ValueError(
+      "axis " + axis + " is out of bounds for array of dimension " + d
+    );
+  }
+  if (axis < 0) {
+    axis += d;
+  }
+  const result = [];
+  for (let i = 0; i < d; i++) {
+    if (i === axis) {
+      result.push(indices);
+    } else {
+      const shape = new Array(d).fill(1);
+      shape[i] = arr.shape[i];
+      result.push(arange(arr.shape[i], "int32").reshape(shape));
+    }
+  }
+  return result;
+}
+
+/**
+ * Take values from the input array by matching 1-D index and data slices along the given axis,
+ * e.g. the result of `argsort`. If `axis` is null, the flattened array is used.
+ *
+ * @param indices array with the same number of dimensions as `arr`, broadcast against it on the other axes
+ */
+export function take_along_axis(
+  arr: NdArray | ArbDimNumArray,
+  indices: NdArray | ArbDimNumArray,
+  axis: number | null
+): NdArray {
+  let a = NdArray.new(arr);
+  const idx = NdArray.new(indices);
+  if (axis === null) {
+    a = a.reshape(a.size);
+    axis = 0;
+  }
+  return a.index(...alongAxisIndices(a, idx, axis));
+}
+
+/**
+ * Put values into the destination array by matching 1-D index and data slices along the given axis, in place.
+ *
+ * @param values values to insert, broadcast against `indices`
+ * @returns `arr` itself
+ */
+export function put_along_axis(
+  arr: NdArray,
+  indices: NdArray | ArbDimNumArray,
+  values: NdArray | ArbDimNumArray | number,
+  axis: number
+): NdArray {
+  const idx = NdArray.new(indices);
+  return arr.setIndex(alongAxisIndices(arr, idx, axis), values);
+}
+
+/**
+ * Construct an open mesh from multiple sequences: the i-th output has all dimensions of size one except the i-th.
+ * Pass the result to `NdArray.index` to select the cross product of the sequences.
+ *
+ * @example
+ * ```typescript
+ * a = nj.arange(12).reshape(3, 4)
+ * a.index(...nj.ix_([0, 2], [3, 1]))
+ * // array([[  3,  1],
+ * //        [ 11,  9]])
+ * ```
+ */
+export function ix_(...sequences: Array<NdArray | ArbDimNumArray>): NdArray[] {
+  const d = sequences.length;
+  return sequences.map(function (seq, i) {
+    const arr = NdArray.new(seq);
+    if (arr.ndim !== 1) {
+      throw new errors.ValueError("Cross index must be 1 dimensional");
+    }
+    const shape = new Array(d).fill(1);
+    shape[i] = arr.size;
+    return arr.reshape(shape);
+  });
+}
+
 /**
  * Return a copy of the array collapsed into one dimension using row-major order (C-style)
  */
@@ -155,17 +628,39 @@ export function power(
 }
 
 /**
- * Return the sum of input array elements.
+ * Return the sum of input array elements, or the sums along the given axis.
  */
-export function sum(x: ArbDimNumArray | NdArray | number): number {
-  return NdArray.new(x).sum();
+export function sum(
+  x: ArbDimNumArray | NdArray | number,
+  options?: { axis?: undefined; keepdims?: false }
+): number | Complex;
+export function sum(
+  x: ArbDimNumArray | NdArray | number,
+  options: ReduceOptions
+): NdArray;
+export function sum(
+  x: ArbDimNumArray | NdArray | number,
+  options?: ReduceOptions
+): number | Complex | NdArray {
+  return NdArray.new(x).sum(options);
 }
 
 /**
- * Return the arithmetic mean of input array elements.
+ * Return the arithmetic mean of input array elements, or the means along the given axis.
  */
-export function mean(x: ArbDimNumArray | NdArray | number): number {
-  return NdArray.new(x).mean();
+export function mean(
+  x: ArbDimNumArray | NdArray | number,
+  options?: { axis?: undefined; keepdims?: false }
+): number | Complex;
+export function mean(
+  x: ArbDimNumArray | NdArray | number,
+  options: ReduceOptions
+): NdArray;
+export function mean(
+  x: ArbDimNumArray | NdArray | number,
+  options?: ReduceOptions
+): number | Complex | NdArray {
+  return NdArray.new(x).mean(options);
 }
 
 /**
@@ -173,23 +668,111 @@ export function mean(x: ArbDimNumArray | NdArray | number): number {
  */
 export function std(
   x: ArbDimNumArray | NdArray | number,
-  options?: { ddof: number }
-): number {
+  options?: { ddof?: number; axis?: undefined; keepdims?: false }
+): number;
+export function std(
+  x: ArbDimNumArray | NdArray | number,
+  options: ReduceOptions & { ddof?: number }
+): NdArray;
+export function std(
+  x: ArbDimNumArray | NdArray | number,
+  options?: ReduceOptions & { ddof?: number }
+): number | NdArray {
   return NdArray.new(x).std(options);
 }
 
 /**
- * Return the minimum value of the array
+ * Return the minimum value of the array, or the minima along the given axis.
  */
-export function min(x: ArbDimNumArray | NdArray | number): number {
-  return NdArray.new(x).min();
+export function min(
+  x: ArbDimNumArray | NdArray | number,
+  options?: { axis?: undefined; keepdims?: false }
+): number;
+export function min(
+  x: ArbDimNumArray | NdArray | number,
+  options: ReduceOptions
+): NdArray;
+export function min(
+  x: ArbDimNumArray | NdArray | number,
+  options?: ReduceOptions
+): number | NdArray {
+  return NdArray.new(x).min(options);
 }
 
 /**
- * Return the maximum value of the array
+ * Return the maximum value of the array, or the maxima along the given axis.
  */
-export function max(x: ArbDimNumArray | NdArray | number): number {
-  return NdArray.new(x).max();
+export function max(
+  x: ArbDimNumArray | NdArray | number,
+  options?: { axis?: undefined; keepdims?: false }
+): number;
+export function max(
+  x: ArbDimNumArray | NdArray | number,
+  options: ReduceOptions
+): NdArray;
+export function max(
+  x: ArbDimNumArray | NdArray | number,
+  options?: ReduceOptions
+): number | NdArray {
+  return NdArray.new(x).max(options);
+}
+
+/**
+ * Return the index of the maximum value in the flattened array, or the indices of the maxima along the given axis.
+ */
+export function argmax(
+  x: ArbDimNumArray | NdArray | number,
+  options?: { axis?: undefined; keepdims?: false }
+): number;
+export function argmax(
+  x: ArbDimNumArray | NdArray | number,
+  options: { axis?: number; keepdims?: boolean }
+): NdArray;
+export function argmax(
+  x: ArbDimNumArray | NdArray | number,
+  options?: { axis?: number; keepdims?: boolean }
+): number | NdArray {
+  return NdArray.new(x).argmax(options);
+}
+
+/**
+ * Return the index of the minimum value in the flattened array, or the indices of the minima along the given axis.
+ */
+export function argmin(
+  x: ArbDimNumArray | NdArray | number,
+  options?: { axis?: undefined; keepdims?: false }
+): number;
+export function argmin(
+  x: ArbDimNumArray | NdArray | number,
+  options: { axis?: number; keepdims?: boolean }
+): NdArray;
+export function argmin(
+  x: ArbDimNumArray | NdArray | number,
+  options?: { axis?: number; keepdims?: boolean }
+): number | NdArray {
+  return NdArray.new(x).argmin(options);
+}
+
+/**
+ * Return a sorted copy of an array.
+ * @param options default `{axis: -1}`. Use `axis: null` to sort the flattened array.
+ */
+export function sort(
+  x: ArbDimNumArray | NdArray | number,
+  options?: SortOptions
+): NdArray {
+  return NdArray.new(x).sort(options);
+}
+
+/**
+ * Return the indices that would sort an array.
+ * @param options default `{axis: -1}`. Use `axis: null` to sort the flattened array.
+ */
+export function argsort(
+  x: ArbDimNumArray | NdArray | number,
+  options?: SortOptions
+): NdArray {
+  return NdArray.new(x).argsort(options);
 }
 
 /**
@@ -346,27 +929,6 @@ export function empty(
   return new NdArray(new T(s), shape as number[]);
 }
 
-/**
- * Create an array of the given shape and propagate it with random samples from a uniform distribution over [0, 1].
- * @param shape - The dimensions of the returned array, should all be positive integers
- */
-export function random(...shape: number[]): NdArray;
-export function random(shape?: number | number[]): NdArray;
-export function random(...args: any[]): NdArray {
-  let shape;
-  if (arguments.length === 0) {
-    return NdArray.new(Math.random());
-  } else if (arguments.length === 1) {
-    shape = _.isNumber(args[0]) ? [(args[0] as number) | 0] : args[0];
-  } else {
-    shape = [].slice.call(arguments);
-  }
-  const s = _.shapeSize(shape);
-  const arr = new NdArray(new Float64Array(s), shape);
-  ops.random(arr.selection);
-  return arr;
-}
-
 /**
  * Return the softmax, or normalized exponential, of the input array, element-wise.
  */
@@ -392,6 +954,7 @@ const doSigmoid = cwise({
  */
 export function sigmoid(x: ArbDimNumArray | NdArray | number, t = 1): NdArray {
   x = NdArray.new(x).clone();
+  checkRealData("sigmoid", x.selection.data);
   t = t || 1;
   doSigmoid(x.selection, t);
   return x;
@@ -420,6 +983,7 @@ export function clip(
     max = 1;
   }
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("clip", s.selection.data);
   doClip(s.selection, min, max);
   return s;
 }
@@ -437,6 +1001,7 @@ export function leakyRelu(
 ): NdArray {
   alpha = alpha || 1e-3;
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("leakyRelu", s.selection.data);
   doLeakyRelu(s.selection, alpha);
   return s;
 }
@@ -454,24 +1019,98 @@ const doTanh = cwise({
  */
 export function tanh(x: ArbDimNumArray | NdArray | number): NdArray {
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("tanh", s.selection.data);
   doTanh(s.selection);
   return s;
 }
 
+/* istanbul ignore next */
+const doHypot = cwise({
+  args: ["array", "array", "array"],
+  body: function hypotCwise(c, a, b) {
+    c = Math.sqrt(a * a + b * b);
+  },
+});
+
 /**
  * Return absolute value of the input array, element-wise.
+ * For complex arrays, this is the magnitude of the elements, as a `float32` (for `complex64`) or `float64` array.
  */
-export function abs(x: ArbDimNumArray | NdArray | number): NdArray {
-  const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+export function abs(
+  x: ArbDimComplexArray | NdArray | number | Complex
+): NdArray {
+  const arr = NdArray.new(x);
+  if (isComplexData(arr.selection.data)) {
+    const T = arr.dtype === "complex64" ? Float32Array : Float64Array;
+    const out = new NdArray(new T(arr.size), arr.shape);
+    doHypot(out.selection, arr.real.selection, arr.imag.selection);
+    return out;
+  }
+  const s = x instanceof NdArray ? x.clone() : arr;
   ops.abseq(s.selection);
   return s;
 }
 
+/**
+ * Return the real part of the array: a view for complex arrays, the array itself otherwise.
+ */
+export function real(x: ArbDimComplexArray | NdArray | number): NdArray {
+  return NdArray.new(x).real;
+}
+
+/**
+ * Return the imaginary part of the array: a view for complex arrays, an array of zeros otherwise.
+ */
+export function imag(x: ArbDimComplexArray | NdArray | number): NdArray {
+  return NdArray.new(x).imag;
+}
+
+/**
+ * Return the complex conjugate, element-wise.
+ */
+export function conj(x: ArbDimComplexArray | NdArray | number): NdArray {
+  return NdArray.new(x).conj();
+}
+
+export const conjugate = conj;
+
+/* istanbul ignore next */
+const doAngle = cwise({
+  args: ["array", "array", "array", "scalar"],
+  body: function angleCwise(c, re, im, scale) {
+    c = Math.atan2(im, re) * scale;
+  },
+});
+
+/**
+ * Return the angle (argument) of the complex elements, in ]-pi, pi], or in degrees if `deg` is true.
+ * Real elements have an angle of 0 or pi, depending on their sign.
+ */
+export function angle(
+  z: ArbDimComplexArray | NdArray | number | Complex,
+  deg = false
+): NdArray {
+  const arr = NdArray.new(z);
+  const T =
+    arr.dtype === "complex64" || arr.dtype === "float32"
+      ? Float32Array
+      : Float64Array;
+  const out = new NdArray(new T(arr.size), arr.shape);
+  doAngle(
+    out.selection,
+    arr.real.selection,
+    arr.imag.selection,
+    deg ? 180 / Math.PI : 1
+  );
+  return out;
+}
+
 /**
  * Return trigonometric cosine of the input array, element-wise.
  */
 export function cos(x: ArbDimNumArray | NdArray | number): NdArray {
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("cos", s.selection.data);
   ops.coseq(s.selection);
   return s;
 }
@@ -481,6 +1120,7 @@ export function cos(x: ArbDimNumArray | NdArray | number): NdArray {
  */
 export function arccos(x: ArbDimNumArray | NdArray | number): NdArray {
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("arccos", s.selection.data);
   ops.acoseq(s.selection);
   return s;
 }
@@ -490,6 +1130,7 @@ export function arccos(x: ArbDimNumArray | NdArray | number): NdArray {
  */
 export function sin(x: ArbDimNumArray | NdArray | number): NdArray {
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("sin", s.selection.data);
   ops.sineq(s.selection);
   return s;
 }
@@ -499,6 +1140,7 @@ export function sin(x: ArbDimNumArray | NdArray | number): NdArray {
  */
 export function arcsin(x: ArbDimNumArray | NdArray | number): NdArray {
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("arcsin", s.selection.data);
   ops.asineq(s.selection);
   return s;
 }
@@ -508,6 +1150,7 @@ export function arcsin(x: ArbDimNumArray | NdArray | number): NdArray {
  */
 export function tan(x: ArbDimNumArray | NdArray | number): NdArray {
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("tan", s.selection.data);
   ops.taneq(s.selection);
   return s;
 }
@@ -517,6 +1160,7 @@ export function tan(x: ArbDimNumArray | NdArray | number): NdArray {
  */
 export function arctan(x: ArbDimNumArray | NdArray | number): NdArray {
   const s = x instanceof NdArray ? x.clone() : NdArray.new(x);
+  checkRealData("arctan", s.selection.data);
   ops.ataneq(s.selection);
   return s;
 }
@@ -537,6 +1181,156 @@ export function dot(
   return NdArray.new(a).dot(b);
 }
 
+/**
+ * Matrix product of two arrays, with stacked (batched) semantics for arrays with more than two dimensions.
+ * See {@link NdArray.matmul}.
+ */
+export function matmul(
+  a: ArbDimNumArray | NdArray,
+  b: ArbDimNumArray | NdArray
+): NdArray {
+  return NdArray.new(a).matmul(b);
+}
+
+/**
+ * Compute the outer product of two vectors, the inputs being flattened if they are not already 1-dimensional.
+ *
+ * @returns an array of shape `[a.size, b.size]` with `out[i, j] = a[i] * b[j]`
+ */
+export function outer(
+  a: ArbDimNumArray | NdArray,
+  b: ArbDimNumArray | NdArray
+): NdArray {
+  const x = NdArray.new(a).flatten();
+  const y = NdArray.new(b).flatten();
+  return x.reshape(x.size, 1).multiply(y.reshape(1, y.size));
+}
+
+/**
+ * Inner product of two arrays: the ordinary inner product of vectors for 1-D arrays, and in higher dimensions a
+ * sum product over the last axes.
+ *
+ * @returns an array of shape `a.shape[:-1] + b.shape[:-1]` (`[1]` for two vectors)
+ */
+export function inner(
+  a: ArbDimNumArray | NdArray,
+  b: ArbDimNumArray | NdArray
+): NdArray {
+  const x = NdArray.new(a);
+  const y = NdArray.new(b);
+  const k = x.shape[x.ndim - 1];
+  if (k !== y.shape[y.ndim - 1]) {
+    throw new errors.ValueError(
+      "shapes " +
+        _.formatShape(x.shape) +
+        " and " +
+        _.formatShape(y.shape) +
+        " not aligned: " +
+        k +
+        " (dim " +
+        (x.ndim - 1) +
+        ") != " +
+        y.shape[y.ndim - 1] +
+        " (dim " +
+        (y.ndim - 1) +
+        ")"
+    );
+  }
+  const shape = x.shape.slice(0, -1).concat(y.shape.slice(0, -1));
+  const res = x.flatten().reshape(-1, k).dot(y.flatten().reshape(-1, k).T);
+  return res.reshape(shape.length ? shape : [1]);
+}
+
+/**
+ * Compute the tensor dot product along specified axes: the sum of the products of the elements of `a` and `b` over
+ * the axes of `a` and `b` given by `axes`.
+ *
+ * @param axes either an integer N, to sum over the last N axes of `a` and the first N axes of `b` (default 2),
+ * or a pair `[axesA, axesB]` of axes (or lists of axes) with the same lengths
+ * @returns an array whose shape is made of the remaining axes of `a` followed by the remaining axes of `b`
+ */
+export function tensordot(
+  a: ArbDimNumArray | NdArray,
+  b: ArbDimNumArray | NdArray,
+  axes: number | [number | number[], number | number[]] = 2
+): NdArray {
+  const x = NdArray.new(a);
+  const y = NdArray.new(b);
+  let axesA: number[];
+  let axesB: number[];
+  if (typeof axes === "number") {
+    axesA = [];
+    axesB = [];
+    for (let i = 0; i < axes; i++) {
+      axesA.push(x.ndim - axes + i);
+      axesB.push(i);
+    }
+  } else {
+    axesA = typeof axes[0] === "number" ? [axes[0]] : axes[0];
+    axesB = typeof axes[1] === "number" ? [axes[1]] : axes[1];
+  }
+  axesA = axesA.map((ax) => (ax < 0 ? ax + x.ndim : ax));
+  axesB = axesB.map((ax) => (ax < 0 ? ax + y.ndim : ax));
+  if (
+    axesA.length !== axesB.length ||
+    axesA.some(
+      (ax, i) => ax < 0 || ax >= x.ndim || x.shape[ax] !== y.shape[axesB[i]]
+    )
+  ) {
+    throw new errors.ValueError("shape-mismatch for sum");
+  }
+  if (
+    axesA.some((ax, i) => axesA.indexOf(ax) !== i) ||
+    axesB.some((ax, i) => axesB.indexOf(ax) !== i)
+  ) {
+    throw new errors.ValueError("duplicate value in 'axes'");
+  }
+  const freeA = x.shape
+    .map((_s, i) => i)
+    .filter((i) => axesA.indexOf(i) === -1);
+  const freeB = y.shape
+    .map((_s, i) => i)
+    .filter((i) => axesB.indexOf(i) === -1);
+  const k = axesA.reduce((p, ax) => p * x.shape[ax], 1);
+  const shape = freeA
+    .map((i) => x.shape[i])
+    .concat(freeB.map((i) => y.shape[i]));
+  return x
+    .transpose(freeA.concat(axesA))
+    .reshape(-1, k)
+    .dot(y.transpose(axesB.concat(freeB)).reshape(k, -1))
+    .reshape(shape.length ? shape : [1]);
+}
+
+/**
+ * Kronecker product of two arrays: a composite array made of blocks of `b` scaled by the elements of `a`.
+ *
+ * @returns an array of shape `a.shape * b.shape` (element-wise), the shape of the input with fewer dimensions
+ * being prepended with ones
+ */
+export function kron(
+  a: ArbDimNumArray | NdArray,
+  b: ArbDimNumArray | NdArray
+): NdArray {
+  const x = NdArray.new(a);
+  const y = NdArray.new(b);
+  const d = Math.max(x.ndim, y.ndim);
+  const xShape = new Array(d - x.ndim).fill(1).concat(x.shape);
+  const yShape = new Array(d - y.ndim).fill(1).concat(y.shape);
+  // interleave the axes: [a0, 1, a1, 1, ...] * [1, b0, 1, b1, ...] has shape [a0, b0, a1, b1, ...]
+  const xs = [];
+  const ys = [];
+  for (let i = 0; i < d; i++) {
+    xs.push(xShape[i], 1);
+    ys.push(1, yShape[i]);
+  }
+  return x
+    .flatten()
+    .reshape(xs)
+    .multiply(y.flatten().reshape(ys))
+    .reshape(xShape.map((s, i) => s * yShape[i]));
+}
+
 /**
  * Join given arrays along the last axis.
  */
@@ -617,69 +1411,62 @@ export function round(x: ArbDimNumArray | NdArray): NdArray {
 /**
  * Convolve 2 N-dimensionnal arrays
  *
- * @note: Arrays must have the same dimensions and a must be greater than b.
- * @note: The convolution product is only given for points where the signals overlap completely. Values outside the signal boundary have no effect. This behaviour is known as the 'valid' mode.
+ * @note: Arrays must have the same dimensions. In 'valid' mode, a must be greater than b.
+ * @note: By default, the convolution product is only given for points where the signals overlap completely. Values outside the signal boundary have no effect. This behaviour is known as the 'valid' mode, see {@link ConvolveOptions} for the others.
  */
 export function convolve(
   a: ArbDimNumArray | NdArray,
-  b: ArbDimNumArray | NdArray
+  b: ArbDimNumArray | NdArray,
+  options?: ConvolveOptions
 ): NdArray {
-  return NdArray.new(a).convolve(b);
+  return NdArray.new(a).convolve(b, options);
 }
 
 /**
  * Convolve 2 N-dimensionnal arrays using Fast Fourier Transform (FFT)
  *
- * @note: Arrays must have the same dimensions and a must be greater than b.
- * @note: The convolution product is only given for points where the signals overlap completely. Values outside the signal boundary have no effect. This behaviour is known as the 'valid' mode.
+ * @note: Arrays must have the same dimensions. In 'valid' mode, a must be greater than b.
+ * @note: By default, the convolution product is only given for points where the signals overlap completely. Values outside the signal boundary have no effect. This behaviour is known as the 'valid' mode, see {@link ConvolveOptions} for the others.
  */
 export function fftconvolve(
   a: ArbDimNumArray | NdArray,
-  b: ArbDimNumArray | NdArray
+  b: ArbDimNumArray | NdArray,
+  options?: ConvolveOptions
 ): NdArray {
-  return NdArray.new(a).fftconvolve(b);
+  return NdArray.new(a).fftconvolve(b, options);
 }
 
-export function fft(x: ArbDimNumArray | NdArray): NdArray {
-  x = x instanceof NdArray ? x.clone() : NdArray.new(x);
-  const xShape = x.shape;
-  const d = xShape.length;
-  if (xShape[d - 1] !== 2) {
-    throw new errors.ValueError(
-      "expect last dimension of the array to have 2 values (for both real and imaginary part)"
-    );
-  }
-  let rPicker = new Array(d);
-  let iPicker = new Array(d);
-  rPicker[d - 1] = 0;
-  iPicker[d - 1] = 1;
-  ndFFT(
-    1,
-    x.selection.pick.apply(x.selection, rPicker),
-    x.selection.pick.apply(x.selection, iPicker)
-  );
-  return x;
+/**
+ * Cross-correlate 2 N-dimensionnal arrays, i.e. convolve a with b flipped along every axis.
+ *
+ * @note: Arrays must have the same dimensions. In 'valid' mode (the default), a must be greater than b.
+ */
+export function correlate(
+  a: ArbDimNumArray | NdArray,
+  b: ArbDimNumArray | NdArray,
+  options?: ConvolveOptions
+): NdArray {
+  b = NdArray.new(b);
+  const flipped = b.step(...b.shape.map(() => -1));
+  return NdArray.new(a).convolve(flipped, options);
 }
 
-export function ifft(x: ArbDimNumArray | NdArray): NdArray {
-  x = x instanceof NdArray ? x.clone() : NdArray.new(x);
-  const xShape = x.shape;
-  const d = xShape.length;
-  if (xShape[d - 1] !== 2) {
-    throw new errors.ValueError(
-      "expect last dimension of the array to have 2 values (for both real and imaginary part)"
-    );
+/**
+ * Cross-correlate 2 two-dimensional arrays, like `scipy.signal.correlate2d`.
+ *
+ * @note: Unlike `correlate`, the default mode is 'full'.
+ */
+export function correlate2d(
+  a: ArbDimNumArray | NdArray,
+  b: ArbDimNumArray | NdArray,
+  options?: ConvolveOptions
+): NdArray {
+  a = NdArray.new(a);
+  b = NdArray.new(b);
+  if (a.ndim !== 2 || b.ndim !== 2) {
+    throw new errors.ValueError("correlate2d inputs must both be 2-D arrays");
   }
-  let rPicker = new Array(d);
-  let iPicker = new Array(d);
-  rPicker[d - 1] = 0;
-  iPicker[d - 1] = 1;
-  ndFFT(
-    -1,
-    x.selection.pick.apply(x.selection, rPicker),
-    x.selection.pick.apply(x.selection, iPicker)
-  );
-  return x;
+  return correlate(a, b, { mode: "full", ...options });
 }
 
 /**
@@ -690,6 +1477,18 @@ export function diag(x: ArbDimNumArray | NdArray): NdArray {
   return NdArray.new(x).diag();
 }
 
+/**
+ * Return the sum along diagonals of the array, see {@link NdArray.trace}.
+ */
+export function trace(
+  a: ArbDimNumArray | NdArray,
+  offset = 0,
+  axis1 = 0,
+  axis2 = 1
+): number | Complex | NdArray {
+  return NdArray.new(a).trace(offset, axis1, axis2);
+}
+
 /**
  * The identity array is a square array with ones on the main diagonal.
  * @param n number of rows (and columns) in n x n output.
@@ -741,7 +1540,14 @@ export function stack(
     // stacking numbers
     stacked = concatenate(arrays2);
   } else {
-    stacked = zeros([arrays2.length].concat(expectedShape));
+    // complex arrays give a complex result, with the default dtype otherwise
+    const dtypes = arrays2.map((a) => (a as NdArray).dtype);
+    const dtype = dtypes.every((t) => t === "complex64")
+      ? "complex64"
+      : dtypes.some((t) => t === "complex64" || t === "complex128")
+      ? "complex128"
+      : undefined;
+    stacked = zeros([arrays2.length].concat(expectedShape), dtype);
     for (let i = 0; i < arrays2.length; i++) {
       stacked.pick(i).assign(arrays2[i], false);
     }
@@ -866,3 +1672,13 @@ export function float64(array: ArbDimNumArray | number): NdArray {
 export function uint8Clamped(array: ArbDimNumArray | number): NdArray {
   return NdArray.new(array, "uint8_clamped");
 }
+export function complex64(
+  array: ArbDimComplexArray | number | Complex
+): NdArray {
+  return NdArray.new(array, "complex64");
+}
+export function complex128(
+  array: ArbDimComplexArray | number | Complex
+): NdArray {
+  return NdArray.new(array, "complex128");
+}
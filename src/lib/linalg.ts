@@ -0,0 +1,1662 @@
+/**
+ * Linear algebra functions, exported as `nj.linalg`.
+ *
+ * Matrices are copied into float64 arrays before any computation, results are float64 `NdArray`s.
+ *
+ * @packageDocumentation
+ */
+"use strict";
+
+import ops from "ndarray-ops";
+
+import { NdArray, ArbDimNumArray } from "./ndarray";
+import { Complex128Array, checkRealData } from "./complex";
+import * as errors from "./errors";
+import _ from "./utils";
+
+/**
+ * Check that `arr` is a matrix, and a square one if `square` is set.
+ */
+function checkMatrix(arr: NdArray, square: boolean) {
+  checkRealData("linalg", arr.selection.data);
+  if (arr.ndim !== 2) {
+    throw new errors.LinAlgError(
+      arr.ndim + "-dimensional array given. Array must be two-dimensional"
+    );
+  }
+  if (square && arr.shape[0] !== arr.shape[1]) {
+    throw new errors.LinAlgError(
+      "Last 2 dimensions of the array must be square"
+    );
+  }
+}
+
+/**
+ * Return a contiguous float64 copy of `a`, checking it is a matrix (and a square one if `square` is set).
+ */
+function toMatrix(a: NdArray | ArbDimNumArray, square = false): NdArray {
+  const arr = NdArray.new(a);
+  checkMatrix(arr, square);
+  const out = new NdArray(new Float64Array(arr.size), arr.shape.slice());
+  ops.assign(out.selection, arr.selection);
+  return out;
+}
+
+/**
+ * LU decomposition with partial pivoting, computed in place on the row-major `m x n` matrix `lu`:
+ * the strictly lower part receives L (with an implicit unit diagonal) and the upper part receives U,
+ * such that `A[perm[i], :] = (L U)[i, :]`.
+ */
+function luFactor(lu: Float64Array, m: number, n = m) {
+  const perm = new Int32Array(m);
+  for (let i = 0; i < m; i++) {
+    perm[i] = i;
+  }
+  let sign = 1;
+  let singular = false;
+  for (let k = 0; k < Math.min(m, n); k++) {
+    let p = k;
+    let max = Math.abs(lu[k * n + k]);
+    for (let i = k + 1; i < m; i++) {
+      const v = Math.abs(lu[i * n + k]);
+      if (v > max) {
+        max = v;
+        p = i;
+      }
+    }
+    if (p !== k) {
+      for (let j = 0; j < n; j++) {
+        const tmp = lu[k * n + j];
+        lu[k * n + j] = lu[p * n + j];
+        lu[p * n + j] = tmp;
+      }
+      const tmp = perm[k];
+      perm[k] = perm[p];
+      perm[p] = tmp;
+      sign = -sign;
+    }
+    const pivot = lu[k * n + k];
+    if (pivot === 0) {
+      singular = true;
+      continue;
+    }
+    for (let i = k + 1; i < m; i++) {
+      const f = (lu[i * n + k] /= pivot);
+      if (f !== 0) {
+        for (let j = k + 1; j < n; j++) {
+          lu[i * n + j] -= f * lu[k * n + j];
+        }
+      }
+    }
+  }
+  return { perm, sign, singular };
+}
+
+/**
+ * Solve `A X = B` given the LU factors of A, B being a row-major `n x m` matrix. Return X, row-major.
+ */
+function luSolve(
+  lu: Float64Array,
+  perm: Int32Array,
+  n: number,
+  b: Float64Array,
+  m: number
+): Float64Array {
+  const x = new Float64Array(n * m);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      x[i * m + j] = b[perm[i] * m + j];
+    }
+  }
+  // forward substitution with the unit lower triangle
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < i; k++) {
+      const f = lu[i * n + k];
+      if (f !== 0) {
+        for (let j = 0; j < m; j++) {
+          x[i * m + j] -= f * x[k * m + j];
+        }
+      }
+    }
+  }
+  // backward substitution with the upper triangle
+  for (let i = n - 1; i >= 0; i--) {
+    for (let k = i + 1; k < n; k++) {
+      const f = lu[i * n + k];
+      if (f !== 0) {
+        for (let j = 0; j < m; j++) {
+          x[i * m + j] -= f * x[k * m + j];
+        }
+      }
+    }
+    const d = lu[i * n + i];
+    for (let j = 0; j < m; j++) {
+      x[i * m + j] /= d;
+    }
+  }
+  return x;
+}
+
+/**
+ * Compute the sign and (natural) logarithm of the determinant of a square matrix.
+ *
+ * @returns `[sign, logabsdet]`: sign is 1, -1 or 0 (for singular matrices, in which case `logabsdet` is `-Infinity`)
+ */
+export function slogdet(a: NdArray | ArbDimNumArray): [number, number] {
+  const m = toMatrix(a, true);
+  const n = m.shape[0];
+  const lu = m.selection.data as Float64Array;
+  const { sign, singular } = luFactor(lu, n);
+  if (singular) {
+    return [0, -Infinity];
+  }
+  let s = sign;
+  let logdet = 0;
+  for (let i = 0; i < n; i++) {
+    const d = lu[i * n + i];
+    if (d < 0) {
+      s = -s;
+    }
+    logdet += Math.log(Math.abs(d));
+  }
+  return [s, logdet];
+}
+
+/**
+ * Compute the determinant of a square matrix, using its LU decomposition.
+ */
+export function det(a: NdArray | ArbDimNumArray): number {
+  const m = toMatrix(a, true);
+  const n = m.shape[0];
+  const lu = m.selection.data as Float64Array;
+  const { sign, singular } = luFactor(lu, n);
+  if (singular) {
+    return 0;
+  }
+  let d = sign;
+  for (let i = 0; i < n; i++) {
+    d *= lu[i * n + i];
+  }
+  return d;
+}
+
+/**
+ * Solve a linear matrix equation `a x = b` for `x`, using the LU decomposition with partial pivoting of `a`.
+ *
+ * @param a square coefficient matrix
+ * @param b right-hand side: a vector of shape `[n]`, or a matrix of shape `[n, k]` holding k right-hand sides as columns
+ * @returns a float64 array of the same shape as `b`
+ * @throws LinAlgError if `a` is singular
+ */
+export function solve(
+  a: NdArray | ArbDimNumArray,
+  b: NdArray | ArbDimNumArray
+): NdArray {
+  const m = toMatrix(a, true);
+  const n = m.shape[0];
+  const rhs = NdArray.new(b);
+  checkRealData("linalg", rhs.selection.data);
+  if (rhs.ndim < 1 || rhs.ndim > 2 || rhs.shape[0] !== n) {
+    throw new errors.ValueError(
+      "solve: b of shape " +
+        _.formatShape(rhs.shape) +
+        " is incompatible with a of shape " +
+        _.formatShape(m.shape)
+    );
+  }
+  const k = rhs.ndim === 1 ? 1 : rhs.shape[1];
+  const bData = new Float64Array(n * k);
+  ops.assign(new NdArray(bData, rhs.shape.slice()).selection, rhs.selection);
+  const lu = m.selection.data as Float64Array;
+  const { perm, singular } = luFactor(lu, n);
+  if (singular) {
+    throw new errors.LinAlgError("Singular matrix");
+  }
+  return new NdArray(luSolve(lu, perm, n, bData, k), rhs.shape.slice());
+}
+
+/**
+ * Compute the (multiplicative) inverse of a square matrix.
+ *
+ * @throws LinAlgError if `a` is singular
+ */
+export function inv(a: NdArray | ArbDimNumArray): NdArray {
+  const m = toMatrix(a, true);
+  const n = m.shape[0];
+  const eye = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    eye[i * n + i] = 1;
+  }
+  const lu = m.selection.data as Float64Array;
+  const { perm, singular } = luFactor(lu, n);
+  if (singular) {
+    throw new errors.LinAlgError("Singular matrix");
+  }
+  return new NdArray(luSolve(lu, perm, n, eye, n), [n, n]);
+}
+
+/**
+ * Compute the LU decomposition with partial pivoting of a `m x n` matrix, such that `a = P L U`.
+ *
+ * @returns `[P, L, U]`: P is a `m x m` permutation matrix, L a `m x k` lower triangular matrix with unit diagonal
+ * and U a `k x n` upper triangular matrix, with `k = min(m, n)`
+ */
+export function lu(a: NdArray | ArbDimNumArray): [NdArray, NdArray, NdArray] {
+  const mat = toMatrix(a);
+  const [m, n] = mat.shape;
+  const k = Math.min(m, n);
+  const data = mat.selection.data as Float64Array;
+  const { perm } = luFactor(data, m, n);
+  const p = new Float64Array(m * m);
+  for (let i = 0; i < m; i++) {
+    p[perm[i] * m + i] = 1;
+  }
+  const l = new Float64Array(m * k);
+  for (let i = 0; i < m; i++) {
+    for (let j = 0; j < Math.min(i, k); j++) {
+      l[i * k + j] = data[i * n + j];
+    }
+    if (i < k) {
+      l[i * k + i] = 1;
+    }
+  }
+  const u = new Float64Array(k * n);
+  for (let i = 0; i < k; i++) {
+    for (let j = i; j < n; j++) {
+      u[i * n + j] = data[i * n + j];
+    }
+  }
+  return [
+    new NdArray(p, [m, m]),
+    new NdArray(l, [m, k]),
+    new NdArray(u, [k, n]),
+  ];
+}
+
+/**
+ * Compute the QR decomposition of a `m x n` matrix using Householder reflections, such that `a = Q R`
+ * with Q orthonormal and R upper triangular.
+ *
+ * @param mode `"reduced"` (default) returns Q of shape `[m, k]` and R of shape `[k, n]` with `k = min(m, n)`,
+ * `"complete"` returns Q of shape `[m, m]` and R of shape `[m, n]`, and `"r"` only returns the reduced R
+ */
+export function qr(
+  a: NdArray | ArbDimNumArray,
+  mode?: "reduced" | "complete"
+): [NdArray, NdArray];
+export function qr(a: NdArray | ArbDimNumArray, mode: "r"): NdArray;
+export function qr(
+  a: NdArray | ArbDimNumArray,
+  mode: "reduced" | "complete" | "r" = "reduced"
+): [NdArray, NdArray] | NdArray {
+  if (mode !== "reduced" && mode !== "complete" && mode !== "r") {
+    throw new errors.ValueError("Unrecognized mode '" + mode + "'");
+  }
+  const mat = toMatrix(a);
+  const [m, n] = mat.shape;
+  const k = Math.min(m, n);
+  const r = mat.selection.data as Float64Array;
+  // the Householder vectors, v_j being stored in vs[j * m + j .. j * m + m - 1]
+  const vs = new Float64Array(k * m);
+  for (let j = 0; j < k; j++) {
+    let norm = 0;
+    for (let i = j; i < m; i++) {
+      norm += r[i * n + j] * r[i * n + j];
+    }
+    norm = Math.sqrt(norm);
+    if (norm === 0) {
+      continue;
+    }
+    const alpha = r[j * n + j] > 0 ? -norm : norm;
+    let vnorm = 0;
+    for (let i = j; i < m; i++) {
+      const v = i === j ? r[i * n + j] - alpha : r[i * n + j];
+      vs[j * m + i] = v;
+      vnorm += v * v;
+    }
+    vnorm = Math.sqrt(vnorm);
+    for (let i = j; i < m; i++) {
+      vs[j * m + i] /= vnorm;
+    }
+    // R[j:, j:] -= 2 v (v^T R[j:, j:])
+    for (let c = j; c < n; c++) {
+      let dot = 0;
+      for (let i = j; i < m; i++) {
+        dot += vs[j * m + i] * r[i * n + c];
+      }
+      if (dot !== 0) {
+        for (let i = j; i < m; i++) {
+          r[i * n + c] -= 2 * vs[j * m + i] * dot;
+        }
+      }
+    }
+    for (let i = j + 1; i < m; i++) {
+      r[i * n + j] = 0;
+    }
+  }
+  const rows = mode === "complete" ? m : k;
+  const rOut = new NdArray(r.slice(0, rows * n), [rows, n]);
+  if (mode === "r") {
+    return rOut;
+  }
+  // Q = H_0 H_1 ... H_{k-1} I, applying the reflections from the last one
+  const q = new Float64Array(m * rows);
+  for (let i = 0; i < rows; i++) {
+    q[i * rows + i] = 1;
+  }
+  for (let j = k - 1; j >= 0; j--) {
+    for (let c = 0; c < rows; c++) {
+      let dot = 0;
+      for (let i = j; i < m; i++) {
+        dot += vs[j * m + i] * q[i * rows + c];
+      }
+      if (dot !== 0) {
+        for (let i = j; i < m; i++) {
+          q[i * rows + c] -= 2 * vs[j * m + i] * dot;
+        }
+      }
+    }
+  }
+  return [new NdArray(q, [m, rows]), rOut];
+}
+
+/**
+ * Compute the Cholesky decomposition `a = L L^T` of a symmetric positive-definite matrix.
+ * Only the lower triangle of `a` is used.
+ *
+ * @returns the lower triangular matrix L
+ * @throws LinAlgError if `a` is not positive definite
+ */
+export function cholesky(a: NdArray | ArbDimNumArray): NdArray {
+  const mat = toMatrix(a, true);
+  const n = mat.shape[0];
+  const data = mat.selection.data as Float64Array;
+  const l = new Float64Array(n * n);
+  for (let j = 0; j < n; j++) {
+    let d = data[j * n + j];
+    for (let k = 0; k < j; k++) {
+      d -= l[j * n + k] * l[j * n + k];
+    }
+    if (!(d > 0)) {
+      throw new errors.LinAlgError("Matrix is not positive definite");
+    }
+    const ljj = (l[j * n + j] = Math.sqrt(d));
+    for (let i = j + 1; i < n; i++) {
+      let s = data[i * n + j];
+      for (let k = 0; k < j; k++) {
+        s -= l[i * n + k] * l[j * n + k];
+      }
+      l[i * n + j] = s / ljj;
+    }
+  }
+  return new NdArray(l, [n, n]);
+}
+
+/**
+ * Complete the first `r` orthonormal columns of the row-major `m x cols` matrix `q` into an orthonormal set of
+ * `cols` columns, picking for each new column the canonical basis vector that is the least collinear with the
+ * previous ones.
+ */
+function fillBasis(q: Float64Array, m: number, cols: number, r: number) {
+  const v = new Float64Array(m);
+  const best = new Float64Array(m);
+  for (let j = r; j < cols; j++) {
+    let bestNorm = -1;
+    for (let e = 0; e < m; e++) {
+      v.fill(0);
+      v[e] = 1;
+      // modified Gram-Schmidt, twice for orthogonality
+      for (let pass = 0; pass < 2; pass++) {
+        for (let c = 0; c < j; c++) {
+          let dot = 0;
+          for (let i = 0; i < m; i++) {
+            dot += q[i * cols + c] * v[i];
+          }
+          for (let i = 0; i < m; i++) {
+            v[i] -= dot * q[i * cols + c];
+          }
+        }
+      }
+      let norm = 0;
+      for (let i = 0; i < m; i++) {
+        norm += v[i] * v[i];
+      }
+      if (norm > bestNorm) {
+        bestNorm = norm;
+        best.set(v);
+      }
+    }
+    bestNorm = Math.sqrt(bestNorm);
+    for (let i = 0; i < m; i++) {
+      q[i * cols + j] = best[i] / bestNorm;
+    }
+  }
+}
+
+/**
+ * Singular value decomposition of the row-major `m x n` matrix `w` with `m >= n`, using one-sided Jacobi
+ * rotations. `w` is overwritten.
+ *
+ * @returns the `m x n` matrix U (its columns being completed into an orthonormal set for zero singular values),
+ * the singular values in descending order and the `n x n` matrix V, such that `A = U diag(s) V^T`
+ */
+function jacobiSvd(w: Float64Array, m: number, n: number) {
+  const v = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    v[i * n + i] = 1;
+  }
+  for (let sweep = 0, rotated = true; rotated && sweep < 100; sweep++) {
+    rotated = false;
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        let alpha = 0;
+        let beta = 0;
+        let gamma = 0;
+        for (let i = 0; i < m; i++) {
+          const wp = w[i * n + p];
+          const wq = w[i * n + q];
+          alpha += wp * wp;
+          beta += wq * wq;
+          gamma += wp * wq;
+        }
+        if (Math.abs(gamma) <= Number.EPSILON * Math.sqrt(alpha * beta)) {
+          continue;
+        }
+        rotated = true;
+        const zeta = (beta - alpha) / (2 * gamma);
+        const t =
+          (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const s = c * t;
+        for (let i = 0; i < m; i++) {
+          const wp = w[i * n + p];
+          const wq = w[i * n + q];
+          w[i * n + p] = c * wp - s * wq;
+          w[i * n + q] = s * wp + c * wq;
+        }
+        for (let i = 0; i < n; i++) {
+          const vp = v[i * n + p];
+          const vq = v[i * n + q];
+          v[i * n + p] = c * vp - s * vq;
+          v[i * n + q] = s * vp + c * vq;
+        }
+      }
+    }
+  }
+  const norms = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    let norm = 0;
+    for (let i = 0; i < m; i++) {
+      norm += w[i * n + j] * w[i * n + j];
+    }
+    norms[j] = Math.sqrt(norm);
+  }
+  const order = Array.from(norms.keys()).sort((a, b) => norms[b] - norms[a]);
+  const s = new Float64Array(n);
+  const u = new Float64Array(m * n);
+  const vOut = new Float64Array(n * n);
+  const tol = Number.EPSILON * m * (n > 0 ? norms[order[0]] : 0);
+  let r = 0;
+  for (let j = 0; j < n; j++) {
+    const o = order[j];
+    s[j] = norms[o];
+    if (s[j] > tol) {
+      r++;
+      for (let i = 0; i < m; i++) {
+        u[i * n + j] = w[i * n + o] / s[j];
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      vOut[i * n + j] = v[i * n + o];
+    }
+  }
+  fillBasis(u, m, n, r);
+  return { u, s, v: vOut };
+}
+
+export interface SvdOptions {
+  /** if true (default), U and Vh have shapes `[m, m]` and `[n, n]`, otherwise `[m, k]` and `[k, n]` with `k = min(m, n)` */
+  fullMatrices?: boolean;
+  /** whether to compute U and Vh in addition to the singular values (default true) */
+  computeUV?: boolean;
+}
+
+/**
+ * Singular value decomposition, computed with one-sided Jacobi rotations: `a = U diag(s) Vh`.
+ *
+ * @returns `[U, s, Vh]`, s holding the singular values in descending order, or only s when `computeUV` is false
+ */
+export function svd(
+  a: NdArray | ArbDimNumArray,
+  options: SvdOptions & { computeUV: false }
+): NdArray;
+export function svd(
+  a: NdArray | ArbDimNumArray,
+  options?: SvdOptions
+): [NdArray, NdArray, NdArray];
+export function svd(
+  a: NdArray | ArbDimNumArray,
+  { fullMatrices = true, computeUV = true }: SvdOptions = {}
+): [NdArray, NdArray, NdArray] | NdArray {
+  const mat = toMatrix(a);
+  const [m, n] = mat.shape;
+  // work on the transpose of wide matrices: A^T = U' S V'^T gives A = V' S U'^T
+  const wide = m < n;
+  const rows = wide ? n : m;
+  const cols = wide ? m : n;
+  const w = new Float64Array(rows * cols);
+  ops.assign(
+    new NdArray(w, [rows, cols]).selection,
+    wide ? mat.selection.transpose(1, 0) : mat.selection
+  );
+  const res = jacobiSvd(w, rows, cols);
+  const s = new NdArray(res.s, [cols]);
+  if (!computeUV) {
+    return s;
+  }
+  let left = new NdArray(res.u, [rows, cols]);
+  if (fullMatrices && rows > cols) {
+    const full = new Float64Array(rows * rows);
+    ops.assign(
+      new NdArray(full, [rows, rows]).selection.hi(rows, cols),
+      left.selection
+    );
+    fillBasis(full, rows, rows, cols);
+    left = new NdArray(full, [rows, rows]);
+  }
+  const right = new NdArray(res.v, [cols, cols]);
+  return wide ? [right, s, left.T.clone()] : [left, s, right.T.clone()];
+}
+
+/**
+ * Return the reciprocals of the singular values `s` as a column, zeroing those not greater than `rcond * max(s)`,
+ * and the number of singular values kept.
+ */
+function reciprocalSingularValues(s: NdArray, rcond: number) {
+  const k = s.size;
+  const cutoff = rcond * (k > 0 ? s.get(0) : 0);
+  const inv = new Float64Array(k);
+  let rank = 0;
+  for (let i = 0; i < k; i++) {
+    const si = s.get(i);
+    if (si > cutoff) {
+      inv[i] = 1 / si;
+      rank++;
+    }
+  }
+  return { inv: new NdArray(inv, [k, 1]), rank };
+}
+
+/**
+ * Compute the (Moore-Penrose) pseudo-inverse of a matrix, using its singular value decomposition.
+ *
+ * @param rcond cutoff for small singular values, relative to the largest one
+ */
+export function pinv(a: NdArray | ArbDimNumArray, rcond = 1e-15): NdArray {
+  const [u, s, vh] = svd(a, { fullMatrices: false });
+  const { inv } = reciprocalSingularValues(s, rcond);
+  // pinv = V diag(1/s) U^T
+  return vh.multiply(inv, false).T.dot(u.T);
+}
+
+/**
+ * Return the rank of a matrix, that is the number of its singular values greater than `tol`.
+ *
+ * @param tol threshold below which singular values are considered zero, defaults to `max(s) * max(m, n) * eps`
+ */
+export function matrix_rank(a: NdArray | ArbDimNumArray, tol?: number): number {
+  const arr = NdArray.new(a);
+  checkRealData("linalg", arr.selection.data);
+  if (arr.ndim < 2) {
+    return ops.any(arr.selection) ? 1 : 0;
+  }
+  const s = svd(arr, { computeUV: false });
+  if (tol === undefined) {
+    tol = (s.size > 0 ? s.get(0) : 0) * Math.max(...arr.shape) * Number.EPSILON;
+  }
+  let rank = 0;
+  for (let i = 0; i < s.size; i++) {
+    if (s.get(i) > tol) {
+      rank++;
+    }
+  }
+  return rank;
+}
+
+/**
+ * Return the least-squares solution to `a x = b`, using the singular value decomposition of `a`.
+ *
+ * @param b a vector of shape `[m]`, or a matrix of shape `[m, k]` holding k right-hand sides as columns
+ * @param rcond cutoff for small singular values of `a`, relative to the largest one. Defaults to `eps * max(m, n)`
+ * @returns `[x, residuals, rank, s]`: the solution, the sums of squared residuals of each column of `b` (an empty
+ * array when `a` is rank deficient or has no more rows than columns), the rank of `a` and its singular values
+ */
+export function lstsq(
+  a: NdArray | ArbDimNumArray,
+  b: NdArray | ArbDimNumArray,
+  rcond?: number
+): [NdArray, NdArray, number, NdArray] {
+  const mat = toMatrix(a);
+  const [m, n] = mat.shape;
+  const rhs = NdArray.new(b);
+  checkRealData("linalg", rhs.selection.data);
+  if (rhs.ndim < 1 || rhs.ndim > 2 || rhs.shape[0] !== m) {
+    throw new errors.ValueError(
+      "lstsq: b of shape " +
+        _.formatShape(rhs.shape) +
+        " is incompatible with a of shape " +
+        _.formatShape(mat.shape)
+    );
+  }
+  const k = rhs.ndim === 1 ? 1 : rhs.shape[1];
+  const bMat = new NdArray(new Float64Array(m * k), [m, k]);
+  ops.assign(bMat.selection, rhs.reshape([m, k]).selection);
+  if (rcond === undefined) {
+    rcond = Number.EPSILON * Math.max(m, n);
+  }
+  const [u, s, vh] = svd(mat, { fullMatrices: false });
+  const { inv, rank } = reciprocalSingularValues(s, rcond);
+  // x = V diag(1/s) U^T b
+  const x = vh.T.dot(u.T.dot(bMat).multiply(inv, false));
+  let residuals = new NdArray(new Float64Array(0), [0]);
+  if (rank === n && m > n) {
+    const r = mat.dot(x).subtract(bMat, false);
+    residuals = r.multiply(r, false).sum({ axis: 0 });
+  }
+  return [rhs.ndim === 1 ? x.reshape(n) : x, residuals, rank, s];
+}
+
+/**
+ * Compute the eigenvalues and eigenvectors of a real symmetric matrix, using cyclic Jacobi rotations.
+ *
+ * @param UPLO whether to use the lower (`"L"`, default) or upper (`"U"`) triangle of `a`
+ * @returns `[w, v]`: the eigenvalues in ascending order, and the matrix whose column `v[:, i]` is the normalized
+ * eigenvector associated with `w[i]`
+ */
+export function eigh(
+  a: NdArray | ArbDimNumArray,
+  UPLO: "L" | "U" = "L"
+): [NdArray, NdArray] {
+  const mat = toMatrix(a, true);
+  const n = mat.shape[0];
+  const s = mat.selection.data as Float64Array;
+  let norm = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < i; j++) {
+      if (UPLO === "L") {
+        s[j * n + i] = s[i * n + j];
+      } else {
+        s[i * n + j] = s[j * n + i];
+      }
+    }
+  }
+  for (let i = 0; i < n * n; i++) {
+    norm += s[i] * s[i];
+  }
+  const v = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    v[i * n + i] = 1;
+  }
+  const tol = Number.EPSILON * Number.EPSILON * norm;
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        off += s[p * n + q] * s[p * n + q];
+      }
+    }
+    if (off <= tol) {
+      break;
+    }
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = s[p * n + q];
+        if (apq === 0) {
+          continue;
+        }
+        const theta = (s[q * n + q] - s[p * n + p]) / (2 * apq);
+        const t =
+          (theta >= 0 ? 1 : -1) /
+          (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const sn = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = s[k * n + p];
+          const akq = s[k * n + q];
+          s[k * n + p] = c * akp - sn * akq;
+          s[k * n + q] = sn * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = s[p * n + k];
+          const aqk = s[q * n + k];
+          s[p * n + k] = c * apk - sn * aqk;
+          s[q * n + k] = sn * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k * n + p];
+          const vkq = v[k * n + q];
+          v[k * n + p] = c * vkp - sn * vkq;
+          v[k * n + q] = sn * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  const order = Array.from(Array(n).keys()).sort(
+    (i: number, j: number) => s[i * n + i] - s[j * n + j]
+  );
+  const w = new Float64Array(n);
+  const vOut = new Float64Array(n * n);
+  for (let j = 0; j < n; j++) {
+    w[j] = s[order[j] * n + order[j]];
+    for (let i = 0; i < n; i++) {
+      vOut[i * n + j] = v[i * n + order[j]];
+    }
+  }
+  return [new NdArray(w, [n]), new NdArray(vOut, [n, n])];
+}
+
+/**
+ * Reduce the row-major `n x n` matrix `h` to upper Hessenberg form in place, using orthogonal similarity
+ * transformations (EISPACK's orthes and ortran).
+ *
+ * @returns the accumulated `n x n` orthogonal transformation
+ */
+function orthes(h: Float64Array, n: number): Float64Array {
+  const ort = new Float64Array(n);
+  for (let m = 1; m < n - 1; m++) {
+    let scale = 0;
+    for (let i = m; i < n; i++) {
+      scale += Math.abs(h[i * n + m - 1]);
+    }
+    if (scale === 0) {
+      continue;
+    }
+    let hh = 0;
+    for (let i = n - 1; i >= m; i--) {
+      ort[i] = h[i * n + m - 1] / scale;
+      hh += ort[i] * ort[i];
+    }
+    const g = ort[m] > 0 ? -Math.sqrt(hh) : Math.sqrt(hh);
+    hh -= ort[m] * g;
+    ort[m] -= g;
+    // H = (I - u u^T / h) H (I - u u^T / h)
+    for (let j = m; j < n; j++) {
+      let f = 0;
+      for (let i = n - 1; i >= m; i--) {
+        f += ort[i] * h[i * n + j];
+      }
+      f /= hh;
+      for (let i = m; i < n; i++) {
+        h[i * n + j] -= f * ort[i];
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      let f = 0;
+      for (let j = n - 1; j >= m; j--) {
+        f += ort[j] * h[i * n + j];
+      }
+      f /= hh;
+      for (let j = m; j < n; j++) {
+        h[i * n + j] -= f * ort[j];
+      }
+    }
+    ort[m] *= scale;
+    h[m * n + m - 1] = scale * g;
+  }
+  const v = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    v[i * n + i] = 1;
+  }
+  for (let m = n - 2; m >= 1; m--) {
+    if (h[m * n + m - 1] === 0) {
+      continue;
+    }
+    for (let i = m + 1; i < n; i++) {
+      ort[i] = h[i * n + m - 1];
+    }
+    for (let j = m; j < n; j++) {
+      let g = 0;
+      for (let i = m; i < n; i++) {
+        g += ort[i] * v[i * n + j];
+      }
+      // double division avoids possible underflow
+      g = g / ort[m] / h[m * n + m - 1];
+      for (let i = m; i < n; i++) {
+        v[i * n + j] += g * ort[i];
+      }
+    }
+  }
+  return v;
+}
+
+/**
+ * Complex division `(xr + i xi) / (yr + i yi)`.
+ */
+function cdiv(xr: number, xi: number, yr: number, yi: number) {
+  if (Math.abs(yr) > Math.abs(yi)) {
+    const r = yi / yr;
+    const d = yr + r * yi;
+    return [(xr + r * xi) / d, (xi - r * xr) / d];
+  }
+  const r = yr / yi;
+  const d = yi + r * yr;
+  return [(r * xr + xi) / d, (r * xi - xr) / d];
+}
+
+/**
+ * Compute the eigenvalues, and optionally the eigenvectors, of the upper Hessenberg matrix `h` using the
+ * shifted (Francis double shift) QR algorithm, as in EISPACK's hqr2. `h` is overwritten, and `v`, holding the
+ * transformation returned by {@link orthes}, receives the eigenvectors.
+ *
+ * Complex conjugate pairs are stored on consecutive indices, the one with a positive imaginary part first:
+ * its eigenvector is `v[:, j] + i v[:, j + 1]`, and the one of its conjugate `v[:, j] - i v[:, j + 1]`.
+ */
+function hqr2(
+  h: Float64Array,
+  v: Float64Array,
+  nn: number,
+  wr: Float64Array,
+  wi: Float64Array,
+  vectors: boolean
+) {
+  const eps = Number.EPSILON;
+  let exshift = 0;
+  let p = 0;
+  let q = 0;
+  let r = 0;
+  let s = 0;
+  let z = 0;
+  let t: number;
+  let w: number;
+  let x: number;
+  let y: number;
+
+  let norm = 0;
+  for (let i = 0; i < nn; i++) {
+    for (let j = Math.max(i - 1, 0); j < nn; j++) {
+      norm += Math.abs(h[i * nn + j]);
+    }
+  }
+
+  let n = nn - 1;
+  let iter = 0;
+  while (n >= 0) {
+    // look for a single small sub-diagonal element
+    let l = n;
+    while (l > 0) {
+      s = Math.abs(h[(l - 1) * nn + l - 1]) + Math.abs(h[l * nn + l]);
+      if (s === 0) {
+        s = norm;
+      }
+      if (Math.abs(h[l * nn + l - 1]) < eps * s) {
+        break;
+      }
+      l--;
+    }
+
+    if (l === n) {
+      // one root found
+      h[n * nn + n] += exshift;
+      wr[n] = h[n * nn + n];
+      wi[n] = 0;
+      n--;
+      iter = 0;
+    } else if (l === n - 1) {
+      // two roots found
+      w = h[n * nn + n - 1] * h[(n - 1) * nn + n];
+      p = (h[(n - 1) * nn + n - 1] - h[n * nn + n]) / 2;
+      q = p * p + w;
+      z = Math.sqrt(Math.abs(q));
+      h[n * nn + n] += exshift;
+      h[(n - 1) * nn + n - 1] += exshift;
+      x = h[n * nn + n];
+      if (q >= 0) {
+        // real pair
+        z = p >= 0 ? p + z : p - z;
+        wr[n - 1] = x + z;
+        wr[n] = z !== 0 ? x - w / z : wr[n - 1];
+        wi[n - 1] = 0;
+        wi[n] = 0;
+        x = h[n * nn + n - 1];
+        s = Math.abs(x) + Math.abs(z);
+        p = x / s;
+        q = z / s;
+        r = Math.sqrt(p * p + q * q);
+        p /= r;
+        q /= r;
+        for (let j = n - 1; j < nn; j++) {
+          z = h[(n - 1) * nn + j];
+          h[(n - 1) * nn + j] = q * z + p * h[n * nn + j];
+          h[n * nn + j] = q * h[n * nn + j] - p * z;
+        }
+        for (let i = 0; i <= n; i++) {
+          z = h[i * nn + n - 1];
+          h[i * nn + n - 1] = q * z + p * h[i * nn + n];
+          h[i * nn + n] = q * h[i * nn + n] - p * z;
+        }
+        for (let i = 0; i < nn; i++) {
+          z = v[i * nn + n - 1];
+          v[i * nn + n - 1] = q * z + p * v[i * nn + n];
+          v[i * nn + n] = q * v[i * nn + n] - p * z;
+        }
+      } else {
+        // complex pair
+        wr[n - 1] = x + p;
+        wr[n] = x + p;
+        wi[n - 1] = z;
+        wi[n] = -z;
+      }
+      n -= 2;
+      iter = 0;
+    } else {
+      // no convergence yet, form the shift
+      x = h[n * nn + n];
+      y = 0;
+      w = 0;
+      if (l < n) {
+        y = h[(n - 1) * nn + n - 1];
+        w = h[n * nn + n - 1] * h[(n - 1) * nn + n];
+      }
+      if (iter === 10) {
+        // Wilkinson's original ad hoc shift
+        exshift += x;
+        for (let i = 0; i <= n; i++) {
+          h[i * nn + i] -= x;
+        }
+        s = Math.abs(h[n * nn + n - 1]) + Math.abs(h[(n - 1) * nn + n - 2]);
+        x = y = 0.75 * s;
+        w = -0.4375 * s * s;
+      }
+      if (iter === 30) {
+        // MATLAB's ad hoc shift
+        s = (y - x) / 2;
+        s = s * s + w;
+        if (s > 0) {
+          s = Math.sqrt(s);
+          if (y < x) {
+            s = -s;
+          }
+          s = x - w / ((y - x) / 2 + s);
+          for (let i = 0; i <= n; i++) {
+            h[i * nn + i] -= s;
+          }
+          exshift += s;
+          x = y = w = 0.964;
+        }
+      }
+      if (++iter > 1000) {
+        throw new errors.LinAlgError("Eigenvalues did not converge");
+      }
+
+      // look for two consecutive small sub-diagonal elements
+      let m = n - 2;
+      while (m >= l) {
+        z = h[m * nn + m];
+        r = x - z;
+        s = y - z;
+        p = (r * s - w) / h[(m + 1) * nn + m] + h[m * nn + m + 1];
+        q = h[(m + 1) * nn + m + 1] - z - r - s;
+        r = h[(m + 2) * nn + m + 1];
+        s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+        p /= s;
+        q /= s;
+        r /= s;
+        if (m === l) {
+          break;
+        }
+        if (
+          Math.abs(h[m * nn + m - 1]) * (Math.abs(q) + Math.abs(r)) <
+          eps *
+            (Math.abs(p) *
+              (Math.abs(h[(m - 1) * nn + m - 1]) +
+                Math.abs(z) +
+                Math.abs(h[(m + 1) * nn + m + 1])))
+        ) {
+          break;
+        }
+        m--;
+      }
+      for (let i = m + 2; i <= n; i++) {
+        h[i * nn + i - 2] = 0;
+        if (i > m + 2) {
+          h[i * nn + i - 3] = 0;
+        }
+      }
+
+      // double QR step involving rows l:n and columns m:n
+      for (let k = m; k <= n - 1; k++) {
+        const notlast = k !== n - 1;
+        if (k !== m) {
+          p = h[k * nn + k - 1];
+          q = h[(k + 1) * nn + k - 1];
+          r = notlast ? h[(k + 2) * nn + k - 1] : 0;
+          x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+          if (x === 0) {
+            continue;
+          }
+          p /= x;
+          q /= x;
+          r /= x;
+        }
+        s = Math.sqrt(p * p + q * q + r * r);
+        if (p < 0) {
+          s = -s;
+        }
+        if (s === 0) {
+          continue;
+        }
+        if (k !== m) {
+          h[k * nn + k - 1] = -s * x;
+        } else if (l !== m) {
+          h[k * nn + k - 1] = -h[k * nn + k - 1];
+        }
+        p += s;
+        x = p / s;
+        y = q / s;
+        z = r / s;
+        q /= p;
+        r /= p;
+        for (let j = k; j < nn; j++) {
+          p = h[k * nn + j] + q * h[(k + 1) * nn + j];
+          if (notlast) {
+            p += r * h[(k + 2) * nn + j];
+            h[(k + 2) * nn + j] -= p * z;
+          }
+          h[k * nn + j] -= p * x;
+          h[(k + 1) * nn + j] -= p * y;
+        }
+        for (let i = 0; i <= Math.min(n, k + 3); i++) {
+          p = x * h[i * nn + k] + y * h[i * nn + k + 1];
+          if (notlast) {
+            p += z * h[i * nn + k + 2];
+            h[i * nn + k + 2] -= p * r;
+          }
+          h[i * nn + k] -= p;
+          h[i * nn + k + 1] -= p * q;
+        }
+        for (let i = 0; i < nn; i++) {
+          p = x * v[i * nn + k] + y * v[i * nn + k + 1];
+          if (notlast) {
+            p += z * v[i * nn + k + 2];
+            v[i * nn + k + 2] -= p * r;
+          }
+          v[i * nn + k] -= p;
+          v[i * nn + k + 1] -= p * q;
+        }
+      }
+    }
+  }
+
+  if (!vectors || norm === 0) {
+    return;
+  }
+
+  // back-substitute to find the vectors of the upper triangular form
+  for (n = nn - 1; n >= 0; n--) {
+    p = wr[n];
+    q = wi[n];
+    if (q === 0) {
+      // real vector
+      let l = n;
+      h[n * nn + n] = 1;
+      for (let i = n - 1; i >= 0; i--) {
+        w = h[i * nn + i] - p;
+        r = 0;
+        for (let j = l; j <= n; j++) {
+          r += h[i * nn + j] * h[j * nn + n];
+        }
+        if (wi[i] < 0) {
+          z = w;
+          s = r;
+          continue;
+        }
+        l = i;
+        if (wi[i] === 0) {
+          h[i * nn + n] = w !== 0 ? -r / w : -r / (eps * norm);
+        } else {
+          // solve real equations
+          x = h[i * nn + i + 1];
+          y = h[(i + 1) * nn + i];
+          q = (wr[i] - p) * (wr[i] - p) + wi[i] * wi[i];
+          t = (x * s - z * r) / q;
+          h[i * nn + n] = t;
+          h[(i + 1) * nn + n] =
+            Math.abs(x) > Math.abs(z) ? (-r - w * t) / x : (-s - y * t) / z;
+        }
+        // overflow control
+        t = Math.abs(h[i * nn + n]);
+        if (eps * t * t > 1) {
+          for (let j = i; j <= n; j++) {
+            h[j * nn + n] /= t;
+          }
+        }
+      }
+    } else if (q < 0) {
+      // complex vector, the last component being imaginary so the matrix is triangular
+      let l = n - 1;
+      if (Math.abs(h[n * nn + n - 1]) > Math.abs(h[(n - 1) * nn + n])) {
+        h[(n - 1) * nn + n - 1] = q / h[n * nn + n - 1];
+        h[(n - 1) * nn + n] = -(h[n * nn + n] - p) / h[n * nn + n - 1];
+      } else {
+        [h[(n - 1) * nn + n - 1], h[(n - 1) * nn + n]] = cdiv(
+          0,
+          -h[(n - 1) * nn + n],
+          h[(n - 1) * nn + n - 1] - p,
+          q
+        );
+      }
+      h[n * nn + n - 1] = 0;
+      h[n * nn + n] = 1;
+      for (let i = n - 2; i >= 0; i--) {
+        let ra = 0;
+        let sa = 0;
+        for (let j = l; j <= n; j++) {
+          ra += h[i * nn + j] * h[j * nn + n - 1];
+          sa += h[i * nn + j] * h[j * nn + n];
+        }
+        w = h[i * nn + i] - p;
+        if (wi[i] < 0) {
+          z = w;
+          r = ra;
+          s = sa;
+          continue;
+        }
+        l = i;
+        if (wi[i] === 0) {
+          [h[i * nn + n - 1], h[i * nn + n]] = cdiv(-ra, -sa, w, q);
+        } else {
+          // solve complex equations
+          x = h[i * nn + i + 1];
+          y = h[(i + 1) * nn + i];
+          let vr = (wr[i] - p) * (wr[i] - p) + wi[i] * wi[i] - q * q;
+          const vi = (wr[i] - p) * 2 * q;
+          if (vr === 0 && vi === 0) {
+            vr =
+              eps *
+              norm *
+              (Math.abs(w) +
+                Math.abs(q) +
+                Math.abs(x) +
+                Math.abs(y) +
+                Math.abs(z));
+          }
+          [h[i * nn + n - 1], h[i * nn + n]] = cdiv(
+            x * r - z * ra + q * sa,
+            x * s - z * sa - q * ra,
+            vr,
+            vi
+          );
+          if (Math.abs(x) > Math.abs(z) + Math.abs(q)) {
+            h[(i + 1) * nn + n - 1] =
+              (-ra - w * h[i * nn + n - 1] + q * h[i * nn + n]) / x;
+            h[(i + 1) * nn + n] =
+              (-sa - w * h[i * nn + n] - q * h[i * nn + n - 1]) / x;
+          } else {
+            [h[(i + 1) * nn + n - 1], h[(i + 1) * nn + n]] = cdiv(
+              -r - y * h[i * nn + n - 1],
+              -s - y * h[i * nn + n],
+              z,
+              q
+            );
+          }
+        }
+        // overflow control
+        t = Math.max(Math.abs(h[i * nn + n - 1]), Math.abs(h[i * nn + n]));
+        if (eps * t * t > 1) {
+          for (let j = i; j <= n; j++) {
+            h[j * nn + n - 1] /= t;
+            h[j * nn + n] /= t;
+          }
+        }
+      }
+    }
+  }
+
+  // back transformation to get the eigenvectors of the original matrix
+  for (let j = nn - 1; j >= 0; j--) {
+    for (let i = 0; i < nn; i++) {
+      z = 0;
+      for (let k = 0; k <= j; k++) {
+        z += v[i * nn + k] * h[k * nn + j];
+      }
+      v[i * nn + j] = z;
+    }
+  }
+}
+
+/**
+ * Compute the eigenvalues and right eigenvectors of a general real square matrix, by reduction to Hessenberg form
+ * followed by the shifted QR algorithm.
+ *
+ * The eigenvalues are not ordered. `w` has shape `[n]` and `v` has shape `[n, n]`: they are float64 arrays when all the
+ * eigenvalues are real, and complex128 arrays otherwise.
+ *
+ * @returns `[w, v]`: the eigenvalues, and the matrix whose column `v[:, i]` is the eigenvector associated with
+ * `w[i]`, normalized to unit length and with its largest component real
+ * @throws LinAlgError if the QR algorithm does not converge
+ */
+export function eig(a: NdArray | ArbDimNumArray): [NdArray, NdArray] {
+  const mat = toMatrix(a, true);
+  const n = mat.shape[0];
+  const h = mat.selection.data as Float64Array;
+  const v = orthes(h, n);
+  const wr = new Float64Array(n);
+  const wi = new Float64Array(n);
+  hqr2(h, v, n, wr, wi, true);
+  const isComplex = wi.some((x) => x !== 0);
+  const w = eigenvalues(wr, wi, isComplex);
+  if (!isComplex) {
+    for (let j = 0; j < n; j++) {
+      let norm = 0;
+      for (let i = 0; i < n; i++) {
+        norm += v[i * n + j] * v[i * n + j];
+      }
+      norm = Math.sqrt(norm);
+      for (let i = 0; i < n; i++) {
+        v[i * n + j] /= norm;
+      }
+    }
+    return [w, new NdArray(v, [n, n])];
+  }
+  // interleaved real and imaginary parts
+  const vc = new Float64Array(n * n * 2);
+  for (let j = 0; j < n; j++) {
+    // real and imaginary parts of the column, see hqr2
+    const re = wi[j] > 0 ? j : wi[j] < 0 ? j - 1 : j;
+    const im = wi[j] > 0 ? j + 1 : wi[j] < 0 ? j : -1;
+    const sign = wi[j] < 0 ? -1 : 1;
+    // normalize to unit length, rotating so that the largest component is real
+    let norm = 0;
+    let largest = 0;
+    let max = -1;
+    for (let i = 0; i < n; i++) {
+      const x = v[i * n + re];
+      const y = im < 0 ? 0 : sign * v[i * n + im];
+      const abs2 = x * x + y * y;
+      norm += abs2;
+      if (abs2 > max) {
+        max = abs2;
+        largest = i;
+      }
+    }
+    const lx = v[largest * n + re];
+    const ly = im < 0 ? 0 : sign * v[largest * n + im];
+    const labs = Math.sqrt(lx * lx + ly * ly);
+    // multiply by conj(largest) / (|largest| * norm)
+    const cr = lx / (labs * Math.sqrt(norm));
+    const ci = -ly / (labs * Math.sqrt(norm));
+    for (let i = 0; i < n; i++) {
+      const x = v[i * n + re];
+      const y = im < 0 ? 0 : sign * v[i * n + im];
+      vc[(i * n + j) * 2] = x * cr - y * ci;
+      vc[(i * n + j) * 2 + 1] = x * ci + y * cr;
+    }
+  }
+  return [w, new NdArray(Complex128Array.fromInterleaved(vc), [n, n])];
+}
+
+/**
+ * Compute the eigenvalues of a general real square matrix, see {@link eig}.
+ *
+ * @returns the eigenvalues, a float64 array when they are all real and a complex128 array otherwise
+ */
+export function eigvals(a: NdArray | ArbDimNumArray): NdArray {
+  const mat = toMatrix(a, true);
+  const n = mat.shape[0];
+  const h = mat.selection.data as Float64Array;
+  const v = orthes(h, n);
+  const wr = new Float64Array(n);
+  const wi = new Float64Array(n);
+  hqr2(h, v, n, wr, wi, false);
+  return eigenvalues(
+    wr,
+    wi,
+    wi.some((x) => x !== 0)
+  );
+}
+
+/**
+ * Gather the real and imaginary parts of eigenvalues, into a complex array only if `isComplex` is set.
+ */
+function eigenvalues(
+  wr: Float64Array,
+  wi: Float64Array,
+  isComplex: boolean
+): NdArray {
+  const n = wr.length;
+  if (!isComplex) {
+    return new NdArray(wr, [n]);
+  }
+  const w = new Float64Array(n * 2);
+  for (let i = 0; i < n; i++) {
+    w[2 * i] = wr[i];
+    w[2 * i + 1] = wi[i];
+  }
+  return new NdArray(Complex128Array.fromInterleaved(w), [n]);
+}
+
+/** Order of a norm: a number (`Infinity` and `-Infinity` included), `"fro"` or `"nuc"` */
+export type NormOrder = number | "fro" | "nuc" | null;
+
+/**
+ * Return a float64 copy of the absolute values of `x`.
+ */
+function absolute(x: NdArray): NdArray {
+  const out = new NdArray(new Float64Array(x.size), x.shape.slice());
+  ops.abs(out.selection, x.selection);
+  return out;
+}
+
+function vectorNorm(
+  x: NdArray,
+  ord: NormOrder,
+  axis: number,
+  keepdims: boolean
+): NdArray {
+  if (typeof ord === "string") {
+    throw new errors.ValueError("Invalid norm order '" + ord + "' for vectors");
+  }
+  const a = absolute(x);
+  const options = { axis, keepdims };
+  if (ord === Infinity) {
+    return a.max(options);
+  }
+  if (ord === -Infinity) {
+    return a.min(options);
+  }
+  if (ord === 0) {
+    ops.neqseq(a.selection, 0);
+    return a.sum(options);
+  }
+  if (ord === 1) {
+    return a.sum(options);
+  }
+  if (ord == null || ord === 2) {
+    ops.muleq(a.selection, a.selection);
+    const s = a.sum(options);
+    ops.sqrteq(s.selection);
+    return s;
+  }
+  ops.powseq(a.selection, ord);
+  const s = a.sum(options);
+  ops.powseq(s.selection, 1 / ord);
+  return s;
+}
+
+function matrixNorm(
+  x: NdArray,
+  ord: NormOrder,
+  row: number,
+  col: number,
+  keepdims: boolean
+): NdArray {
+  const options = { axis: [row, col], keepdims };
+  if (ord == null || ord === "fro") {
+    const a = absolute(x);
+    ops.muleq(a.selection, a.selection);
+    const s = a.sum(options);
+    ops.sqrteq(s.selection);
+    return s;
+  }
+  if (ord === 1 || ord === -1) {
+    const colSums = absolute(x).sum({ axis: row, keepdims: true });
+    return ord === 1 ? colSums.max(options) : colSums.min(options);
+  }
+  if (ord === Infinity || ord === -Infinity) {
+    const rowSums = absolute(x).sum({ axis: col, keepdims: true });
+    return ord === Infinity ? rowSums.max(options) : rowSums.min(options);
+  }
+  if (ord !== 2 && ord !== -2 && ord !== "nuc") {
+    throw new errors.ValueError("Invalid norm order for matrices.");
+  }
+  // singular value based norms, computed on each matrix of the stack
+  const d = x.ndim;
+  const others = [];
+  for (let i = 0; i < d; i++) {
+    if (i !== row && i !== col) {
+      others.push(i);
+    }
+  }
+  const outShape = others.map((i) => x.shape[i]);
+  const batch = outShape.reduce((a, b) => a * b, 1);
+  const [m, n] = [x.shape[row], x.shape[col]];
+  const stack = new NdArray(new Float64Array(x.size), outShape.concat([m, n]));
+  ops.assign(stack.selection, x.transpose(...others, row, col).selection);
+  const matrices = stack.reshape(batch, m, n);
+  const out = new Float64Array(batch);
+  for (let b = 0; b < batch; b++) {
+    const s = svd(matrices.pick(b), { computeUV: false });
+    out[b] = ord === 2 ? s.max() : ord === -2 ? s.min() : (s.sum() as number);
+  }
+  if (keepdims) {
+    return new NdArray(
+      out,
+      x.shape.map((s, i) => (i === row || i === col ? 1 : s))
+    );
+  }
+  return new NdArray(out, outShape.length ? outShape : [1]);
+}
+
+/**
+ * Compute a matrix or vector norm.
+ *
+ * Vector norms: `ord` is `Infinity` (max of absolute values), `-Infinity` (min of absolute values), 0 (number of
+ * non-zero values), or p for `sum(abs(x)**p)**(1/p)`, 2 being the default.
+ * Matrix norms: `ord` is `"fro"` (Frobenius norm, the default), `"nuc"` (sum of singular values), 1 / -1 (max / min
+ * column sum of absolute values), `Infinity` / `-Infinity` (max / min row sum of absolute values) or 2 / -2
+ * (largest / smallest singular value).
+ *
+ * @param axis axis along which vector norms are computed, or pair of axes holding matrices. If null, `x` must be
+ * 1-D or 2-D unless `ord` is null too, in which case the 2-norm of the flattened array is returned.
+ * @param keepdims if true, the normed axes are left in the result with size one
+ */
+export function norm(
+  x: NdArray | ArbDimNumArray,
+  ord?: NormOrder,
+  axis?: null,
+  keepdims?: false
+): number;
+export function norm(
+  x: NdArray | ArbDimNumArray,
+  ord: NormOrder,
+  axis: number | number[] | null,
+  keepdims?: boolean
+): NdArray;
+export function norm(
+  x: NdArray | ArbDimNumArray,
+  ord: NormOrder = null,
+  axis: number | number[] | null = null,
+  keepdims = false
+): number | NdArray {
+  const arr = NdArray.new(x);
+  checkRealData("linalg", arr.selection.data);
+  const scalar = axis == null && !keepdims;
+  let axes: number[];
+  if (axis == null) {
+    if (ord == null) {
+      // 2-norm of the flattened array
+      const a = absolute(arr);
+      ops.muleq(a.selection, a.selection);
+      const res = Math.sqrt(a.sum() as number);
+      return scalar
+        ? res
+        : new NdArray(
+            new Float64Array([res]),
+            arr.shape.map(() => 1)
+          );
+    }
+    axes = arr.shape.map((_s, i) => i);
+  } else {
+    axes = _.checkAxes(typeof axis === "number" ? [axis] : axis, arr.ndim);
+  }
+  let res: NdArray;
+  if (axes.length === 1) {
+    res = vectorNorm(arr, ord, axes[0], keepdims);
+  } else if (axes.length === 2) {
+    res = matrixNorm(arr, ord, axes[0], axes[1], keepdims);
+  } else {
+    throw new errors.ValueError("Improper number of dimensions to norm.");
+  }
+  return scalar ? res.get(0) : res;
+}
+
+/**
+ * Compute the condition number of a matrix.
+ *
+ * @param p order of the norm (see {@link norm}), the condition number being `norm(x, p) * norm(inv(x), p)`.
+ * Defaults to the 2-norm, computed as the ratio of the largest to the smallest singular value.
+ * @returns `Infinity` for singular matrices
+ */
+export function cond(x: NdArray | ArbDimNumArray, p: NormOrder = null): number {
+  if (p == null || p === 2 || p === -2) {
+    const s = svd(x, { computeUV: false });
+    const [largest, smallest] = [s.max(), s.min()];
+    const ratio = p === -2 ? smallest / largest : largest / smallest;
+    // 0 / 0 for null matrices, which are singular
+    return isNaN(ratio) && !isNaN(largest) ? Infinity : ratio;
+  }
+  const mat = toMatrix(x, true);
+  let inverse: NdArray;
+  try {
+    inverse = inv(mat);
+  } catch (err) {
+    if (err instanceof errors.LinAlgError) {
+      return Infinity;
+    }
+    throw err;
+  }
+  return norm(mat, p) * norm(inverse, p);
+}
+
+/**
+ * Raise a square matrix to the integer power `n`, using repeated squaring. The inverse of the matrix is raised to
+ * the power `-n` when `n` is negative, and the identity is returned for `n = 0`.
+ *
+ * @throws LinAlgError if `n` is negative and the matrix is singular
+ */
+export function matrix_power(a: NdArray | ArbDimNumArray, n: number): NdArray {
+  let arr = NdArray.new(a);
+  checkMatrix(arr, true);
+  if (!Number.isInteger(n)) {
+    throw new errors.ValueError("exponent must be an integer");
+  }
+  const m = arr.shape[0];
+  if (n === 0) {
+    const eye = new NdArray(new (_.getType(arr.dtype))(m * m), [m, m]);
+    ops.assigns(eye.selection, 0);
+    for (let i = 0; i < m; i++) {
+      eye.set(i, i, 1);
+    }
+    return eye;
+  }
+  if (n < 0) {
+    arr = inv(arr);
+    n = -n;
+  }
+  let result: NdArray = null;
+  let square = arr;
+  for (;;) {
+    if (n & 1) {
+      result = result === null ? square.clone() : result.dot(square);
+    }
+    n = Math.floor(n / 2);
+    if (n === 0) {
+      return result;
+    }
+    square = square.dot(square);
+  }
+}
+
+/** theta_m of Higham's scaling and squaring method, for Pade orders m = 3, 5, 7, 9 and 13 */
+const EXPM_THETA = {
+  3: 1.495585217958292e-2,
+  5: 2.53939833006323e-1,
+  7: 9.504178996162932e-1,
+  9: 2.097847961257068,
+  13: 5.371920351148152,
+};
+
+/** Coefficients of the numerators of the [m/m] Pade approximants of exp */
+const EXPM_PADE = {
+  3: [120, 60, 12, 1],
+  5: [30240, 15120, 3360, 420, 30, 1],
+  7: [17297280, 8648640, 1995840, 277200, 25200, 1512, 56, 1],
+  9: [
+    17643225600, 8821612800, 2075673600, 302702400, 30270240, 2162160, 110880,
+    3960, 90, 1,
+  ],
+  13: [
+    64764752532480000, 32382376266240000, 7771770303897600, 1187353796428800,
+    129060195264000, 10559470521600, 670442572800, 33522128640, 1323241920,
+    40840800, 960960, 16380, 182, 1,
+  ],
+};
+
+/**
+ * Compute the matrix exponential using the scaling and squaring method with Pade approximation (Higham, 2005).
+ */
+export function expm(a: NdArray | ArbDimNumArray): NdArray {
+  let mat = toMatrix(a, true);
+  const n = mat.shape[0];
+  const eye = new NdArray(new Float64Array(n * n), [n, n]);
+  for (let i = 0; i < n; i++) {
+    eye.set(i, i, 1);
+  }
+  const norm1 = n > 0 ? (norm(mat, 1) as number) : 0;
+  let order = [3, 5, 7, 9].find((m) => norm1 <= EXPM_THETA[m]);
+  let squarings = 0;
+  if (order === undefined) {
+    order = 13;
+    squarings = Math.max(0, Math.ceil(Math.log2(norm1 / EXPM_THETA[13])));
+    mat = mat.divide(Math.pow(2, squarings), false);
+  }
+  const b = EXPM_PADE[order];
+  let u: NdArray;
+  let v: NdArray;
+  const a2 = mat.dot(mat);
+  if (order < 13) {
+    // U = A (b_1 I + b_3 A^2 + ...), V = b_0 I + b_2 A^2 + ...
+    let power = eye;
+    u = eye.multiply(b[1]);
+    v = eye.multiply(b[0]);
+    for (let k = 2; k < b.length; k += 2) {
+      power = power.dot(a2);
+      u.add(power.multiply(b[k + 1]), false);
+      v.add(power.multiply(b[k]), false);
+    }
+    u = mat.dot(u);
+  } else {
+    const a4 = a2.dot(a2);
+    const a6 = a4.dot(a2);
+    u = mat.dot(
+      a6
+        .dot(
+          a6
+            .multiply(b[13])
+            .add(a4.multiply(b[11]), false)
+            .add(a2.multiply(b[9]), false)
+        )
+        .add(a6.multiply(b[7]), false)
+        .add(a4.multiply(b[5]), false)
+        .add(a2.multiply(b[3]), false)
+        .add(eye.multiply(b[1]), false)
+    );
+    v = a6
+      .dot(
+        a6
+          .multiply(b[12])
+          .add(a4.multiply(b[10]), false)
+          .add(a2.multiply(b[8]), false)
+      )
+      .add(a6.multiply(b[6]), false)
+      .add(a4.multiply(b[4]), false)
+      .add(a2.multiply(b[2]), false)
+      .add(eye.multiply(b[0]), false);
+  }
+  // solve (V - U) R = V + U
+  let r = solve(v.subtract(u), v.add(u, false));
+  for (let i = 0; i < squarings; i++) {
+    r = r.dot(r);
+  }
+  return r;
+}
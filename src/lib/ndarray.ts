@@ -10,11 +10,21 @@ import ndarray, { NdArray as BaseNdArray } from "ndarray";
 import util from "util";
 
 import CONF from "./config";
+import {
+  Complex,
+  Complex64Array,
+  Complex128Array,
+  ComplexTypedArray,
+  checkRealData,
+  isComplexData,
+  isComplexValue,
+} from "./complex";
 import * as errors from "./errors";
 import _ from "./utils";
 
 export interface ArbitraryDimArray<T> extends Array<T | ArbitraryDimArray<T>> {}
 export type ArbDimNumArray = ArbitraryDimArray<number>;
+export type ArbDimComplexArray = ArbitraryDimArray<number | Complex>;
 
 export type ArrayLikeConstructor =
   | ArrayConstructor
@@ -26,7 +36,9 @@ export type ArrayLikeConstructor =
   | Uint32ArrayConstructor
   | Float32ArrayConstructor
   | Float64ArrayConstructor
-  | Uint8ClampedArrayConstructor;
+  | Uint8ClampedArrayConstructor
+  | typeof Complex64Array
+  | typeof Complex128Array;
 
 export type TypedArray =
   | Int8Array
@@ -39,7 +51,7 @@ export type TypedArray =
   | Float32Array
   | Float64Array;
 export type OneDimNumArray = Array<number> | TypedArray;
-export type DType<D = OneDimNumArray> = D extends Int8Array
+export type DType<D = OneDimNumArray | ComplexTypedArray> = D extends Int8Array
   ? "int8"
   : D extends Int16Array
   ? "int16"
@@ -57,8 +69,67 @@ export type DType<D = OneDimNumArray> = D extends Int8Array
   ? "float32"
   : D extends Float64Array
   ? "float64"
+  : D extends Complex64Array
+  ? "complex64"
+  : D extends Complex128Array
+  ? "complex128"
   : "array";
 
+/**
+ * Options of reductions such as `sum`, `mean`, `min`, `max` or `std`.
+ */
+export interface ReduceOptions {
+  /**
+   * Axis or axes along which the reduction is performed, negative values count from the last axis.
+   * Default is to reduce all the axes into a single number.
+   */
+  axis?: number | number[];
+  /**
+   * If true, the reduced axes are left in the result as dimensions with size one.
+   */
+  keepdims?: boolean;
+}
+
+/**
+ * Options of `sort` and `argsort`.
+ */
+export interface SortOptions {
+  /**
+   * Axis along which to sort, default is -1 (the last axis). If null, the flattened array is sorted.
+   */
+  axis?: number | null;
+  /**
+   * Sorting algorithm, kept for compatibility with NumPy: all kinds use the same stable sort.
+   */
+  kind?: "quicksort" | "mergesort" | "heapsort" | "stable";
+}
+
+export interface ConvolveOptions {
+  /**
+   * Size of the output, default is "valid":
+   * - "full": the full discrete linear convolution of the inputs.
+   * - "same": the output is the same size as the array, centered with respect to the "full" output.
+   * - "valid": the output only consists of those elements that do not rely on the boundary handling.
+   */
+  mode?: "full" | "same" | "valid";
+  /**
+   * How the array is extended beyond its edges in "full" and "same" modes, default is "fill":
+   * - "fill": pad with `fillvalue` (`v v v | a b c d | v v v`).
+   * - "wrap": wrap around to the opposite edge (`b c d | a b c d | a b c`).
+   * - "symmetric": reflect about the edge, which is repeated (`c b a | a b c d | d c b`).
+   * - "reflect": reflect about the edge, which is not repeated (`d c b | a b c d | c b a`).
+   */
+  boundary?: "fill" | "wrap" | "symmetric" | "reflect";
+  /**
+   * Value used to pad the array with the "fill" boundary, default is 0.
+   */
+  fillvalue?: number;
+  /**
+   * Data type of the output, default is the dtype of the array. Integer outputs are rounded to the nearest integer.
+   */
+  dtype?: DType | ArrayLikeConstructor;
+}
+
 /**
  * Multidimensional, homogeneous array of fixed-size items
  *
@@ -71,7 +142,7 @@ export class NdArray {
 
   constructor(data: BaseNdArray);
   constructor(
-    data: OneDimNumArray,
+    data: OneDimNumArray | ComplexTypedArray,
     shape: number[],
     stride?: number[],
     offset?: number
@@ -116,14 +187,20 @@ export class NdArray {
   /**
    * Data-type of the array’s elements.
    */
-  get dtype() {
-    return this.selection.dtype;
+  get dtype(): DType {
+    const data = this.selection.data;
+    return isComplexData(data) ? data.dtype : (this.selection.dtype as DType);
   }
   set dtype(dtype) {
     const T = _.getType(dtype);
     if (T !== _.getType(this.dtype)) {
+      let data = this.selection.data;
+      if (isComplexData(data) && !isComplexType(T)) {
+        // discard the imaginary parts
+        data = data.buffer.filter((v, i) => i % 2 === 0);
+      }
       this.selection = ndarray(
-        new T(this.selection.data),
+        new T(data),
         this.selection.shape,
         this.selection.stride,
         this.selection.offset
@@ -131,6 +208,29 @@ export class NdArray {
     }
   }
 
+  /**
+   * The real part of the array: a view for complex arrays, the array itself otherwise.
+   */
+  get real(): NdArray {
+    if (!isComplexData(this.selection.data)) {
+      return this;
+    }
+    return new NdArray(complexParts(this.selection)[0]);
+  }
+
+  /**
+   * The imaginary part of the array: a view for complex arrays, a new array of zeros otherwise.
+   */
+  get imag(): NdArray {
+    if (!isComplexData(this.selection.data)) {
+      const T = _.getType(this.dtype);
+      const zeros = new NdArray(new T(this.size), this.shape);
+      ops.assigns(zeros.selection, 0);
+      return zeros;
+    }
+    return new NdArray(complexParts(this.selection)[1]);
+  }
+
   /**
    * Permute the dimensions of the array.
    *
@@ -141,7 +241,18 @@ export class NdArray {
     return this.transpose();
   }
 
-  get(...args: number[]): number {
+  /**
+   * Return an element of the array given its indices, negative indices counting from the end of the axes.
+   * A string index follows the NumPy grammar (see `slice`), e.g. `arr.get("..., 0")`: the result is a view, or a number if all the axes are indexed.
+   * Elements of complex arrays are returned as `{re, im}` objects.
+   */
+  get(index: string): number | NdArray;
+  get(...args: number[]): number;
+  get(...args: any[]): number | NdArray {
+    if (_.isString(args[0])) {
+      const view = indexView(this, parseIndex(args[0]));
+      return view.shape.length === 0 ? view.get() : new NdArray(view);
+    }
     const n = args.length;
     for (let i = 0; i < n; i++) {
       if (args[i] < 0) {
@@ -151,53 +262,45 @@ export class NdArray {
     return this.selection.get.apply(this.selection, args);
   }
 
-  set(...args: number[]): number {
+  set(...args: Array<number | Complex>): number {
     return this.selection.set.apply(this.selection, args);
   }
 
-  slice(...args: Array<number | number[]>): NdArray {
-    const d = this.ndim;
-    const hi = new Array(d);
-    const lo = new Array(d);
-    const step = new Array(d);
-    const tShape = this.shape;
-
-    for (let i = 0; i < d; i++) {
-      let arg = args[i];
-      if (typeof arg === "undefined") {
-        break;
-      }
-      if (arg === null) {
-        continue;
-      }
-      if (_.isNumber(arg)) {
-        lo[i] = arg < 0 ? (arg as number) + tShape[i] : arg;
-        hi[i] = null;
-        step[i] = 1;
-      } else if (
-        (arg as number[]).length === 4 &&
-        arg[1] === null &&
-        arg[2] === null
-      ) {
-        // pattern: a[start::step]
-        const s = arg[0] < 0 ? arg[0] + tShape[i] : arg[0];
-        lo[i] = s;
-        hi[i] = null;
-        step[i] = arg[3] || 1;
-      } else {
-        // pattern start:end:step
-        const start = arg[0] < 0 ? arg[0] + tShape[i] : arg[0];
-        const end = arg[1] < 0 ? arg[1] + tShape[i] : arg[1];
-        lo[i] = end ? start : 0;
-        hi[i] = end ? end - start : start;
-        step[i] = arg[2] || 1;
+  /**
+   * Return a sliced view of the array.
+   *
+   * The index can be given as a string following the NumPy (Python) grammar: comma-separated items being
+   * slices `start:stop:step` (any part can be omitted, negative values count from the end),
+   * integers (which remove the axis), `...` (as many full slices as needed) and `None`/`newaxis` (a new axis of size one).
+   *
+   * Otherwise, each argument applies to an axis: a number `start` (same as `start:`), `[stop]`, `[start, stop]`, `[start, stop, step]`, or null to keep the axis whole.
+   * Within arrays, null stands for an omitted bound, e.g. `[null, null, -1]` is `::-1` and `[5, 1, -2]` is `5:1:-2`.
+   * Negative steps produce reversed views, without copying data.
+   *
+   * @example
+   * ```typescript
+   * arr = nj.arange(4*4).reshape(4,4)
+   * arr.slice("1:3, ::2")
+   * // array([[ 4, 6],
+   * //        [ 8, 10]])
+   * arr.slice("..., -1")
+   * // array([  3,  7, 11, 15])
+   * arr.slice([1, 3], [null, null, 2])
+   * // array([[ 4, 6],
+   * //        [ 8, 10]])
+   * ```
+   */
+  slice(index: string): NdArray;
+  slice(...args: Array<number | number[]>): NdArray;
+  slice(...args: any[]): NdArray {
+    if (_.isString(args[0])) {
+      const view = indexView(this, parseIndex(args[0]));
+      if (view.shape.length === 0) {
+        return new NdArray(view.data as OneDimNumArray, [1], [1], view.offset);
       }
+      return new NdArray(view);
     }
-
-    const slo = this.selection.lo.apply(this.selection, lo);
-    const shi = slo.hi.apply(slo, hi);
-    const sstep = shi.step.apply(shi, step);
-    return new NdArray(sstep);
+    return new NdArray(indexView(this, args.map(sliceArgument)));
   }
 
   /**
@@ -272,6 +375,56 @@ export class NdArray {
     return new NdArray(this.selection.step.apply(this.selection, args));
   }
 
+  /**
+   * Broadcast the array to a new shape, following NumPy broadcasting rules.
+   *
+   * @returns a read-only view of the array: stretched axes have a zero stride, so writing into it affects several elements at once.
+   *
+   * @example
+   * ```typescript
+   * nj.array([1, 2, 3]).broadcastTo([2, 3])
+   * // array([[ 1, 2, 3],
+   * //        [ 1, 2, 3]])
+   * ```
+   */
+  broadcastTo(shape: number[]): NdArray {
+    const tShape = this.shape;
+    const tStride = this.selection.stride;
+    const d = shape.length;
+    const offset = d - tShape.length;
+    if (offset < 0) {
+      throw new errors.ValueError(
+        "cannot broadcast array of shape " +
+          _.formatShape(tShape) +
+          " to a smaller number of dimensions " +
+          _.formatShape(shape)
+      );
+    }
+    const stride = new Array(d);
+    for (let i = 0; i < d; i++) {
+      if (i < offset) {
+        stride[i] = 0;
+      } else if (tShape[i - offset] === shape[i]) {
+        stride[i] = tStride[i - offset];
+      } else if (tShape[i - offset] === 1) {
+        stride[i] = 0;
+      } else {
+        throw new errors.ValueError(
+          "cannot broadcast array of shape " +
+            _.formatShape(tShape) +
+            " to shape " +
+            _.formatShape(shape)
+        );
+      }
+    }
+    return new NdArray(
+      this.selection.data as OneDimNumArray,
+      shape.slice(),
+      stride,
+      this.selection.offset
+    );
+  }
+
   /**
    * Return a copy of the array collapsed into one dimension using row-major order (C-style)
    */
@@ -364,21 +517,15 @@ export class NdArray {
     } else if (selfDim === 1) {
       // 1d view
       stride = new Array(d);
-      for (i = d - 1, sz = 1; i >= 0; --i) {
+      for (i = d - 1, sz = selfStride[0]; i >= 0; --i) {
         stride[i] = sz;
         sz *= shape[i];
       }
-      offset = selfOffset;
-      for (i = 0; i < d; ++i) {
-        if (stride[i] < 0) {
-          offset -= (shape[i] - 1) * stride[i];
-        }
-      }
       return new NdArray(
         this.selection.data as OneDimNumArray,
         shape,
         stride,
-        offset
+        selfOffset
       );
     }
 
@@ -447,9 +594,13 @@ export class NdArray {
 
   /**
    * Dot product of two arrays.
+   *
+   * For N-dimensional arrays, it is a sum product over the last axis of this array and the second-to-last axis of
+   * `x` (the only one if `x` is 1-D), the result having shape `this.shape[:-1] + x.shape[:-2] + x.shape[-1:]`.
    */
   dot(x: ArbDimNumArray | NdArray): NdArray {
     x = x instanceof NdArray ? x : createArray(x, this.dtype as DType);
+    checkRealData("dot", this.selection.data, x.selection.data);
     const tShape = this.shape;
     const xShape = x.shape;
 
@@ -485,6 +636,26 @@ export class NdArray {
       return this.reshape([tShape[0], 1])
         .T.dot(x.reshape([xShape[0], 1]))
         .reshape([1]);
+    } else if (
+      tShape.length >= 1 &&
+      xShape.length >= 1 &&
+      tShape[tShape.length - 1] === xShape[Math.max(xShape.length - 2, 0)]
+    ) {
+      // N-d: a single matrix product, once the contracted axes are moved to the end of this and the start of x
+      const k = tShape[tShape.length - 1];
+      const xAxis = Math.max(xShape.length - 2, 0);
+      const xAxes = [xAxis];
+      for (let i = 0; i < xShape.length; i++) {
+        if (i !== xAxis) {
+          xAxes.push(i);
+        }
+      }
+      const shape = tShape
+        .slice(0, -1)
+        .concat(xShape.filter((_s, i) => i !== xAxis));
+      return this.reshape(-1, k)
+        .dot(x.transpose(xAxes).reshape(k, -1))
+        .reshape(shape);
     } else {
       throw new errors.ValueError(
         "cannot compute the matrix product of given arrays"
@@ -492,6 +663,69 @@ export class NdArray {
     }
   }
 
+  /**
+   * Matrix product of two arrays, following NumPy's `matmul` rules: arrays with more than two dimensions are
+   * treated as stacks of matrices residing in the last two axes, their leading dimensions being broadcast together.
+   * A 1-D argument is promoted to a matrix by prepending (for this array) or appending (for `x`) a dimension of
+   * size one, which is removed from the result.
+   */
+  matmul(x: ArbDimNumArray | NdArray): NdArray {
+    x = x instanceof NdArray ? x : createArray(x, this.dtype as DType);
+    checkRealData("matmul", this.selection.data, x.selection.data);
+    const a = this.ndim === 1 ? this.reshape(1, this.shape[0]) : this;
+    const b = x.ndim === 1 ? x.reshape(x.shape[0], 1) : x;
+    const [n, k] = a.shape.slice(-2);
+    const [k2, m] = b.shape.slice(-2);
+    if (k !== k2) {
+      throw new errors.ValueError(
+        "matmul: Input operand 1 has a mismatch in its core dimension 0, with gufunc signature (n?,k),(k,m?)->(n?,m?) (size " +
+          k2 +
+          " is different from " +
+          k +
+          ")"
+      );
+    }
+    const batchShape = _.broadcastShapes(
+      a.shape.slice(0, -2),
+      b.shape.slice(0, -2)
+    );
+    if (!batchShape) {
+      throw new errors.ValueError(
+        "operands could not be broadcast together with remapped shapes [original->remapped]: " +
+          _.formatShape(this.shape) +
+          "->" +
+          _.formatShape(a.shape.slice(0, -2).concat([n, k])) +
+          " " +
+          _.formatShape(x.shape) +
+          "->" +
+          _.formatShape(b.shape.slice(0, -2).concat([k, m]))
+      );
+    }
+    const sa = a.broadcastTo(batchShape.concat([n, k])).selection;
+    const sb = b.broadcastTo(batchShape.concat([k, m])).selection;
+    const T = _.getType(this.dtype);
+    const c = new NdArray(
+      new T(_.shapeSize(batchShape) * n * m),
+      batchShape.concat([n, m])
+    );
+    const sc = c.selection;
+    forEachIndex(batchShape, function (index) {
+      gemm(
+        sc.pick.apply(sc, index),
+        sa.pick.apply(sa, index),
+        sb.pick.apply(sb, index)
+      );
+    });
+    const shape = batchShape.slice();
+    if (this.ndim > 1) {
+      shape.push(n);
+    }
+    if (x.ndim > 1) {
+      shape.push(m);
+    }
+    return c.reshape(shape.length ? shape : [1]);
+  }
+
   /**
    * Assign `x` to the array, element-wise.
    */
@@ -505,7 +739,11 @@ export class NdArray {
       ops.assigns(arr.selection, x);
       return arr;
     }
-    x = createArray(x, this.dtype as DType);
+    x = createArray(x, this.dtype as DType).broadcastTo(arr.shape);
+    if (isComplexData(x.selection.data) && !isComplexData(arr.selection.data)) {
+      // discard the imaginary parts, as when converting to a real dtype
+      x = x.real;
+    }
     ops.assign(arr.selection, x.selection);
     return arr;
   }
@@ -513,74 +751,100 @@ export class NdArray {
   /**
    * Add `x` to the array, element-wise.
    */
-  add(x: NdArray | ArbDimNumArray | number, copy = true): NdArray {
+  add(
+    x: NdArray | ArbDimComplexArray | number | Complex,
+    copy = true
+  ): NdArray {
     if (arguments.length === 1) {
       copy = true;
     }
-    const arr = copy ? this.clone() : this;
-
+    if (isComplexData(this.selection.data) || isComplexOperand(x)) {
+      return complexArithmetic("add", this, x, copy);
+    }
     if (_.isNumber(x)) {
+      const arr = copy ? this.clone() : this;
       ops.addseq(arr.selection, x);
       return arr;
     }
+
     x = createArray(x, this.dtype as DType);
-    ops.addeq(arr.selection, x.selection);
+    const [arr, other] = broadcastOperands(this, x, copy);
+    ops.addeq(arr.selection, other.selection);
     return arr;
   }
 
   /**
    * Subtract `x` to the array, element-wise.
    */
-  subtract(x: NdArray | ArbDimNumArray | number, copy = true): NdArray {
+  subtract(
+    x: NdArray | ArbDimComplexArray | number | Complex,
+    copy = true
+  ): NdArray {
     if (arguments.length === 1) {
       copy = true;
     }
-    const arr = copy ? this.clone() : this;
-
+    if (isComplexData(this.selection.data) || isComplexOperand(x)) {
+      return complexArithmetic("subtract", this, x, copy);
+    }
     if (_.isNumber(x)) {
+      const arr = copy ? this.clone() : this;
       ops.subseq(arr.selection, x);
       return arr;
     }
+
     x = createArray(x, this.dtype as DType);
-    ops.subeq(arr.selection, x.selection);
+    const [arr, other] = broadcastOperands(this, x, copy);
+    ops.subeq(arr.selection, other.selection);
     return arr;
   }
 
   /**
    * Multiply array by `x`, element-wise.
    */
-  multiply(x: NdArray | ArbDimNumArray | number, copy = true): NdArray {
+  multiply(
+    x: NdArray | ArbDimComplexArray | number | Complex,
+    copy = true
+  ): NdArray {
     if (arguments.length === 1) {
       copy = true;
     }
-    const arr = copy ? this.clone() : this;
+    if (isComplexData(this.selection.data) || isComplexOperand(x)) {
+      return complexArithmetic("multiply", this, x, copy);
+    }
     if (_.isNumber(x)) {
+      const arr = copy ? this.clone() : this;
       ops.mulseq(arr.selection, x);
       return arr;
     }
 
     x = createArray(x, this.dtype as DType);
-    ops.muleq(arr.selection, x.selection);
-
+    const [arr, other] = broadcastOperands(this, x, copy);
+    ops.muleq(arr.selection, other.selection);
     return arr;
   }
 
   /**
    * Divide array by `x`, element-wise.
    */
-  divide(x: NdArray | ArbDimNumArray | number, copy = true): NdArray {
+  divide(
+    x: NdArray | ArbDimComplexArray | number | Complex,
+    copy = true
+  ): NdArray {
     if (arguments.length === 1) {
       copy = true;
     }
-    const arr = copy ? this.clone() : this;
+    if (isComplexData(this.selection.data) || isComplexOperand(x)) {
+      return complexArithmetic("divide", this, x, copy);
+    }
     if (_.isNumber(x)) {
+      const arr = copy ? this.clone() : this;
       ops.divseq(arr.selection, x);
       return arr;
     }
 
     x = createArray(x, this.dtype as DType);
-    ops.diveq(arr.selection, x.selection);
-
+    const [arr, other] = broadcastOperands(this, x, copy);
+    ops.diveq(arr.selection, other.selection);
     return arr;
   }
 
@@ -594,14 +858,17 @@ export class NdArray {
     if (arguments.length === 1) {
       copy = true;
     }
-    const arr = copy ? this.clone() : this;
+    checkRealData("pow", this.selection.data);
     if (_.isNumber(x)) {
+      const arr = copy ? this.clone() : this;
       ops.powseq(arr.selection, x);
       return arr;
     }
 
     x = createArray(x, this.dtype as DType);
-    ops.poweq(arr.selection, x.selection);
+    checkRealData("pow", x.selection.data);
+    const [arr, other] = broadcastOperands(this, x, copy);
+    ops.poweq(arr.selection, other.selection);
     return arr;
   }
 
@@ -614,6 +881,7 @@ export class NdArray {
     if (arguments.length === 0) {
       copy = true;
     }
+    checkRealData("exp", this.selection.data);
     const arr = copy ? this.clone() : this;
     ops.expeq(arr.selection);
     return arr;
@@ -628,6 +896,7 @@ export class NdArray {
     if (arguments.length === 0) {
       copy = true;
     }
+    checkRealData("log", this.selection.data);
     const arr = copy ? this.clone() : this;
     ops.logeq(arr.selection);
     return arr;
@@ -642,15 +911,31 @@ export class NdArray {
     if (arguments.length === 0) {
       copy = true;
     }
+    checkRealData("sqrt", this.selection.data);
     const arr = copy ? this.clone() : this;
     ops.sqrteq(arr.selection);
     return arr;
   }
 
   /**
-   * Return the maximum value of the array
+   * Return the maximum value of the array, or the maxima along the given axis.
+   *
+   * @example
+   * ```typescript
+   * arr = nj.array([[1, 5], [4, 2]])
+   * arr.max()
+   * // 5
+   * arr.max({ axis: 0 })
+   * // array([ 4, 5])
+   * ```
    */
-  max(): number {
+  max(options?: { axis?: undefined; keepdims?: false }): number;
+  max(options: ReduceOptions): NdArray;
+  max(options?: ReduceOptions): number | NdArray {
+    checkRealData("max", this.selection.data);
+    if (isAxisReduction(options)) {
+      return reduceAxes(this, options, _.getType(this.dtype), ops.sup);
+    }
     if (this.selection.size === 0) {
       return null;
     }
@@ -658,9 +943,15 @@ export class NdArray {
   }
 
   /**
-   * Return the minimum value of the array
+   * Return the minimum value of the array, or the minima along the given axis.
    */
-  min(): number {
+  min(options?: { axis?: undefined; keepdims?: false }): number;
+  min(options: ReduceOptions): NdArray;
+  min(options?: ReduceOptions): number | NdArray {
+    checkRealData("min", this.selection.data);
+    if (isAxisReduction(options)) {
+      return reduceAxes(this, options, _.getType(this.dtype), ops.inf);
+    }
     if (this.selection.size === 0) {
       return null;
     }
@@ -668,141 +959,528 @@ export class NdArray {
   }
 
   /**
-   * Sum of array elements.
+   * Sum of array elements, or sums along the given axis.
+   * The sum of a complex array is a `{re, im}` object, or a `complex128` array along an axis.
+   *
+   * @example
+   * ```typescript
+   * arr = nj.arange(6).reshape(2, 3)
+   * arr.sum()
+   * // 15
+   * arr.sum({ axis: 1 })
+   * // array([  3, 12])
+   * arr.sum({ axis: -1, keepdims: true })
+   * // array([[  3],
+   * //        [ 12]])
+   * ```
    */
-  sum(): number {
+  sum(options?: { axis?: undefined; keepdims?: false }): number | Complex;
+  sum(options: ReduceOptions): NdArray;
+  sum(options?: ReduceOptions): number | Complex | NdArray {
+    if (isComplexData(this.selection.data)) {
+      return reduceComplexParts(this, options, ops.sum);
+    }
+    if (isAxisReduction(options)) {
+      return reduceAxes(this, options, reductionType(this.dtype), ops.sum);
+    }
     return ops.sum(this.selection);
   }
 
   /**
    * Returns the standard deviation, a measure of the spread of a distribution, of the array elements.
    *
-   * @param {object} options default {ddof:0}
+   * @param options default `{ddof: 0}`. Use `axis` and `keepdims` to compute the standard deviation along the given axis.
    */
-  std(options?: { ddof: number }) {
-    if (!options?.ddof) {
-      options = { ddof: 0 };
+  std(options?: { ddof?: number; axis?: undefined; keepdims?: false }): number;
+  std(options: ReduceOptions & { ddof?: number }): NdArray;
+  std(options?: ReduceOptions & { ddof?: number }): number | NdArray {
+    checkRealData("std", this.selection.data);
+    const ddof = options?.ddof || 0;
+    if (isAxisReduction(options)) {
+      return reduceAxes(this, options, reductionType(this.dtype), (s) =>
+        standardDeviation(s, ddof)
+      );
     }
-    const squares = this.clone();
-    ops.powseq(squares.selection, 2);
-    const mean = this.mean();
-    const shapeSize = _.shapeSize(this.shape);
-    const letiance =
-      ops.sum(squares.selection) / (shapeSize - options.ddof) -
-      (mean * mean * shapeSize) / (shapeSize - options.ddof);
-
-    return letiance > 0 ? Math.sqrt(Math.abs(letiance)) : 0;
-  }
-
-  /**
-   * Return the arithmetic mean of array elements.
-   */
-  mean(): number {
-    return ops.sum(this.selection) / _.shapeSize(this.shape);
+    return standardDeviation(this.selection, ddof);
   }
 
   /**
-   * Return element-wise remainder of division.
+   * Return the arithmetic mean of array elements, or the means along the given axis.
+   * The mean of a complex array is a `{re, im}` object, or a `complex128` array along an axis.
    */
-  mod(x: NdArray | ArbDimNumArray | number, copy = true): NdArray {
-    if (arguments.length === 1) {
-      copy = true;
+  mean(options?: { axis?: undefined; keepdims?: false }): number | Complex;
+  mean(options: ReduceOptions): NdArray;
+  mean(options?: ReduceOptions): number | Complex | NdArray {
+    if (isComplexData(this.selection.data)) {
+      return reduceComplexParts(this, options, (s) => ops.sum(s) / s.size);
     }
-    const arr = copy ? this.clone() : this;
-    if (_.isNumber(x)) {
-      ops.modseq(arr.selection, x);
-      return arr;
+    if (isAxisReduction(options)) {
+      return reduceAxes(
+        this,
+        options,
+        reductionType(this.dtype),
+        (s) => ops.sum(s) / s.size
+      );
     }
-
-    x = createArray(x, this.dtype as DType);
-    ops.modeq(arr.selection, x.selection);
-
-    return arr;
+    return ops.sum(this.selection) / _.shapeSize(this.shape);
   }
 
   /**
-   * Converts {NdArray} to a native JavaScript {Array}
+   * Return the index of the maximum value of the array, or the indices of the maxima along the given axis.
+   * Without `axis`, the index is computed into the flattened array (row-major order).
+   * In case of multiple occurrences of the maximum value, the index of the first occurrence is returned.
+   *
+   * @example
+   * ```typescript
+   * arr = nj.array([[1, 5, 3], [4, 2, 6]])
+   * arr.argmax()
+   * // 5
+   * arr.argmax({ axis: 0 })
+   * // array([ 1, 0, 1], dtype=int32)
+   * ```
    */
-  tolist(): ArbDimNumArray {
-    return unpackArray(this.selection);
-  }
-
-  valueOf(): ArbDimNumArray {
-    return this.tolist();
+  argmax(options?: { axis?: undefined; keepdims?: false }): number;
+  argmax(options: { axis?: number; keepdims?: boolean }): NdArray;
+  argmax(options?: { axis?: number; keepdims?: boolean }): number | NdArray {
+    checkRealData("argmax", this.selection.data);
+    return argExtremum(this, options, "argmax", (a, b) => a > b);
   }
 
   /**
-   * Stringify the array to make it readable in the console, by a human.
+   * Return the index of the minimum value of the array, or the indices of the minima along the given axis.
+   * Without `axis`, the index is computed into the flattened array (row-major order).
+   * In case of multiple occurrences of the minimum value, the index of the first occurrence is returned.
    */
-  [util.inspect.custom]() {
-    return this.toString();
+  argmin(options?: { axis?: undefined; keepdims?: false }): number;
+  argmin(options: { axis?: number; keepdims?: boolean }): NdArray;
+  argmin(options?: { axis?: number; keepdims?: boolean }): number | NdArray {
+    checkRealData("argmin", this.selection.data);
+    return argExtremum(this, options, "argmin", (a, b) => a < b);
   }
 
   /**
-   * Stringify the array to make it readable by a human.
+   * Sort the array along the given axis, `NaN` values being sorted to the end.
+   *
+   * @param options default `{axis: -1}`. Use `axis: null` to sort the flattened array. Whatever the `kind`, the sort is stable.
+   * @param copy set to false to sort the array in place rather than create a new one
+   *
+   * @example
+   * ```typescript
+   * arr = nj.array([[3, 1, 2], [1, 0, 5]])
+   * arr.sort()
+   * // array([[ 1, 2, 3],
+   * //        [ 0, 1, 5]])
+   * arr.sort({ axis: 0 })
+   * // array([[ 1, 0, 2],
+   * //        [ 3, 1, 5]])
+   * ```
    */
-  toString(): string {
-    const nChars = formatNumber(this.max()).length;
-
-    const reg1 = /\]\,(\s*)\[/g;
-    const spacer1 = "],\n$1      [";
-    const reg3 = /\]\,(\s+)...\,(\s+)\[/g;
-    const spacer3 = "],\n$2       ...\n$2      [";
-    const reg2 = /\[\s+\[/g;
-    const spacer2 = "[[";
-
-    function formatArray(k, v) {
-      if (_.isString(v)) {
-        return v;
-      }
-      if (_.isNumber(v)) {
-        const s = formatNumber(v);
-        return new Array(Math.max(0, nChars - s.length + 2)).join(" ") + s;
-      }
-      k = k || 0;
-      let arr;
-      const th = CONF.printThreshold;
-      const hth = (th / 2) | 0;
-      if (v.length > th) {
-        arr = [].concat(v.slice(0, hth), [" ..."], v.slice(v.length - hth));
-      } else {
-        arr = v;
+  sort(options?: SortOptions, copy = true): NdArray {
+    checkRealData("sort", this.selection.data);
+    let arr: NdArray;
+    let axis = options?.axis;
+    if (axis === null) {
+      if (!copy && this.ndim !== 1) {
+        throw new errors.ValueError("cannot sort the flattened array in place");
       }
-      return (
-        new Array(k + 1).join(" ") +
-        "[" +
-        arr
-          .map(function (i, ii) {
-            return formatArray(ii === 0 && k === 0 ? 1 : k + 1, i);
-          })
-          .join(",") +
-        "]"
-      );
+      arr = copy ? this.flatten().clone() : this;
+      axis = 0;
+    } else {
+      arr = copy ? this.clone() : this;
     }
+    forEachLane(
+      [arr.selection],
+      normalizeAxes(axis ?? -1, arr.ndim)[0],
+      function (lane) {
+        const values = new Array(lane.shape[0]);
+        for (let i = 0; i < values.length; i++) {
+          values[i] = lane.get(i);
+        }
+        const indices = sortedIndices(values);
+        for (let i = 0; i < values.length; i++) {
+          lane.set(i, values[indices[i]]);
+        }
+      }
+    );
+    return arr;
+  }
 
-    let base = JSON.stringify(this.tolist(), formatArray)
-      .replace(reg1, spacer1)
-      .replace(reg2, spacer2)
-      .replace(reg2, spacer2)
-      .replace(reg3, spacer3)
-      .slice(2, -1);
-    switch (this.dtype) {
-      case "array":
-        return "array([" + base + ")";
-      default:
-        return "array([" + base + ", dtype=" + this.dtype + ")";
+  /**
+   * Return the indices that would sort the array along the given axis, `NaN` values being sorted to the end.
+   *
+   * @param options default `{axis: -1}`. Use `axis: null` to sort the flattened array. Whatever the `kind`, the sort is stable.
+   * @returns an int32 array of indices of the same shape as the array (1-D if `axis` is null)
+   */
+  argsort(options?: SortOptions): NdArray {
+    checkRealData("argsort", this.selection.data);
+    let arr: NdArray = this;
+    let axis = options?.axis;
+    if (axis === null) {
+      arr = this.flatten();
+      axis = 0;
     }
+    const out = new NdArray(new Int32Array(arr.size), arr.shape.slice());
+    forEachLane(
+      [arr.selection, out.selection],
+      normalizeAxes(axis ?? -1, arr.ndim)[0],
+      function (lane, outLane) {
+        const values = new Array(lane.shape[0]);
+        for (let i = 0; i < values.length; i++) {
+          values[i] = lane.get(i);
+        }
+        const indices = sortedIndices(values);
+        for (let i = 0; i < values.length; i++) {
+          outLane.set(i, indices[i]);
+        }
+      }
+    );
+    return out;
   }
 
   /**
-   * Stringify object to JSON
+   * Return the elements of the array selected by a boolean mask, in row-major order.
+   *
+   * @param mask array of the same shape as the array, non-zero values selecting elements (e.g. the result of `nj.greater`)
+   * @returns a 1-D copy with the dtype of the array
+   *
+   * @example
+   * ```typescript
+   * arr = nj.array([[1, 5], [4, 2]])
+   * arr.mask(nj.greater(arr, 2))
+   * // array([ 5, 4])
+   * ```
    */
-  toJSON(): string {
-    return JSON.stringify(this.tolist());
+  mask(mask: NdArray | ArbDimNumArray): NdArray {
+    const m = checkMask(this, mask);
+    const ts = this.selection;
+    const values = [];
+    forEachIndex(this.shape, function (index) {
+      if (m.get.apply(m, index)) {
+        values.push(ts.get.apply(ts, index));
+      }
+    });
+    const T = _.getType(this.dtype);
+    return new NdArray(T === Array ? values : new T(values), [values.length]);
   }
 
   /**
-   * Create a full copy of the array
+   * Assign `value` to the elements of the array selected by a boolean mask, in place.
+   *
+   * @param mask array of the same shape as the array, non-zero values selecting elements
+   * @param value a number, or values broadcastable to the number of selected elements, assigned in row-major order
+   * @returns the array itself
+   */
+  setMask(
+    mask: NdArray | ArbDimNumArray,
+    value: NdArray | ArbDimNumArray | number
+  ): NdArray {
+    const m = checkMask(this, mask);
+    const ts = this.selection;
+    const indices = [];
+    forEachIndex(this.shape, function (index) {
+      if (m.get.apply(m, index)) {
+        indices.push(index.slice());
+      }
+    });
+    const values = _.isNumber(value)
+      ? null
+      : createArray(value).reshape(-1).broadcastTo([indices.length]);
+    for (let i = 0; i < indices.length; i++) {
+      ts.set.apply(
+        ts,
+        indices[i].concat([values ? values.get(i) : (value as number)])
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Return the indices of the non-zero elements, one int32 array per dimension.
+   *
+   * @example
+   * ```typescript
+   * arr = nj.array([[1, 0], [0, 2]])
+   * arr.nonzero()
+   * // [ array([ 0, 1], dtype=int32), array([ 0, 1], dtype=int32) ]
+   * ```
+   */
+  nonzero(): NdArray[] {
+    const ts = this.selection;
+    const d = this.ndim;
+    const found = [];
+    forEachIndex(this.shape, function (index) {
+      const value = ts.get.apply(ts, index);
+      if (isComplexValue(value) ? value.re || value.im : value) {
+        found.push(index.slice());
+      }
+    });
+    const result = [];
+    for (let i = 0; i < d; i++) {
+      const indices = new Int32Array(found.length);
+      for (let j = 0; j < found.length; j++) {
+        indices[j] = found[j][i];
+      }
+      result.push(new NdArray(indices, [found.length]));
+    }
+    return result;
+  }
+
+  /**
+   * Integer array indexing: select the elements `arr[indices[0][...], indices[1][...], ...]`, index arrays being broadcast together.
+   * Axes not covered by `indices` are kept whole. Negative indices count from the end of the axis.
+   * Combined with `nj.ix_`, it selects the cross product of several index lists.
+   *
+   * @returns a copy with the dtype of the array, of shape `broadcastShape(indices) + arr.shape.slice(indices.length)`
+   *
+   * @example
+   * ```typescript
+   * arr = nj.arange(9).reshape(3, 3)
+   * arr.index([0, 2], [1, 0])
+   * // array([ 1, 6])
+   * arr.index([2, 0])
+   * // array([[ 6, 7, 8],
+   * //        [ 0, 1, 2]])
+   * arr.index(...nj.ix_([0, 2], [0, 2]))
+   * // array([[ 0, 2],
+   * //        [ 6, 8]])
+   * ```
+   */
+  index(...indices: Array<NdArray | ArbDimNumArray | number>): NdArray {
+    const [idx, bShape] = broadcastIndices(this, indices);
+    const trailing = this.shape.slice(idx.length);
+    const outShape = bShape.concat(trailing);
+    const T = _.getType(this.dtype);
+    const out = new NdArray(new T(_.shapeSize(outShape)), outShape);
+    const ts = this.selection;
+    const os = out.selection;
+    forEachIndex(bShape, function (index) {
+      const src = idx.map((a, i) =>
+        normalizeIndex(a.get.apply(a, index), ts.shape[i], i)
+      );
+      if (trailing.length === 0) {
+        os.set.apply(os, index.concat([ts.get.apply(ts, src)]));
+      } else {
+        ops.assign(os.pick.apply(os, index), ts.pick.apply(ts, src));
+      }
+    });
+    return out;
+  }
+
+  /**
+   * Assign `values` to the elements selected by integer array indexing, in place (see `index`).
+   *
+   * @param values a number, or values broadcastable to the shape of the selection
+   * @returns the array itself
+   */
+  setIndex(
+    indices: Array<NdArray | ArbDimNumArray | number>,
+    values: NdArray | ArbDimNumArray | number
+  ): NdArray {
+    const [idx, bShape] = broadcastIndices(this, indices);
+    const trailing = this.shape.slice(idx.length);
+    const v = createArray(values).broadcastTo(bShape.concat(trailing));
+    const ts = this.selection;
+    const vs = v.selection;
+    forEachIndex(bShape, function (index) {
+      const dst = idx.map((a, i) =>
+        normalizeIndex(a.get.apply(a, index), ts.shape[i], i)
+      );
+      if (trailing.length === 0) {
+        ts.set.apply(ts, dst.concat([vs.get.apply(vs, index)]));
+      } else {
+        ops.assign(ts.pick.apply(ts, dst), vs.pick.apply(vs, index));
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Take elements from the array along an axis.
+   *
+   * @param indices indices of the values to extract. A single number removes the axis, as in NumPy, except when the
+   * result would have no dimension (1-D or flattened array): it is then an array holding one item.
+   * @param axis axis over which to select values. By default, the flattened array is used.
+   * @returns a copy with the dtype of the array, of shape `arr.shape.slice(0, axis) + indices.shape + arr.shape.slice(axis + 1)`
+   *
+   * @example
+   * ```typescript
+   * arr = nj.array([[1, 2], [3, 4], [5, 6]])
+   * arr.take([2, 0], 0)
+   * // array([[ 5, 6],
+   * //        [ 1, 2]])
+   * arr.take([1, 4])
+   * // array([ 2, 5])
+   * arr.take(1, 1)
+   * // array([ 2, 4, 6])
+   * ```
+   */
+  take(indices: NdArray | ArbDimNumArray | number, axis?: number): NdArray {
+    if (axis == null) {
+      return this.reshape(this.size).index(indices);
+    }
+    const d = this.ndim;
+    axis = normalizeAxes(axis, d)[0];
+    const axes = [axis];
+    for (let i = 0; i < d; i++) {
+      if (i !== axis) {
+        axes.push(i);
+      }
+    }
+    const taken = this.transpose(axes).index(indices);
+    const k = taken.ndim - d + 1; // number of dimensions of `indices`
+    const back = [];
+    for (let i = 0; i < axis; i++) {
+      back.push(k + i);
+    }
+    for (let i = 0; i < k; i++) {
+      back.push(i);
+    }
+    for (let i = axis + k; i < taken.ndim; i++) {
+      back.push(i);
+    }
+    const out = taken.transpose(back);
+    if (_.isNumber(indices) && d > 1) {
+      return out.pick(...out.shape.map((_n, i) => (i === axis ? 0 : null)));
+    }
+    return out;
+  }
+
+  /**
+   * Replace the elements of the flattened array at the given indices by `values`, in place.
+   * If `values` is shorter than `indices`, it is repeated.
+   *
+   * @returns the array itself
+   */
+  put(
+    indices: NdArray | ArbDimNumArray | number,
+    values: NdArray | ArbDimNumArray | number
+  ): NdArray {
+    const idx = createArray(indices).reshape(-1);
+    const v = createArray(values).reshape(-1);
+    const size = this.size;
+    const shape = this.shape;
+    const ts = this.selection;
+    for (let i = 0; i < idx.size; i++) {
+      let flat = normalizeIndex(idx.get(i), size, null);
+      const index = new Array(shape.length);
+      for (let j = shape.length - 1; j >= 0; j--) {
+        index[j] = flat % shape[j];
+        flat = (flat - index[j]) / shape[j];
+      }
+      ts.set.apply(ts, index.concat([v.get(i % v.size)]));
+    }
+    return this;
+  }
+
+  /**
+   * Return element-wise remainder of division.
+   */
+  mod(x: NdArray | ArbDimNumArray | number, copy = true): NdArray {
+    if (arguments.length === 1) {
+      copy = true;
+    }
+    checkRealData("mod", this.selection.data);
+    if (_.isNumber(x)) {
+      const arr = copy ? this.clone() : this;
+      ops.modseq(arr.selection, x);
+      return arr;
+    }
+
+    x = createArray(x, this.dtype as DType);
+    checkRealData("mod", x.selection.data);
+    const [arr, other] = broadcastOperands(this, x, copy);
+    ops.modeq(arr.selection, other.selection);
+    return arr;
+  }
+
+  /**
+   * Converts {NdArray} to a native JavaScript {Array}
+   */
+  tolist(): ArbDimNumArray {
+    return unpackArray(this.selection);
+  }
+
+  valueOf(): ArbDimNumArray {
+    return this.tolist();
+  }
+
+  /**
+   * Stringify the array to make it readable in the console, by a human.
+   */
+  [util.inspect.custom]() {
+    return this.toString();
+  }
+
+  /**
+   * Stringify the array to make it readable by a human.
+   */
+  toString(): string {
+    const nChars = isComplexData(this.selection.data)
+      ? _.flatten(this.tolist(), true).reduce(
+          (n: number, v: any) => Math.max(n, formatComplex(v).length),
+          0
+        )
+      : formatNumber(this.max()).length;
+
+    const reg1 = /\]\,(\s*)\[/g;
+    const spacer1 = "],\n$1      [";
+    const reg3 = /\]\,(\s+)...\,(\s+)\[/g;
+    const spacer3 = "],\n$2       ...\n$2      [";
+    const reg2 = /\[\s+\[/g;
+    const spacer2 = "[[";
+
+    function formatArray(k, v) {
+      if (_.isString(v)) {
+        return v;
+      }
+      if (_.isNumber(v) || isComplexValue(v)) {
+        const s = _.isNumber(v) ? formatNumber(v) : formatComplex(v);
+        return new Array(Math.max(0, nChars - s.length + 2)).join(" ") + s;
+      }
+      k = k || 0;
+      let arr;
+      const th = CONF.printThreshold;
+      const hth = (th / 2) | 0;
+      if (v.length > th) {
+        arr = [].concat(v.slice(0, hth), [" ..."], v.slice(v.length - hth));
+      } else {
+        arr = v;
+      }
+      return (
+        new Array(k + 1).join(" ") +
+        "[" +
+        arr
+          .map(function (i, ii) {
+            return formatArray(ii === 0 && k === 0 ? 1 : k + 1, i);
+          })
+          .join(",") +
+        "]"
+      );
+    }
+
+    let base = JSON.stringify(this.tolist(), formatArray)
+      .replace(reg1, spacer1)
+      .replace(reg2, spacer2)
+      .replace(reg2, spacer2)
+      .replace(reg3, spacer3)
+      .slice(2, -1);
+    switch (this.dtype) {
+      case "array":
+        return "array([" + base + ")";
+      default:
+        return "array([" + base + ", dtype=" + this.dtype + ")";
+    }
+  }
+
+  /**
+   * Stringify object to JSON
+   */
+  toJSON(): string {
+    return JSON.stringify(this.tolist());
+  }
+
+  /**
+   * Create a full copy of the array
    */
   clone(): NdArray {
     const s = this.selection;
@@ -831,6 +1509,15 @@ export class NdArray {
       }
     }
 
+    if (
+      isComplexData(this.selection.data) ||
+      isComplexData(array.selection.data)
+    ) {
+      return (
+        ops.equals(this.real.selection, array.real.selection) &&
+        ops.equals(this.imag.selection, array.imag.selection)
+      );
+    }
     return ops.equals(this.selection, array.selection);
   }
 
@@ -842,6 +1529,10 @@ export class NdArray {
       copy = true;
     }
     const arr = copy ? this.clone() : this;
+    if (isComplexData(arr.selection.data)) {
+      complexParts(arr.selection).forEach((part) => ops.roundeq(part));
+      return arr;
+    }
     ops.roundeq(arr.selection);
     return arr;
   }
@@ -851,10 +1542,25 @@ export class NdArray {
    */
   negative(): NdArray {
     const c = this.clone();
+    if (isComplexData(c.selection.data)) {
+      complexParts(c.selection).forEach((part) => ops.negeq(part));
+      return c;
+    }
     ops.neg(c.selection, this.selection);
     return c;
   }
 
+  /**
+   * Return the complex conjugate of the array, element-wise: a copy of the array if it is not complex.
+   */
+  conj(): NdArray {
+    const c = this.clone();
+    if (isComplexData(c.selection.data)) {
+      ops.negeq(complexParts(c.selection)[1]);
+    }
+    return c;
+  }
+
   diag(): NdArray {
     const d = this.ndim;
     if (d === 1) {
@@ -884,6 +1590,48 @@ export class NdArray {
     );
   }
 
+  /**
+   * Return the sum along diagonals of the array.
+   *
+   * @param offset offset of the diagonal from the main diagonal, positive for diagonals above it
+   * @param axis1 first axis of the 2-D subarrays whose diagonals are summed
+   * @param axis2 second axis of the 2-D subarrays whose diagonals are summed
+   * @returns a number (a `{re, im}` object for complex arrays) for 2-D arrays, otherwise an array of the sums over the
+   * remaining axes
+   */
+  trace(offset = 0, axis1 = 0, axis2 = 1): number | Complex | NdArray {
+    const d = this.ndim;
+    if (d < 2) {
+      throw new errors.ValueError(
+        "diag requires an array of at least two dimensions"
+      );
+    }
+    normalizeAxes([axis1, axis2], d);
+    const a1 = axis1 < 0 ? axis1 + d : axis1;
+    const a2 = axis2 < 0 ? axis2 + d : axis2;
+    const shape = [];
+    const stride = [];
+    for (let i = 0; i < d; i++) {
+      if (i !== a1 && i !== a2) {
+        shape.push(this.shape[i]);
+        stride.push(this.selection.stride[i]);
+      }
+    }
+    const [n1, n2] = [this.shape[a1], this.shape[a2]];
+    const [s1, s2] = [this.selection.stride[a1], this.selection.stride[a2]];
+    shape.push(
+      Math.max(0, Math.min(n1 - Math.max(0, -offset), n2 - Math.max(0, offset)))
+    );
+    stride.push(s1 + s2);
+    const diagonal = new NdArray(
+      this.selection.data as OneDimNumArray,
+      shape,
+      stride,
+      this.selection.offset + (offset >= 0 ? offset * s2 : -offset * s1)
+    );
+    return d === 2 ? diagonal.sum() : diagonal.sum({ axis: -1 });
+  }
+
   iteraxis(axis: number, cb: (xi: NdArray, i: number) => void) {
     const shape = this.shape;
     if (axis === -1) {
@@ -906,174 +1654,82 @@ export class NdArray {
   /**
    * Returns the discrete, linear convolution of the array using the given filter.
    *
-   * @note: Arrays must have the same dimensions and `filter` must be smaller than the array.
-   * @note: The convolution product is only given for points where the signals overlap completely. Values outside the signal boundary have no effect. This behaviour is known as the 'valid' mode.
-   * @note: Use optimized code for 3x3, 3x3x1, 5x5, 5x5x1 filters, FFT otherwise.
+   * @note: Arrays must have the same dimensions. In 'valid' mode, `filter` must be smaller than the array.
+   * @note: By default, the convolution product is only given for points where the signals overlap completely. Values outside the signal boundary have no effect. This behaviour is known as the 'valid' mode, see {@link ConvolveOptions} for the others.
+   * @note: The product is computed directly, one axis at a time for separable filters and as a matrix product (im2col + gemm) for large filters, or with FFT when it is estimated to be faster and the output dtype is not an integer one.
    */
-  convolve(filter: ArbDimNumArray | NdArray): NdArray {
+  convolve(
+    filter: ArbDimNumArray | NdArray,
+    options: ConvolveOptions = {}
+  ): NdArray {
     filter = NdArray.new(filter);
-    const ndim = this.ndim;
-    if (ndim !== filter.ndim) {
+    checkRealData("convolve", this.selection.data, filter.selection.data);
+    if (this.ndim !== filter.ndim) {
       throw new errors.ValueError("arrays must have the same dimensions");
     }
-    const outShape = new Array(ndim);
-    const step = new Array(ndim);
-    const ts = this.selection;
-    const tShape = this.shape;
-    const fs = filter.selection;
-    const fShape = filter.shape;
-
-    for (let i = 0; i < ndim; i++) {
-      const l = tShape[i] - fShape[i] + 1;
-      if (l < 0) {
-        throw new errors.ValueError("filter cannot be greater than the array");
-      }
-      outShape[i] = l;
-      step[i] = -1;
-    }
-
-    if (ndim === 2 && fShape[0] === 3 && fShape[1] === 3) {
-      const out3x3 = new NdArray(new Float32Array(_.shapeSize(tShape)), tShape);
-      doConvolve3x3(
-        out3x3.selection, // c
-        ts, // x
-        fs.get(0, 0), // fa
-        fs.get(0, 1), // fb
-        fs.get(0, 2), // fc
-        fs.get(1, 0), // fd
-        fs.get(1, 1), // fe
-        fs.get(1, 2), // ff
-        fs.get(2, 0), // fg
-        fs.get(2, 1), // fh
-        fs.get(2, 2) // fi
-      );
-      return out3x3.lo(1, 1).hi(outShape[0], outShape[1]);
-    } else if (
-      ndim === 3 &&
-      fShape[2] === 1 &&
-      tShape[2] === 1 &&
-      fShape[0] === 3 &&
-      fShape[1] === 3
-    ) {
-      const out3x3x1 = new NdArray(
-        new Float32Array(_.shapeSize(tShape)),
-        tShape
-      );
-      doConvolve3x3(
-        out3x3x1.selection.pick(null, null, 0), // c
-        ts.pick(null, null, 0), // x
-        fs.get(0, 0, 0), // fa
-        fs.get(0, 1, 0), // fb
-        fs.get(0, 2, 0), // fc
-        fs.get(1, 0, 0), // fd
-        fs.get(1, 1, 0), // fe
-        fs.get(1, 2, 0), // ff
-        fs.get(2, 0, 0), // fg
-        fs.get(2, 1, 0), // fh
-        fs.get(2, 2, 0) // fi
-      );
-      return out3x3x1.lo(1, 1).hi(outShape[0], outShape[1]);
-    } else if (ndim === 2 && fShape[0] === 5 && fShape[1] === 5) {
-      const out5x5 = new NdArray(new Float32Array(_.shapeSize(tShape)), tShape);
-      doConvolve5x5(
-        out5x5.selection, // c
-        ts, // x
-        fs.get(0, 0), // fa
-        fs.get(0, 1), // fb
-        fs.get(0, 2), // fc
-        fs.get(0, 3), // fd
-        fs.get(0, 4), // fe
-        fs.get(1, 0), // ff
-        fs.get(1, 1), // fg
-        fs.get(1, 2), // fh
-        fs.get(1, 3), // fi
-        fs.get(1, 4), // fj
-        fs.get(2, 0), // fk
-        fs.get(2, 1), // fl
-        fs.get(2, 2), // fm
-        fs.get(2, 3), // fn
-        fs.get(2, 4), // fo
-        fs.get(3, 0), // fp
-        fs.get(3, 1), // fq
-        fs.get(3, 2), // fr
-        fs.get(3, 3), // fs
-        fs.get(3, 4), // ft
-        fs.get(4, 0), // fu
-        fs.get(4, 1), // fv
-        fs.get(4, 2), // fw
-        fs.get(4, 3), // fx
-        fs.get(4, 4) // fy
-      );
-      return out5x5.lo(2, 2).hi(outShape[0], outShape[1]);
-    } else if (
-      ndim === 3 &&
-      fShape[2] === 1 &&
-      tShape[2] === 1 &&
-      fShape[0] === 5 &&
-      fShape[1] === 5
-    ) {
-      const out5x5x1 = new NdArray(
-        new Float32Array(_.shapeSize(tShape)),
-        tShape
-      );
-      doConvolve5x5(
-        out5x5x1.selection, // c
-        ts, // x
-        fs.get(0, 0, 0), // fa
-        fs.get(0, 1, 0), // fb
-        fs.get(0, 2, 0), // fc
-        fs.get(0, 3, 0), // fd
-        fs.get(0, 4, 0), // fe
-        fs.get(1, 0, 0), // ff
-        fs.get(1, 1, 0), // fg
-        fs.get(1, 2, 0), // fh
-        fs.get(1, 3, 0), // fi
-        fs.get(1, 4, 0), // fj
-        fs.get(2, 0, 0), // fk
-        fs.get(2, 1, 0), // fl
-        fs.get(2, 2, 0), // fm
-        fs.get(2, 3, 0), // fn
-        fs.get(2, 4, 0), // fo
-        fs.get(3, 0, 0), // fp
-        fs.get(3, 1, 0), // fq
-        fs.get(3, 2, 0), // fr
-        fs.get(3, 3, 0), // fs
-        fs.get(3, 4, 0), // ft
-        fs.get(4, 0, 0), // fu
-        fs.get(4, 1, 0), // fv
-        fs.get(4, 2, 0), // fw
-        fs.get(4, 3, 0), // fx
-        fs.get(4, 4, 0) // fy
-      );
-      return out5x5x1.lo(2, 2).hi(outShape[0], outShape[1]);
-    } else {
-      return this.fftconvolve(filter);
+    const arr = padForConvolution(this, filter.shape, options);
+    const outShape = convolutionShape(arr.shape, filter.shape);
+    const T = _.getType(options.dtype || this.dtype);
+    const kernels = separableKernels(filter) || [filter];
+
+    // number of multiply-adds of the direct computation
+    let cost = 0;
+    let shape = arr.shape;
+    kernels.forEach(function (kernel) {
+      shape = convolutionShape(shape, kernel.shape);
+      cost += _.shapeSize(shape) * kernel.size;
+    });
+    // FFT rounding errors could change integer results, which are always computed directly
+    if (!/Int/.test(T.name) && cost > fftCost(arr.shape)) {
+      return arr.fftconvolve(filter, { dtype: T });
     }
+
+    let x = arr.selection;
+    kernels.forEach(function (kernel) {
+      const size = _.shapeSize(convolutionShape(x.shape, kernel.shape));
+      x =
+        kernel.size >= GEMM_MIN_FILTER_SIZE &&
+        size * kernel.size <= GEMM_MAX_BUFFER_SIZE
+          ? gemmConvolve(x, kernel.selection)
+          : directConvolve(x, kernel.selection);
+    });
+    const out = new NdArray(new T(_.shapeSize(outShape)), outShape);
+    assignConvolution(out.selection, x);
+    return out;
   }
 
-  fftconvolve(filter: ArbDimNumArray | NdArray): NdArray {
+  /**
+   * Returns the discrete, linear convolution of the array using the given filter, computed with Fast Fourier
+   * Transform (FFT).
+   *
+   * @note: Arrays must have the same dimensions. In 'valid' mode, `filter` must be smaller than the array.
+   */
+  fftconvolve(
+    filter: ArbDimNumArray | NdArray,
+    options: ConvolveOptions = {}
+  ): NdArray {
     filter = NdArray.new(filter);
+    checkRealData("fftconvolve", this.selection.data, filter.selection.data);
 
     if (this.ndim !== filter.ndim) {
       throw new errors.ValueError("arrays must have the same dimensions");
     }
 
-    const as = this.selection;
+    const as = padForConvolution(this, filter.shape, options).selection;
     const bs = filter.selection;
     const d = this.ndim;
     let nsize = 1;
     const nstride = new Array(d);
     const nshape = new Array(d);
-    const oshape = new Array(d);
     let i;
     for (i = d - 1; i >= 0; --i) {
       nshape[i] = as.shape[i];
       nstride[i] = nsize;
       nsize *= nshape[i];
-      oshape[i] = as.shape[i] - bs.shape[i] + 1;
     }
+    const oshape = convolutionShape(as.shape, bs.shape);
 
-    const T = _.getType(as.dtype);
+    const T = _.getType(options.dtype || this.dtype);
     const out = new NdArray(new T(_.shapeSize(oshape)), oshape);
     const outs = out.selection;
 
@@ -1121,7 +1777,7 @@ export class NdArray {
     }
     croppedX = x.lo.apply(x, outOffset);
     croppedX = croppedX.hi.apply(croppedX, outShape);
-    ops.assign(outs.hi.apply(outs, outShape), croppedX);
+    assignConvolution(outs.hi.apply(outs, outShape), croppedX);
 
     ndPool.freeDouble(xT);
     ndPool.freeDouble(yT);
@@ -1131,7 +1787,7 @@ export class NdArray {
   }
 
   static new(
-    arr: NdArray | ArbDimNumArray | number | TypedArray,
+    arr: NdArray | ArbDimComplexArray | number | Complex | TypedArray,
     dtype?: DType | ArrayLikeConstructor
   ): NdArray {
     return createArray(arr, dtype);
@@ -1153,207 +1809,923 @@ const doConjMuleq = cwise({
 });
 
 /* istanbul ignore next */
-const doConvolve3x3 = cwise({
-  args: [
-    "array", // c
-    "array", // xe
-    "scalar", // fa
-    "scalar", // fb
-    "scalar", // fc
-    "scalar", // fd
-    "scalar", // fe
-    "scalar", // ff
-    "scalar", // fg
-    "scalar", // fh
-    "scalar", // fi
-    { offset: [-1, -1], array: 1 }, // xa
-    { offset: [-1, 0], array: 1 }, // xb
-    { offset: [-1, 1], array: 1 }, // xc
-    { offset: [0, -1], array: 1 }, // xd
-    // {offset:[ 9,  0], array:1}, // useless since available already
-    { offset: [0, 1], array: 1 }, // xf
-    { offset: [1, -1], array: 1 }, // xg
-    { offset: [1, 0], array: 1 }, // xh
-    { offset: [1, 1], array: 1 }, // xi
-  ],
-  body: function (
-    c,
-    xe,
-    fa,
-    fb,
-    fc,
-    fd,
-    fe,
-    ff,
-    fg,
-    fh,
-    fi,
-    xa,
-    xb,
-    xc,
-    xd,
-    xf,
-    xg,
-    xh,
-    xi
-  ) {
-    c =
-      xa * fi +
-      xb * fh +
-      xc * fg +
-      xd * ff +
-      xe * fe +
-      xf * fd +
-      xg * fc +
-      xh * fb +
-      xi * fa;
+const doComplexMuleq = cwise({
+  args: ["array", "array", "array", "array"],
+  body: function (xr, xi, yr, yi) {
+    const re = xr * yr - xi * yi;
+    xi = xr * yi + xi * yr;
+    xr = re;
   },
 });
 
 /* istanbul ignore next */
-const doConvolve5x5 = cwise({
-  args: [
-    "index",
-    "array", // c
-    "array", // xm
-    "scalar", // fa
-    "scalar", // fb
-    "scalar", // fc
-    "scalar", // fd
-    "scalar", // fe
-    "scalar", // ff
-    "scalar", // fg
-    "scalar", // fh
-    "scalar", // fi
-    "scalar", // fj
-    "scalar", // fk
-    "scalar", // fl
-    "scalar", // fm
-    "scalar", // fn
-    "scalar", // fo
-    "scalar", // fp
-    "scalar", // fq
-    "scalar", // fr
-    "scalar", // fs
-    "scalar", // ft
-    "scalar", // fu
-    "scalar", // fv
-    "scalar", // fw
-    "scalar", // fx
-    "scalar", // fy
-    { offset: [-2, -2], array: 1 }, // xa
-    { offset: [-2, -1], array: 1 }, // xb
-    { offset: [-2, 0], array: 1 }, // xc
-    { offset: [-2, 1], array: 1 }, // xd
-    { offset: [-2, 2], array: 1 }, // xe
-    { offset: [-1, -2], array: 1 }, // xf
-    { offset: [-1, -1], array: 1 }, // xg
-    { offset: [-1, 0], array: 1 }, // xh
-    { offset: [-1, 1], array: 1 }, // xi
-    { offset: [-1, 2], array: 1 }, // xj
-    { offset: [0, -2], array: 1 }, // xk
-    { offset: [0, -1], array: 1 }, // xl
-    // {offset:[ 0,  0], array:1},
-    { offset: [0, 1], array: 1 }, // xn
-    { offset: [0, 2], array: 1 }, // xo
-    { offset: [1, -2], array: 1 }, // xp
-    { offset: [1, -1], array: 1 }, // xq
-    { offset: [1, 0], array: 1 }, // xr
-    { offset: [1, 1], array: 1 }, // xs
-    { offset: [1, 2], array: 1 }, // xt
-    { offset: [2, -2], array: 1 }, // xu
-    { offset: [2, -1], array: 1 }, // xv
-    { offset: [2, 0], array: 1 }, // xw
-    { offset: [2, 1], array: 1 }, // xx
-    { offset: [2, 2], array: 1 }, // xy
-  ],
-  body: function (
-    index,
-    c,
-    xm,
-    fa,
-    fb,
-    fc,
-    fd,
-    fe,
-    ff,
-    fg,
-    fh,
-    fi,
-    fj,
-    fk,
-    fl,
-    fm,
-    fn,
-    fo,
-    fp,
-    fq,
-    fr,
-    fs,
-    ft,
-    fu,
-    fv,
-    fw,
-    fx,
-    fy,
-    xa,
-    xb,
-    xc,
-    xd,
-    xe,
-    xf,
-    xg,
-    xh,
-    xi,
-    xj,
-    xk,
-    xl,
-    xn,
-    xo,
-    xp,
-    xq,
-    xr,
-    xs,
-    xt,
-    xu,
-    xv,
-    xw,
-    xx,
-    xy
-  ) {
-    c =
-      index[0] < 2 || index[1] < 2
-        ? 0
-        : xa * fy +
-          xb * fx +
-          xc * fw +
-          xd * fv +
-          xe * fu +
-          xf * ft +
-          xg * fs +
-          xh * fr +
-          xi * fq +
-          xj * fp +
-          xk * fo +
-          xl * fn +
-          xm * fm +
-          xn * fl +
-          xo * fk +
-          xp * fj +
-          xq * fi +
-          xr * fh +
-          xs * fg +
-          xt * ff +
-          xu * fe +
-          xv * fd +
-          xw * fc +
-          xx * fb +
-          xy * fa;
+const doComplexDiveq = cwise({
+  args: ["array", "array", "array", "array"],
+  body: function (xr, xi, yr, yi) {
+    // Smith's algorithm, to avoid overflows
+    let r, d, re;
+    if (Math.abs(yr) >= Math.abs(yi)) {
+      r = yi / yr;
+      d = yr + yi * r;
+      re = (xr + xi * r) / d;
+      xi = (xi - xr * r) / d;
+    } else {
+      r = yr / yi;
+      d = yr * r + yi;
+      re = (xr * r + xi) / d;
+      xi = (xi * r - xr) / d;
+    }
+    xr = re;
   },
 });
 
+/* istanbul ignore next */
+const doMuladdeq = cwise({
+  args: ["array", "array", "scalar"],
+  body: function (a, x, w) {
+    a += w * x;
+  },
+});
+
+/**
+ * Prepare the operands of an element-wise binary operation following NumPy broadcasting rules.
+ *
+ * @returns the array receiving the result (`arr` itself when `copy` is false, a new array otherwise) and a view of `x`, both having the broadcast shape
+ */
+function broadcastOperands(
+  arr: NdArray,
+  x: NdArray,
+  copy: boolean
+): [NdArray, NdArray] {
+  const shape = _.broadcastShapes(arr.shape, x.shape);
+  if (!shape) {
+    throw new errors.ValueError(
+      "operands could not be broadcast together with shapes " +
+        _.formatShape(arr.shape) +
+        " " +
+        _.formatShape(x.shape)
+    );
+  }
+  if (_.haveSameShape(shape, arr.shape)) {
+    return [copy ? arr.clone() : arr, x.broadcastTo(shape)];
+  }
+  if (!copy) {
+    throw new errors.ValueError(
+      "non-broadcastable output operand with shape " +
+        _.formatShape(arr.shape) +
+        " doesn't match the broadcast shape " +
+        _.formatShape(shape)
+    );
+  }
+  const T = _.getType(arr.dtype);
+  const out = new NdArray(new T(_.shapeSize(shape)), shape);
+  ops.assign(out.selection, arr.broadcastTo(shape).selection);
+  return [out, x.broadcastTo(shape)];
+}
+
+function isComplexType(T: ArrayLikeConstructor) {
+  return T === Complex64Array || T === Complex128Array;
+}
+
+/**
+ * Return true if the operand is a complex number, a complex array or a (nested) list of numbers holding complex ones.
+ */
+function isComplexOperand(x: NdArray | ArbDimComplexArray | number | Complex) {
+  if (x instanceof NdArray) {
+    return isComplexData(x.selection.data);
+  }
+  if (x instanceof Array) {
+    return _.flatten(x, true).some(isComplexValue);
+  }
+  return isComplexValue(x);
+}
+
+/**
+ * Return views of the real and imaginary parts of a complex array.
+ */
+function complexParts(s: BaseNdArray): [BaseNdArray, BaseNdArray] {
+  const buffer = (s.data as unknown as ComplexTypedArray).buffer;
+  const stride = s.stride.map((k) => 2 * k);
+  return [
+    ndarray(buffer, s.shape, stride, 2 * s.offset),
+    ndarray(buffer, s.shape, stride, 2 * s.offset + 1),
+  ];
+}
+
+/**
+ * Element-wise arithmetic where at least one of the operands is complex.
+ *
+ * The result keeps the dtype of `arr` if it is complex, otherwise `arr` is promoted to `complex64` (if it is a
+ * `float32` array and `x` is `complex64`) or `complex128`, which is only possible when `copy` is true.
+ */
+function complexArithmetic(
+  op: "add" | "subtract" | "multiply" | "divide",
+  arr: NdArray,
+  x: NdArray | ArbDimComplexArray | number | Complex,
+  copy: boolean
+): NdArray {
+  const y = createArray(x);
+  if (!isComplexData(arr.selection.data)) {
+    const dtype =
+      arr.dtype === "float32" && y.dtype === "complex64"
+        ? "complex64"
+        : "complex128";
+    if (!copy) {
+      throw new errors.ValueError(
+        "Cannot cast ufunc '" +
+          op +
+          "' output from dtype('" +
+          dtype +
+          "') to dtype('" +
+          arr.dtype +
+          "') with casting rule 'same_kind'"
+      );
+    }
+    // allocate the promoted array with the broadcast shape, so it can receive the result
+    const shape = _.broadcastShapes(arr.shape, y.shape) || arr.shape;
+    const promoted = new NdArray(
+      new (_.getType(dtype))(_.shapeSize(shape)),
+      shape
+    );
+    ops.assign(
+      complexParts(promoted.selection)[0],
+      arr.broadcastTo(shape).selection
+    );
+    arr = promoted;
+    copy = false;
+  }
+  const [out, other] = broadcastOperands(arr, y, copy);
+  const [re, im] = complexParts(out.selection);
+  if (isComplexData(other.selection.data)) {
+    const [otherRe, otherIm] = complexParts(other.selection);
+    switch (op) {
+      case "add":
+        ops.addeq(re, otherRe);
+        ops.addeq(im, otherIm);
+        break;
+      case "subtract":
+        ops.subeq(re, otherRe);
+        ops.subeq(im, otherIm);
+        break;
+      case "multiply":
+        doComplexMuleq(re, im, otherRe, otherIm);
+        break;
+      case "divide":
+        doComplexDiveq(re, im, otherRe, otherIm);
+        break;
+    }
+  } else {
+    switch (op) {
+      case "add":
+        ops.addeq(re, other.selection);
+        break;
+      case "subtract":
+        ops.subeq(re, other.selection);
+        break;
+      case "multiply":
+        ops.muleq(re, other.selection);
+        ops.muleq(im, other.selection);
+        break;
+      case "divide":
+        ops.diveq(re, other.selection);
+        ops.diveq(im, other.selection);
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Pad the array as required by the mode of a convolution with a filter of the given shape, so that the 'valid'
+ * convolution of the result gives the expected output.
+ */
+function padForConvolution(
+  arr: NdArray,
+  filterShape: number[],
+  options: ConvolveOptions = {}
+): NdArray {
+  const mode = options.mode ?? "valid";
+  const boundary = options.boundary ?? "fill";
+  if (["full", "same", "valid"].indexOf(mode) === -1) {
+    throw new errors.ValueError(
+      "acceptable mode flags are 'valid', 'same', or 'full'"
+    );
+  }
+  if (["fill", "wrap", "symmetric", "reflect"].indexOf(boundary) === -1) {
+    throw new errors.ValueError(
+      "acceptable boundary flags are 'fill', 'wrap', 'symmetric', or 'reflect'"
+    );
+  }
+  if (mode === "valid") {
+    return arr;
+  }
+  // "same" keeps the part of the "full" output starting at (k - 1) // 2
+  const before = filterShape.map((k) => (mode === "full" ? k - 1 : k >> 1));
+  const after = filterShape.map((k) =>
+    mode === "full" ? k - 1 : (k - 1) >> 1
+  );
+  return padArray(arr, before, after, boundary, options.fillvalue ?? 0);
+}
+
+/**
+ * Return the shape of the 'valid' convolution of arrays of the given shapes.
+ */
+function convolutionShape(shape: number[], filterShape: number[]): number[] {
+  return shape.map(function (n, i) {
+    const l = n - filterShape[i] + 1;
+    if (l < 1) {
+      throw new errors.ValueError("filter cannot be greater than the array");
+    }
+    return l;
+  });
+}
+
+/**
+ * If the filter is the outer product of vectors, i.e. `filter[i, j, ...] = u[i] * v[j] * ...`, return these vectors
+ * as filters spanning a single axis, such that convolving with each of them in turn is equivalent to convolving with
+ * the whole filter. Return null otherwise, or if the filter spans less than two axes.
+ */
+function separableKernels(filter: NdArray): NdArray[] | null {
+  const fs = filter.selection;
+  const shape = filter.shape;
+  const axes = shape
+    .map((n, axis) => (n > 1 ? axis : -1))
+    .filter((axis) => axis >= 0);
+  if (axes.length < 2 || isComplexData(fs.data)) {
+    return null;
+  }
+  // the vectors are the lines of the filter crossing at its largest item
+  let pivot = [];
+  let max = 0;
+  forEachIndex(shape, function (index) {
+    const v = Math.abs(fs.get(...index));
+    if (v > max) {
+      max = v;
+      pivot = index.slice();
+    }
+  });
+  if (max === 0) {
+    return null;
+  }
+  const p = fs.get(...pivot);
+  const lines = shape.map(function (n, axis) {
+    return Array.from(Array(n).keys()).map(function (i) {
+      const index = pivot.slice();
+      index[axis] = i;
+      return fs.get(...index) / p;
+    });
+  });
+  let separable = true;
+  forEachIndex(shape, function (index) {
+    const v = index.reduce((prod, i, axis) => prod * lines[axis][i], p);
+    separable = separable && Math.abs(v - fs.get(...index)) <= 1e-12 * max;
+  });
+  if (!separable) {
+    return null;
+  }
+  return axes.map(function (axis, k) {
+    const kernelShape = shape.map((n, i) => (i === axis ? n : 1));
+    const values = k === 0 ? lines[axis].map((v) => v * p) : lines[axis];
+    return new NdArray(new Float64Array(values), kernelShape);
+  });
+}
+
+/**
+ * Rough cost of `fftconvolve` on an array of the given shape, in multiply-adds of the direct convolution (which take
+ * about as long as a butterfly): each of the three N-D transforms costs `n log2(n)` butterflies along each axis of
+ * size `n`, and axes whose size is not a power of two are transformed with Bluestein's algorithm, i.e. three
+ * transforms of a power of two above `2n - 1`.
+ */
+function fftCost(shape: number[]): number {
+  const size = _.shapeSize(shape);
+  let cost = 0;
+  shape.forEach(function (n) {
+    let m = n;
+    let k = 1;
+    if (n & (n - 1)) {
+      m = Math.pow(2, Math.ceil(Math.log2(2 * n - 1)));
+      k = 3;
+    }
+    cost += (size / n) * k * m * Math.log2(m);
+  });
+  return 3 * cost;
+}
+
+/**
+ * Compute the 'valid' convolution of `x` with `filter` as a sum of shifted views of `x`, in double precision.
+ */
+function directConvolve(x: BaseNdArray, filter: BaseNdArray): BaseNdArray {
+  const shape = convolutionShape(x.shape, filter.shape);
+  const out = ndarray(new Float64Array(_.shapeSize(shape)), shape);
+  forEachIndex(filter.shape, function (index) {
+    const w = filter.get(...index);
+    if (w !== 0) {
+      // out[i] += filter[j] * x[i + (k - 1) - j]
+      const view = x.lo(...index.map((j, i) => filter.shape[i] - 1 - j));
+      doMuladdeq(out, view.hi(...shape), w);
+    }
+  });
+  return out;
+}
+
+/**
+ * Filters of at least this many items are convolved with `gemmConvolve`, as long as its matrix holds at most
+ * `GEMM_MAX_BUFFER_SIZE` items.
+ */
+const GEMM_MIN_FILTER_SIZE = 64;
+const GEMM_MAX_BUFFER_SIZE = 1 << 22;
+
+/**
+ * Compute the 'valid' convolution of `x` with `filter` as a matrix product (im2col + gemm), in double precision: each
+ * row of the matrix holds the items of `x` under the flipped filter at one output position.
+ */
+function gemmConvolve(x: BaseNdArray, filter: BaseNdArray): BaseNdArray {
+  const shape = convolutionShape(x.shape, filter.shape);
+  const size = _.shapeSize(shape);
+  const cols = ndarray(new Float64Array(size * filter.size), [
+    size,
+    filter.size,
+  ]);
+  const weights = ndarray(new Float64Array(filter.size), [filter.size, 1]);
+  const stride = ndarray(cols.data, shape).stride.map((s) => s * filter.size);
+  forEachIndex(filter.shape, function (index, k) {
+    weights.set(k, 0, filter.get(...index));
+    // cols[i, k] = x[i + (n - 1) - index]
+    const view = x.lo(...index.map((j, i) => filter.shape[i] - 1 - j));
+    ops.assign(ndarray(cols.data, shape, stride, k), view.hi(...shape));
+  });
+  const out = ndarray(new Float64Array(size), [size, 1]);
+  gemm(out, cols, weights);
+  return ndarray(out.data, shape);
+}
+
+/**
+ * Store a convolution product computed in double precision, rounding it to the nearest integer for integer dtypes.
+ */
+function assignConvolution(out: BaseNdArray, x: BaseNdArray) {
+  if (/int/.test(out.dtype)) {
+    ops.round(out, x);
+  } else {
+    ops.assign(out, x);
+  }
+}
+
+/**
+ * Return a copy of the array extended by `before[i]` and `after[i]` items along each axis `i`, following `boundary`.
+ */
+function padArray(
+  arr: NdArray,
+  before: number[],
+  after: number[],
+  boundary: ConvolveOptions["boundary"],
+  fillvalue: number
+): NdArray {
+  let src = arr.selection;
+  for (let axis = 0; axis < arr.ndim; axis++) {
+    const n = src.shape[axis];
+    if (!before[axis] && !after[axis]) {
+      continue;
+    }
+    const shape = src.shape.slice();
+    shape[axis] = n + before[axis] + after[axis];
+    const T = _.getType(arr.dtype);
+    const dst = ndarray(new T(_.shapeSize(shape)), shape);
+    ops.assign(_.axisRange(dst, axis, before[axis], before[axis] + n), src);
+    for (let i = 0; i < shape[axis]; i++) {
+      if (i >= before[axis] && i < before[axis] + n) {
+        continue; // already copied
+      }
+      const j = boundaryIndex(i - before[axis], n, boundary);
+      if (j === -1) {
+        ops.assigns(_.axisRange(dst, axis, i, i + 1), fillvalue);
+      } else {
+        ops.assign(
+          _.axisRange(dst, axis, i, i + 1),
+          _.axisRange(src, axis, j, j + 1)
+        );
+      }
+    }
+    src = dst;
+  }
+  return new NdArray(src);
+}
+
+/**
+ * Map an index outside of [0, n) to the index of the item it repeats, or -1 for the "fill" boundary.
+ */
+function boundaryIndex(
+  i: number,
+  n: number,
+  boundary: ConvolveOptions["boundary"]
+): number {
+  switch (boundary) {
+    case "wrap":
+      return ((i % n) + n) % n;
+    case "symmetric": {
+      const k = ((i % (2 * n)) + 2 * n) % (2 * n);
+      return k < n ? k : 2 * n - 1 - k;
+    }
+    case "reflect": {
+      if (n === 1) {
+        return 0;
+      }
+      const period = 2 * n - 2;
+      const k = ((i % period) + period) % period;
+      return k < n ? k : period - k;
+    }
+    default:
+      return -1;
+  }
+}
+
+function isAxisReduction(options?: ReduceOptions) {
+  return !!options && (options.axis != null || !!options.keepdims);
+}
+
+/**
+ * Container used for the results of sums and averages: typed arrays are promoted to float64 to avoid overflows.
+ */
+function reductionType(dtype) {
+  return dtype === "array" ? Array : Float64Array;
+}
+
+/**
+ * Normalize `axis` into a sorted list of distinct, non-negative axes.
+ */
+function normalizeAxes(axis: number | number[], ndim: number): number[] {
+  const axes = _.isNumber(axis) ? [axis as number] : (axis as number[]);
+  const result = [];
+  for (let i = 0; i < axes.length; i++) {
+    const ax = axes[i] < 0 ? axes[i] + ndim : axes[i];
+    if (ax < 0 || ax >= ndim) {
+      throw new errors.ValueError(
+        "axis " + axes[i] + " is out of bounds for array of dimension " + ndim
+      );
+    }
+    if (result.indexOf(ax) !== -1) {
+      throw new errors.ValueError("duplicate value in 'axis'");
+    }
+    result.push(ax);
+  }
+  return result.sort((x, y) => x - y);
+}
+
+interface SliceItem {
+  type: "slice";
+  start: number | null;
+  stop: number | null;
+  step: number | null;
+}
+
+type IndexItem =
+  | SliceItem
+  | { type: "index"; value: number }
+  | { type: "ellipsis" }
+  | { type: "newaxis" };
+
+const INTEGER = "\\s*(-?\\d+)?\\s*";
+const SLICE_REGEX = new RegExp(
+  "^" + INTEGER + ":" + INTEGER + "(?::" + INTEGER + ")?$"
+);
+const INDEX_REGEX = /^\s*(-?\d+)\s*$/;
+
+function parseBound(s?: string): number | null {
+  return s === undefined ? null : parseInt(s, 10);
+}
+
+/**
+ * Parse a NumPy-like index string such as `"1:3, ::-1, ..., None"`.
+ */
+function parseIndex(index: string): IndexItem[] {
+  if (index.trim() === "") {
+    return [];
+  }
+  return index.split(",").map(function (item): IndexItem {
+    const trimmed = item.trim();
+    if (trimmed === "..." || trimmed === "\u2026") {
+      return { type: "ellipsis" };
+    }
+    if (trimmed === "None" || trimmed === "newaxis") {
+      return { type: "newaxis" };
+    }
+    let match = INDEX_REGEX.exec(trimmed);
+    if (match) {
+      return { type: "index", value: parseInt(match[1], 10) };
+    }
+    match = SLICE_REGEX.exec(trimmed);
+    if (match) {
+      return {
+        type: "slice",
+        start: parseBound(match[1]),
+        stop: parseBound(match[2]),
+        step: parseBound(match[3]),
+      };
+    }
+    throw new errors.ValueError("invalid index: '" + item + "'");
+  });
+}
+
+/**
+ * Convert an argument of `NdArray.slice` into a slice item.
+ */
+function sliceArgument(arg: number | number[] | null): SliceItem {
+  if (arg == null) {
+    return { type: "slice", start: null, stop: null, step: null };
+  }
+  if (_.isNumber(arg)) {
+    return { type: "slice", start: arg as number, stop: null, step: null };
+  }
+  arg = arg as number[];
+  if (arg.length === 1) {
+    return { type: "slice", start: null, stop: arg[0], step: null };
+  }
+  if (arg.length === 4 && arg[1] === null && arg[2] === null) {
+    // legacy pattern for a[start::step]
+    return { type: "slice", start: arg[0], stop: null, step: arg[3] };
+  }
+  return {
+    type: "slice",
+    start: arg[0] ?? null,
+    stop: arg[1] ?? null,
+    step: arg[2] ?? null,
+  };
+}
+
+/**
+ * Compute the `lo`, `hi` and `step` arguments equivalent to `start:stop:step` on an axis of the given size,
+ * following Python rules: omitted bounds depend on the sign of the step and out-of-range bounds are clipped.
+ */
+function resolveSlice(item: SliceItem, size: number): number[] {
+  const step = item.step === null ? 1 : item.step;
+  if (step === 0) {
+    throw new errors.ValueError("slice step cannot be zero");
+  }
+  const lower = step < 0 ? -1 : 0;
+  const upper = step < 0 ? size - 1 : size;
+  function clip(bound: number | null, defaultValue: number) {
+    if (bound === null) {
+      return defaultValue;
+    }
+    if (bound < 0) {
+      bound += size;
+    }
+    return Math.min(Math.max(bound, lower), upper);
+  }
+  const start = clip(item.start, step < 0 ? upper : lower);
+  const stop = clip(item.stop, step < 0 ? lower : upper);
+  const count =
+    step < 0
+      ? Math.ceil((start - stop) / -step)
+      : Math.ceil((stop - start) / step);
+  if (count <= 0) {
+    return [0, 0, 1];
+  }
+  const last = start + (count - 1) * step;
+  return [Math.min(start, last), Math.abs(last - start) + 1, step];
+}
+
+/**
+ * Build the view of `arr` described by parsed index items, using `lo`, `hi`, `step` and `pick`.
+ * New axes are then inserted with a zero stride.
+ */
+function indexView(arr: NdArray, items: IndexItem[]): BaseNdArray {
+  const d = arr.ndim;
+  const ellipses = items.filter((item) => item.type === "ellipsis").length;
+  if (ellipses > 1) {
+    throw new errors.IndexError(
+      "an index can only have a single ellipsis ('...')"
+    );
+  }
+  const consumed = items.filter(
+    (item) => item.type === "slice" || item.type === "index"
+  ).length;
+  if (consumed > d) {
+    throw new errors.IndexError(
+      "too many indices for array: array is " +
+        d +
+        "-dimensional, but " +
+        consumed +
+        " were indexed"
+    );
+  }
+  const full: IndexItem = {
+    type: "slice",
+    start: null,
+    stop: null,
+    step: null,
+  };
+  const expanded: IndexItem[] = [];
+  items.forEach(function (item) {
+    if (item.type === "ellipsis") {
+      for (let i = 0; i < d - consumed; i++) {
+        expanded.push(full);
+      }
+    } else {
+      expanded.push(item);
+    }
+  });
+  if (!ellipses) {
+    for (let i = consumed; i < d; i++) {
+      expanded.push(full);
+    }
+  }
+
+  const lo = new Array(d);
+  const hi = new Array(d);
+  const step = new Array(d);
+  const picks = new Array(d).fill(null);
+  const newAxes = []; // positions in the output
+  let axis = 0;
+  let outAxis = 0;
+  expanded.forEach(function (item) {
+    if (item.type === "newaxis") {
+      newAxes.push(outAxis++);
+    } else if (item.type === "index") {
+      picks[axis] = normalizeIndex(item.value, arr.shape[axis], axis);
+      axis++;
+    } else if (item.type === "slice") {
+      [lo[axis], hi[axis], step[axis]] = resolveSlice(item, arr.shape[axis]);
+      axis++;
+      outAxis++;
+    }
+  });
+
+  const s = arr.selection;
+  const slo = s.lo.apply(s, lo);
+  const shi = slo.hi.apply(slo, hi);
+  const sstep = shi.step.apply(shi, step);
+  const view = sstep.pick.apply(sstep, picks);
+  if (newAxes.length === 0) {
+    return view;
+  }
+  const shape = view.shape.slice();
+  const stride = view.stride.slice();
+  newAxes.forEach(function (i) {
+    shape.splice(i, 0, 1);
+    stride.splice(i, 0, 0);
+  });
+  return ndarray(view.data, shape, stride, view.offset);
+}
+
+/**
+ * Wrap a negative index and check it is within `[0, size)`.
+ * @param axis the axis being indexed, or null for the flattened array
+ */
+function normalizeIndex(index: number, size: number, axis: number | null) {
+  if (index < -size || index >= size) {
+    throw new errors.IndexError(
+      "index " +
+        index +
+        " is out of bounds" +
+        (axis === null ? "" : " for axis " + axis) +
+        " with size " +
+        size
+    );
+  }
+  return index < 0 ? index + size : index;
+}
+
+function broadcastIndices(
+  arr: NdArray,
+  indices: Array<NdArray | ArbDimNumArray | number>
+): [BaseNdArray[], number[]] {
+  if (indices.length > arr.ndim) {
+    throw new errors.IndexError(
+      "too many indices for array: array is " +
+        arr.ndim +
+        "-dimensional, but " +
+        indices.length +
+        " were indexed"
+    );
+  }
+  const idx = indices.map((i) => createArray(i));
+  let shape = idx.length ? idx[0].shape : [];
+  for (let i = 1; i < idx.length; i++) {
+    shape = _.broadcastShapes(shape, idx[i].shape);
+    if (!shape) {
+      throw new errors.IndexError(
+        "shape mismatch: indexing arrays could not be broadcast together with shapes " +
+          idx.map((a) => _.formatShape(a.shape)).join(" ")
+      );
+    }
+  }
+  return [idx.map((a) => a.broadcastTo(shape).selection), shape];
+}
+
+function checkMask(arr: NdArray, mask: NdArray | ArbDimNumArray): BaseNdArray {
+  const m = createArray(mask);
+  if (!_.haveSameShape(m.shape, arr.shape)) {
+    throw new errors.ValueError(
+      "boolean index did not match indexed array: mask shape is " +
+        _.formatShape(m.shape) +
+        " but array shape is " +
+        _.formatShape(arr.shape)
+    );
+  }
+  return m.selection;
+}
+
+/**
+ * Call `cb` on each multi-index of `shape`, in row-major order.
+ * The `index` array is reused between calls and must not be kept.
+ */
+function forEachIndex(
+  shape: number[],
+  cb: (index: number[], k: number) => void
+) {
+  const size = _.shapeSize(shape);
+  const index = new Array(shape.length).fill(0);
+  for (let k = 0; k < size; k++) {
+    cb(index, k);
+    for (let i = index.length - 1; i >= 0; i--) {
+      if (++index[i] < shape[i]) {
+        break;
+      }
+      index[i] = 0;
+    }
+  }
+}
+
+/**
+ * Apply `reducer` to each subarray spanning the reduced axes.
+ */
+function reduceAxes(
+  arr: NdArray,
+  options: ReduceOptions,
+  T,
+  reducer: (s: BaseNdArray) => number
+): NdArray {
+  const d = arr.ndim;
+  const shape = arr.shape;
+  const axes =
+    options.axis == null
+      ? shape.map((_s, i) => i)
+      : normalizeAxes(options.axis, d);
+  const kept = [];
+  for (let i = 0; i < d; i++) {
+    if (axes.indexOf(i) === -1) {
+      kept.push(i);
+    }
+  }
+  const keptShape = kept.map((i) => shape[i]);
+  const sel = arr.selection.transpose.apply(arr.selection, kept.concat(axes));
+  const data = new T(_.shapeSize(keptShape));
+  forEachIndex(keptShape, function (index, k) {
+    data[k] = reducer(sel.pick.apply(sel, index));
+  });
+  if (options.keepdims) {
+    return new NdArray(
+      data,
+      shape.map((s, i) => (axes.indexOf(i) === -1 ? s : 1))
+    );
+  }
+  return new NdArray(data, keptShape.length ? keptShape : [1]);
+}
+
+/**
+ * Reduce the real and imaginary parts of a complex array separately, which is only valid for linear reductions
+ * such as sums and means.
+ *
+ * @returns a complex128 array for axis reductions, a `{re, im}` object otherwise
+ */
+function reduceComplexParts(
+  arr: NdArray,
+  options: ReduceOptions,
+  reducer: (s: BaseNdArray) => number
+): Complex | NdArray {
+  const axisReduction = isAxisReduction(options);
+  const opts = axisReduction ? options : {};
+  const re = reduceAxes(arr.real, opts, Float64Array, reducer);
+  const im = reduceAxes(arr.imag, opts, Float64Array, reducer);
+  if (!axisReduction) {
+    return { re: re.get(0), im: im.get(0) };
+  }
+  const out = new NdArray(new Complex128Array(re.size), re.shape);
+  ops.assign(out.real.selection, re.selection);
+  ops.assign(out.imag.selection, im.selection);
+  return out;
+}
+
+/**
+ * Call `cb` on each 1-D subarray along `axis` of the given arrays, which must have the same shape.
+ */
+function forEachLane(
+  selections: BaseNdArray[],
+  axis: number,
+  cb: (...lanes: BaseNdArray[]) => void
+) {
+  const shape = selections[0].shape;
+  const d = shape.length;
+  const axes = [];
+  for (let i = 0; i < d; i++) {
+    if (i !== axis) {
+      axes.push(i);
+    }
+  }
+  axes.push(axis);
+  const sels = selections.map((s) => s.transpose.apply(s, axes));
+  const outerShape = axes.slice(0, -1).map((i) => shape[i]);
+  forEachIndex(outerShape, function (index) {
+    cb.apply(
+      null,
+      sels.map((s) => s.pick.apply(s, index))
+    );
+  });
+}
+
+/**
+ * Ascending order with `NaN` values sorted to the end.
+ */
+function compareValues(a: number, b: number): number {
+  if (a !== a) {
+    return b !== b ? 0 : 1;
+  }
+  if (b !== b) {
+    return -1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Return the indices that sort `values`, equal values keeping their relative order.
+ */
+function sortedIndices(values: number[]): number[] {
+  const indices = new Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    indices[i] = i;
+  }
+  return indices.sort((i, j) => compareValues(values[i], values[j]) || i - j);
+}
+
+/**
+ * Index of the first value for which `isBetter` holds against all the previous ones, the first `NaN` winning over anything.
+ */
+function laneArgExtremum(
+  lane: BaseNdArray,
+  isBetter: (a: number, b: number) => boolean
+): number {
+  const n = lane.shape[0];
+  let best = 0;
+  let bestValue = lane.get(0);
+  if (bestValue !== bestValue) {
+    return 0;
+  }
+  for (let i = 1; i < n; i++) {
+    const v = lane.get(i);
+    if (v !== v) {
+      return i;
+    }
+    if (isBetter(v, bestValue)) {
+      best = i;
+      bestValue = v;
+    }
+  }
+  return best;
+}
+
+function argExtremum(
+  arr: NdArray,
+  options: { axis?: number; keepdims?: boolean },
+  name: string,
+  isBetter: (a: number, b: number) => boolean
+): number | NdArray {
+  if (arr.size === 0) {
+    throw new errors.ValueError(
+      "attempt to get " + name + " of an empty sequence"
+    );
+  }
+  if (options?.axis == null) {
+    const flat = arr.reshape(arr.size);
+    const index = laneArgExtremum(flat.selection, isBetter);
+    if (options?.keepdims) {
+      return new NdArray(
+        new Int32Array([index]),
+        arr.shape.map(() => 1)
+      );
+    }
+    return index;
+  }
+  return reduceAxes(
+    arr,
+    {
+      axis: normalizeAxes(options.axis, arr.ndim)[0],
+      keepdims: options.keepdims,
+    },
+    Int32Array,
+    (lane) => laneArgExtremum(lane, isBetter)
+  );
+}
+
+function standardDeviation(s: BaseNdArray, ddof: number): number {
+  const size = s.size;
+  const mean = ops.sum(s) / size;
+  const variance =
+    ops.norm2squared(s) / (size - ddof) - (mean * mean * size) / (size - ddof);
+  return variance > 0 ? Math.sqrt(Math.abs(variance)) : 0;
+}
+
 function createArray(
-  arr: NdArray | ArbDimNumArray | number | TypedArray,
+  arr: NdArray | ArbDimComplexArray | number | Complex | TypedArray,
   dtype?: DType | ArrayLikeConstructor
 ): NdArray {
   if (arr instanceof NdArray) {
@@ -1364,6 +2736,9 @@ function createArray(
   if (dtype) {
     T = _.getType(dtype);
   }
+  if (isComplexValue(arr)) {
+    return new NdArray(new (T || Complex128Array)([arr]), [1]);
+  }
   if (_.isNumber(arr)) {
     if (T && T !== Array) {
       return new NdArray(new T([arr as number]), [1]);
@@ -1376,10 +2751,13 @@ function createArray(
   if (shape.length > 1) {
     arr = _.flatten(arr, true);
   }
+  if (!T && arr instanceof Array && arr.some(isComplexValue)) {
+    T = Complex128Array;
+  }
 
   if (T && !(arr instanceof T)) {
     // below is to fix https://github.com/grimmer0125/numjs/pull/9
-    if (arr instanceof Array) {
+    if (arr instanceof Array || isComplexType(T)) {
       arr = new T(arr);
     } else if (T === Array) {
       arr = Array.from(arr as TypedArray);
@@ -1437,3 +2815,8 @@ function unpackArray(arr) {
 function formatNumber(v) {
   return String(Number((v || 0).toFixed(CONF.nFloatingValues)));
 }
+
+function formatComplex(v: Complex) {
+  const im = formatNumber(v.im);
+  return formatNumber(v.re) + (im[0] === "-" ? "" : "+") + im + "j";
+}
@@ -0,0 +1,1090 @@
+/**
+ * Random number generation, exported as `nj.random`, which can also be called directly as `nj.random(shape)`.
+ *
+ * Random numbers are drawn from `Generator` objects, based on the xoshiro256** generator. The functions of this
+ * module draw from a shared generator, which can be seeded with `nj.random.seed(n)`, while `nj.random.default_rng`
+ * creates independent ones.
+ *
+ * @packageDocumentation
+ */
+"use strict";
+
+import ops from "ndarray-ops";
+import ndarray from "ndarray";
+
+import {
+  NdArray,
+  ArbDimNumArray,
+  ArrayLikeConstructor,
+  DType,
+} from "./ndarray";
+import { cholesky } from "./linalg";
+import * as errors from "./errors";
+import _ from "./utils";
+
+/**
+ * Parameter of a distribution: a number, or an array of numbers broadcast against the shape of the output.
+ */
+export type Parameter = number | NdArray | ArbDimNumArray;
+
+/**
+ * State of a `Generator`, which can be saved and restored with `Generator.state`.
+ */
+export interface GeneratorState {
+  bit_generator: "xoshiro256**";
+  /** The four 64-bit words of the state, as 32-bit low and high halves */
+  state: number[];
+}
+
+// xoshiro256** jump polynomial, as 32-bit low and high halves, advancing the state by 2^128 steps
+const JUMP = [
+  0x3cfd0aba, 0x180ec6d3, 0xf0c9392c, 0xd5a61266, 0xe03fc9aa, 0xa9582618,
+  0x29b1661c, 0x39abdc45,
+];
+
+/**
+ * Return the 32-bit outputs of SplitMix32 seeded with `x`, used to initialize the state.
+ */
+function splitMix32(x: number, n: number): number[] {
+  const out = [];
+  for (let i = 0; i < n; i++) {
+    x = (x + 0x9e3779b9) | 0;
+    let z = x;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    out.push((z ^ (z >>> 15)) >>> 0);
+  }
+  return out;
+}
+
+function seedState(seed?: number): Uint32Array {
+  if (seed === undefined || seed === null) {
+    return new Uint32Array(8).map(() => Math.floor(Math.random() * 2 ** 32));
+  }
+  if (!Number.isSafeInteger(seed) || seed < 0) {
+    throw new errors.ValueError(
+      "Seed must be a non-negative integer, got " + seed
+    );
+  }
+  // every word depends on both halves of the seed
+  const lo = splitMix32(seed >>> 0, 8);
+  const hi = splitMix32(Math.floor(seed / 2 ** 32) ^ 0x5bd1e995, 8);
+  return Uint32Array.from(lo.map((v, i) => v ^ hi[i]));
+}
+
+/**
+ * Container for the xoshiro256** pseudo-random number generator, which draws the samples of the random functions.
+ *
+ * Its 256-bit state has a period of 2^256 - 1, and can be advanced by 2^128 steps to create independent streams,
+ * see `spawn`.
+ */
+export class Generator {
+  /** The four 64-bit words of the state, as 32-bit low and high halves */
+  private s: Uint32Array;
+
+  /**
+   * @param seed - a non-negative integer, the generator being seeded from `Math.random` if it is not given
+   */
+  constructor(seed?: number) {
+    this.s = seedState(seed);
+  }
+
+  /**
+   * State of the generator: assigning a previously saved state restores the generator, which then draws the same
+   * numbers again.
+   */
+  get state(): GeneratorState {
+    return { bit_generator: "xoshiro256**", state: Array.from(this.s) };
+  }
+
+  set state(value: GeneratorState) {
+    if (
+      !value ||
+      value.bit_generator !== "xoshiro256**" ||
+      !value.state ||
+      value.state.length !== 8
+    ) {
+      throw new errors.ValueError(
+        "state must be a xoshiro256** state, as returned by Generator.state"
+      );
+    }
+    if (value.state.every((v) => v === 0)) {
+      throw new errors.ValueError("state cannot be all zeros");
+    }
+    this.s = Uint32Array.from(value.state);
+  }
+
+  /**
+   * Return `n` generators drawing independent streams of numbers: each of them takes the current state of the
+   * generator, which then jumps 2^128 steps ahead.
+   */
+  spawn(n: number): Generator[] {
+    return Array.from(Array(n).keys()).map(() => {
+      const child = new Generator(0);
+      child.s = this.s.slice();
+      this.jump();
+      return child;
+    });
+  }
+
+  /**
+   * Advance the state by 2^128 steps, as many as 2^128 calls to `nextUint64`.
+   */
+  jump() {
+    const s = this.s;
+    const t = new Uint32Array(8);
+    for (let i = 0; i < JUMP.length; i++) {
+      for (let b = 0; b < 32; b++) {
+        if (JUMP[i] & (1 << b)) {
+          for (let k = 0; k < 8; k++) {
+            t[k] ^= s[k];
+          }
+        }
+        this.nextUint64();
+      }
+    }
+    this.s = t;
+  }
+
+  /**
+   * Return the next 64-bit output of the generator, as its 32-bit high and low halves.
+   */
+  nextUint64(): [number, number] {
+    const s = this.s;
+    // result = rotl(s1 * 5, 7) * 9
+    let lo = s[2];
+    let hi = s[3];
+    let l = (lo << 2) >>> 0;
+    let sum = l + lo;
+    hi = (((hi << 2) | (lo >>> 30)) + hi + (sum > 0xffffffff ? 1 : 0)) >>> 0;
+    lo = sum >>> 0;
+    [lo, hi] = [
+      ((lo << 7) | (hi >>> 25)) >>> 0,
+      ((hi << 7) | (lo >>> 25)) >>> 0,
+    ];
+    l = (lo << 3) >>> 0;
+    sum = l + lo;
+    hi = (((hi << 3) | (lo >>> 29)) + hi + (sum > 0xffffffff ? 1 : 0)) >>> 0;
+    lo = sum >>> 0;
+
+    // t = s1 << 17
+    const tlo = s[2] << 17;
+    const thi = (s[3] << 17) | (s[2] >>> 15);
+    s[4] ^= s[0];
+    s[5] ^= s[1];
+    s[6] ^= s[2];
+    s[7] ^= s[3];
+    s[2] ^= s[4];
+    s[3] ^= s[5];
+    s[0] ^= s[6];
+    s[1] ^= s[7];
+    s[4] ^= tlo;
+    s[5] ^= thi;
+    // s3 = rotl(s3, 45), i.e. swap the halves and rotate by 13
+    const [s3lo, s3hi] = [s[7], s[6]];
+    s[6] = (s3lo << 13) | (s3hi >>> 19);
+    s[7] = (s3hi << 13) | (s3lo >>> 19);
+    return [hi, lo];
+  }
+
+  /**
+   * Return a random float in [0, 1), made of the 53 upper bits of the next output.
+   */
+  nextDouble(): number {
+    const [hi, lo] = this.nextUint64();
+    return (hi * 2 ** 21 + (lo >>> 11)) / 2 ** 53;
+  }
+
+  /**
+   * Return an array of the given shape, filled with random floats from a uniform distribution over [0, 1).
+   * @param size - shape of the output, a single value being returned as an array of shape [1] if it is not given
+   */
+  random(size?: number | number[]): NdArray {
+    const shape = sizeShape(size);
+    const out = new Float64Array(_.shapeSize(shape));
+    for (let i = 0; i < out.length; i++) {
+      out[i] = this.nextDouble();
+    }
+    return new NdArray(out, shape);
+  }
+
+  /**
+   * Return a random integer in [0, n), for n up to 2^53.
+   */
+  nextInt(n: number): number {
+    // reject the last, incomplete, multiple of n to avoid any bias
+    const limit = 2 ** 53 - (2 ** 53 % n);
+    let x;
+    do {
+      x = Math.floor(this.nextDouble() * 2 ** 53);
+    } while (x >= limit);
+    return x % n;
+  }
+
+  /**
+   * Return a sample from the standard normal distribution, using Marsaglia's polar method.
+   */
+  nextNormal(): number {
+    let u, v, r;
+    do {
+      u = 2 * this.nextDouble() - 1;
+      v = 2 * this.nextDouble() - 1;
+      r = u * u + v * v;
+    } while (r >= 1 || r === 0);
+    return u * Math.sqrt((-2 * Math.log(r)) / r);
+  }
+
+  /**
+   * Draw samples from the standard normal distribution (mean 0, standard deviation 1).
+   * @param size - shape of the output, a single value being returned as an array of shape [1] if it is not given
+   */
+  standard_normal(size?: number | number[]): NdArray {
+    return sample(size, [], () => this.nextNormal());
+  }
+
+  /**
+   * Draw samples from a normal (Gaussian) distribution.
+   * @param loc - mean of the distribution
+   * @param scale - standard deviation of the distribution, must be non-negative
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  normal(
+    loc: Parameter = 0,
+    scale: Parameter = 1,
+    size?: number | number[]
+  ): NdArray {
+    return sample(size, [loc, scale], (m, s) => {
+      checkParameter(s >= 0, "scale < 0");
+      return m + s * this.nextNormal();
+    });
+  }
+
+  /**
+   * Draw samples from a uniform distribution over [low, high).
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  uniform(
+    low: Parameter = 0,
+    high: Parameter = 1,
+    size?: number | number[]
+  ): NdArray {
+    return sample(size, [low, high], (l, h) => l + (h - l) * this.nextDouble());
+  }
+
+  /**
+   * Draw random integers from `low` (inclusive) to `high` (exclusive), or in [0, low) if `high` is not given.
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   * @param dtype - integer data type of the output, default is int32
+   * @param endpoint - if true, `high` is included
+   */
+  integers(
+    low: Parameter,
+    high: Parameter = null,
+    size?: number | number[],
+    dtype: DType | ArrayLikeConstructor = "int32",
+    endpoint = false
+  ): NdArray {
+    if (high === null || high === undefined) {
+      [low, high] = [0, low];
+    }
+    const T = _.getType(dtype);
+    const name = ndarray(new T(0)).dtype;
+    if (!INTEGER_BOUNDS.has(T)) {
+      throw new errors.ValueError(
+        "Unsupported dtype " + name + " for integers"
+      );
+    }
+    const [min, max] = INTEGER_BOUNDS.get(T);
+    return sample(
+      size,
+      [low, high],
+      (l, h) => {
+        h = endpoint ? h : h - 1;
+        checkParameter(l <= h, endpoint ? "low > high" : "low >= high");
+        checkParameter(l >= min, "low is out of bounds for " + name);
+        checkParameter(h <= max, "high is out of bounds for " + name);
+        return l + this.nextInt(h - l + 1);
+      },
+      T
+    );
+  }
+
+  /**
+   * Generate a random sample from the items of `a`, i.e. its subarrays along the first axis.
+   * @param a - population to sample from, or its size `n` to sample from `arange(n)`
+   * @param size - number of samples, or their shape, a single sample being returned as an array of shape [1] (followed by the shape of the items) if it is not given
+   * @param replace - whether the sample is with or without replacement
+   * @param p - probabilities of the items, the sample assuming a uniform distribution if it is not given
+   */
+  choice(
+    a: number | NdArray | ArbDimNumArray,
+    size?: number | number[],
+    replace = true,
+    p: NdArray | ArbDimNumArray = null
+  ): NdArray {
+    const population = _.isNumber(a) ? null : NdArray.new(a);
+    const n = population ? population.shape[0] : (a as number);
+    if (!population && !(Number.isInteger(n) && n > 0)) {
+      throw new errors.ValueError(
+        "a must be a positive integer unless no samples are taken"
+      );
+    }
+    const shape = sizeShape(size);
+    const count = _.shapeSize(shape);
+    let weights: number[] = null;
+    if (p !== null && p !== undefined) {
+      const parr = NdArray.new(p);
+      weights = parr.flatten().tolist() as number[];
+      if (parr.ndim !== 1) {
+        throw new errors.ValueError("p must be 1-dimensional");
+      }
+      if (weights.length !== n) {
+        throw new errors.ValueError("a and p must have same size");
+      }
+      if (weights.some((w) => !(w >= 0))) {
+        throw new errors.ValueError("probabilities are not non-negative");
+      }
+      if (Math.abs(weights.reduce((t, w) => t + w, 0) - 1) > 1e-8) {
+        throw new errors.ValueError("probabilities do not sum to 1");
+      }
+    }
+    if (!replace && count > n) {
+      throw new errors.ValueError(
+        "Cannot take a larger sample than population when replace is False"
+      );
+    }
+    if (!replace && weights && weights.filter((w) => w > 0).length < count) {
+      throw new errors.ValueError("Fewer non-zero entries in p than size");
+    }
+
+    const indices = new Int32Array(count);
+    if (replace && weights) {
+      const cdf = [];
+      weights.reduce((t, w, i) => (cdf[i] = t + w), 0);
+      for (let i = 0; i < count; i++) {
+        indices[i] = searchSorted(cdf, this.nextDouble() * cdf[n - 1]);
+      }
+    } else if (replace) {
+      for (let i = 0; i < count; i++) {
+        indices[i] = this.nextInt(n);
+      }
+    } else if (weights) {
+      // draw the items one after the other, each with a null weight once drawn
+      const w = weights.slice();
+      for (let i = 0; i < count; i++) {
+        const cdf = [];
+        w.reduce((t, v, k) => (cdf[k] = t + v), 0);
+        indices[i] = searchSorted(cdf, this.nextDouble() * cdf[n - 1]);
+        w[indices[i]] = 0;
+      }
+    } else {
+      // partial Fisher-Yates shuffle
+      const pool = Int32Array.from(Array(n).keys());
+      for (let i = 0; i < count; i++) {
+        const j = i + this.nextInt(n - i);
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+      }
+      indices.set(pool.subarray(0, count));
+    }
+    const idx = new NdArray(indices, shape);
+    return population ? population.index(idx) : idx;
+  }
+
+  /**
+   * Shuffle the array in place, along its first axis.
+   */
+  shuffle(x: NdArray) {
+    const shuffled = x.index(this.permutation(x.shape[0]));
+    ops.assign(x.selection, shuffled.selection);
+  }
+
+  /**
+   * Return a copy of the array shuffled along its first axis, or a shuffled `arange(n)` if `x` is an integer `n`.
+   */
+  permutation(x: number | NdArray | ArbDimNumArray): NdArray {
+    if (!_.isNumber(x)) {
+      const arr = NdArray.new(x);
+      return arr.index(this.permutation(arr.shape[0]));
+    }
+    // Fisher-Yates shuffle
+    const out = Int32Array.from(Array(x as number).keys());
+    for (let i = out.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [out[i], out[j]] = [out[j], out[i]];
+    }
+    return new NdArray(out, [out.length]);
+  }
+
+  /**
+   * Return a sample from the gamma distribution of the given shape and unit scale, using the method of Marsaglia and
+   * Tsang.
+   */
+  nextGamma(shape: number): number {
+    if (shape === 0) {
+      return 0;
+    }
+    if (shape < 1) {
+      // boost the shape to shape + 1, see Marsaglia and Tsang
+      return this.nextGamma(shape + 1) * this.nextDouble() ** (1 / shape);
+    }
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+      let x, v;
+      do {
+        x = this.nextNormal();
+        v = 1 + c * x;
+      } while (v <= 0);
+      v = v * v * v;
+      const u = this.nextDouble();
+      if (
+        u < 1 - 0.0331 * x * x * x * x ||
+        Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))
+      ) {
+        return d * v;
+      }
+    }
+  }
+
+  /**
+   * Return a sample from the beta distribution of parameters `a` and `b`: Jöhnk's algorithm when both are at most 1,
+   * as gamma samples of shapes below 1 can underflow to 0, `X / (X + Y)` where X and Y are gamma samples otherwise.
+   */
+  nextBeta(a: number, b: number): number {
+    if (a > 1 || b > 1) {
+      const x = this.nextGamma(a);
+      return x / (x + this.nextGamma(b));
+    }
+    for (;;) {
+      const u = this.nextDouble();
+      const v = this.nextDouble();
+      const x = u ** (1 / a);
+      const y = v ** (1 / b);
+      if (x + y <= 1 && u + v > 0) {
+        if (x + y > 0) {
+          return x / (x + y);
+        }
+        // both powers underflowed: compute the ratio from their logarithms
+        let logX = Math.log(u) / a;
+        let logY = Math.log(v) / b;
+        const logM = Math.max(logX, logY);
+        logX -= logM;
+        logY -= logM;
+        return Math.exp(logX - Math.log(Math.exp(logX) + Math.exp(logY)));
+      }
+    }
+  }
+
+  /**
+   * Return a sample from the Poisson distribution of mean `lam`: the product of uniform samples for small means,
+   * Hörmann's transformed rejection (PTRS) otherwise.
+   */
+  nextPoisson(lam: number): number {
+    if (lam < 10) {
+      const limit = Math.exp(-lam);
+      let k = 0;
+      let prod = this.nextDouble();
+      while (prod > limit) {
+        k++;
+        prod *= this.nextDouble();
+      }
+      return k;
+    }
+    const slam = Math.sqrt(lam);
+    const loglam = Math.log(lam);
+    const b = 0.931 + 2.53 * slam;
+    const a = -0.059 + 0.02483 * b;
+    const invalpha = 1.1239 + 1.1328 / (b - 3.4);
+    const vr = 0.9277 - 3.6224 / (b - 2);
+    for (;;) {
+      const u = this.nextDouble() - 0.5;
+      const v = this.nextDouble();
+      const us = 0.5 - Math.abs(u);
+      const k = Math.floor(((2 * a) / us + b) * u + lam + 0.43);
+      if (us >= 0.07 && v <= vr) {
+        return k;
+      }
+      if (k < 0 || (us < 0.013 && v > us)) {
+        continue;
+      }
+      if (
+        Math.log(v) + Math.log(invalpha) - Math.log(a / (us * us) + b) <=
+        -lam + k * loglam - logGamma(k + 1)
+      ) {
+        return k;
+      }
+    }
+  }
+
+  /**
+   * Return a sample from the binomial distribution of `n` trials of probability `p`: by inversion for small means,
+   * Hörmann's transformed rejection (BTRS) otherwise.
+   */
+  nextBinomial(n: number, p: number): number {
+    if (p > 0.5) {
+      return n - this.nextBinomial(n, 1 - p);
+    }
+    const q = 1 - p;
+    if (n * p < 10) {
+      // P(k + 1) = P(k) * (n - k) / (k + 1) * p / q
+      let u = this.nextDouble();
+      let r = q ** n;
+      let k = 0;
+      while (u > r && k < n) {
+        u -= r;
+        r *= ((n - k) / (k + 1)) * (p / q);
+        k++;
+      }
+      return k;
+    }
+    const spq = Math.sqrt(n * p * q);
+    const b = 1.15 + 2.53 * spq;
+    const a = -0.0873 + 0.0248 * b + 0.01 * p;
+    const c = n * p + 0.5;
+    const vr = 0.92 - 4.2 / b;
+    const alpha = (2.83 + 5.1 / b) * spq;
+    const lpq = Math.log(p / q);
+    const m = Math.floor((n + 1) * p);
+    const h = logGamma(m + 1) + logGamma(n - m + 1);
+    for (;;) {
+      const u = this.nextDouble() - 0.5;
+      let v = this.nextDouble();
+      const us = 0.5 - Math.abs(u);
+      const k = Math.floor(((2 * a) / us + b) * u + c);
+      if (k < 0 || k > n) {
+        continue;
+      }
+      if (us >= 0.07 && v <= vr) {
+        return k;
+      }
+      v = Math.log((v * alpha) / (a / (us * us) + b));
+      if (v <= h - logGamma(k + 1) - logGamma(n - k + 1) + (k - m) * lpq) {
+        return k;
+      }
+    }
+  }
+
+  /**
+   * Draw samples from an exponential distribution, of density `exp(-x / scale) / scale`.
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  exponential(scale: Parameter = 1, size?: number | number[]): NdArray {
+    return sample(size, [scale], (s) => {
+      checkParameter(s >= 0, "scale < 0");
+      return -s * Math.log(1 - this.nextDouble());
+    });
+  }
+
+  /**
+   * Draw samples from a gamma distribution.
+   * @param shape - shape of the distribution, must be non-negative
+   * @param scale - scale of the distribution, must be non-negative
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  gamma(
+    shape: Parameter,
+    scale: Parameter = 1,
+    size?: number | number[]
+  ): NdArray {
+    return sample(size, [shape, scale], (k, s) => {
+      checkParameter(k >= 0, "shape < 0");
+      checkParameter(s >= 0, "scale < 0");
+      return s * this.nextGamma(k);
+    });
+  }
+
+  /**
+   * Draw samples from a beta distribution, see `nextBeta`.
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  beta(a: Parameter, b: Parameter, size?: number | number[]): NdArray {
+    return sample(size, [a, b], (a, b) => {
+      checkParameter(a > 0, "a <= 0");
+      checkParameter(b > 0, "b <= 0");
+      return this.nextBeta(a, b);
+    });
+  }
+
+  /**
+   * Draw samples from a chi-square distribution with `df` degrees of freedom.
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  chisquare(df: Parameter, size?: number | number[]): NdArray {
+    return sample(size, [df], (df) => {
+      checkParameter(df > 0, "df <= 0");
+      return 2 * this.nextGamma(df / 2);
+    });
+  }
+
+  /**
+   * Draw samples from a log-normal distribution, i.e. whose logarithm is normal of mean `mean` and standard deviation
+   * `sigma`.
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  lognormal(
+    mean: Parameter = 0,
+    sigma: Parameter = 1,
+    size?: number | number[]
+  ): NdArray {
+    return sample(size, [mean, sigma], (m, s) => {
+      checkParameter(s >= 0, "sigma < 0");
+      return Math.exp(m + s * this.nextNormal());
+    });
+  }
+
+  /**
+   * Draw samples from a Poisson distribution of mean `lam`.
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  poisson(lam: Parameter = 1, size?: number | number[]): NdArray {
+    return sample(
+      size,
+      [lam],
+      (lam) => {
+        checkParameter(lam >= 0, "lam < 0");
+        return this.nextPoisson(lam);
+      },
+      Int32Array
+    );
+  }
+
+  /**
+   * Draw samples from a binomial distribution, i.e. the number of successes among `n` trials of probability `p`.
+   * @param size - shape of the output, default is the broadcast shape of the parameters
+   */
+  binomial(n: Parameter, p: Parameter, size?: number | number[]): NdArray {
+    return sample(
+      size,
+      [n, p],
+      (n, p) => {
+        checkParameter(n >= 0, "n < 0");
+        checkParameter(p >= 0 && p <= 1, "p < 0, p > 1 or p is NaN");
+        return this.nextBinomial(Math.floor(n), p);
+      },
+      Int32Array
+    );
+  }
+
+  /**
+   * Draw samples from a Dirichlet distribution: vectors of `alpha.length` positive values summing to 1, as normalized
+   * gamma samples. When all the concentrations are below 0.1, these samples could all underflow to 0, and the vectors
+   * are drawn by stick-breaking instead, as in NumPy: each value is a beta sample of the part left by the previous ones.
+   * @param alpha - concentration parameters of the distribution, all positive
+   * @param size - shape of the output, followed by the length of `alpha`, a single sample being drawn if it is not given
+   */
+  dirichlet(
+    alpha: NdArray | ArbDimNumArray,
+    size?: number | number[]
+  ): NdArray {
+    const a = NdArray.new(alpha);
+    if (a.ndim !== 1) {
+      throw new errors.ValueError("alpha must be 1 dimensional");
+    }
+    const k = a.size;
+    const values = a.tolist() as number[];
+    checkParameter(
+      values.every((v) => v > 0),
+      "alpha <= 0"
+    );
+    const shape = size === undefined || size === null ? [] : sizeShape(size);
+    const out = new Float64Array(_.shapeSize(shape) * k);
+    if (values.every((v) => v < 0.1)) {
+      // rest[j] is the sum of the concentrations after the j-th one
+      const rest = values.map((_v, j) =>
+        values.slice(j + 1).reduce((acc, v) => acc + v, 0)
+      );
+      for (let i = 0; i < out.length; i += k) {
+        let left = 1;
+        for (let j = 0; j < k - 1; j++) {
+          const v = this.nextBeta(values[j], rest[j]);
+          out[i + j] = left * v;
+          left *= 1 - v;
+        }
+        out[i + k - 1] = left;
+      }
+      return new NdArray(out, shape.concat([k]));
+    }
+    for (let i = 0; i < out.length; i += k) {
+      let sum = 0;
+      for (let j = 0; j < k; j++) {
+        sum += out[i + j] = this.nextGamma(values[j]);
+      }
+      for (let j = 0; j < k; j++) {
+        out[i + j] /= sum;
+      }
+    }
+    return new NdArray(out, shape.concat([k]));
+  }
+
+  /**
+   * Draw samples from a multivariate normal distribution, as `mean + L z` where `L` is the Cholesky factor of the
+   * covariance matrix and `z` a vector of standard normal samples.
+   * @param mean - mean of the distribution, of length N
+   * @param cov - covariance matrix of the distribution, of shape (N, N), which must be positive definite
+   * @param size - shape of the output, followed by N, a single sample being drawn if it is not given
+   */
+  multivariate_normal(
+    mean: NdArray | ArbDimNumArray,
+    cov: NdArray | ArbDimNumArray,
+    size?: number | number[]
+  ): NdArray {
+    const m = NdArray.new(mean);
+    const c = NdArray.new(cov);
+    if (m.ndim !== 1) {
+      throw new errors.ValueError("mean must be 1 dimensional");
+    }
+    if (c.ndim !== 2 || c.shape[0] !== c.shape[1]) {
+      throw new errors.ValueError("cov must be 2 dimensional and square");
+    }
+    if (m.size !== c.shape[0]) {
+      throw new errors.ValueError("mean and cov must have same length");
+    }
+    const n = m.size;
+    const mu = m.tolist() as number[];
+    const l = cholesky(c).tolist() as number[][];
+    const shape = size === undefined || size === null ? [] : sizeShape(size);
+    const out = new Float64Array(_.shapeSize(shape) * n);
+    const z = new Float64Array(n);
+    for (let i = 0; i < out.length; i += n) {
+      for (let j = 0; j < n; j++) {
+        z[j] = this.nextNormal();
+      }
+      for (let j = 0; j < n; j++) {
+        let v = mu[j];
+        for (let k = 0; k <= j; k++) {
+          v += l[j][k] * z[k];
+        }
+        out[i + j] = v;
+      }
+    }
+    return new NdArray(out, shape.concat([n]));
+  }
+}
+
+// coefficients of the Lanczos approximation, for g = 7
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/**
+ * Return the logarithm of the gamma function, for x > 0.
+ */
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    // reflection formula
+    return (
+      Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x)
+    );
+  }
+  x -= 1;
+  let a = LANCZOS[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) {
+    a += LANCZOS[i] / (x + i);
+  }
+  return (
+    0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a)
+  );
+}
+
+// range of the integer dtypes
+const INTEGER_BOUNDS = new Map<ArrayLikeConstructor, number[]>([
+  [Int8Array, [-128, 127]],
+  [Uint8Array, [0, 255]],
+  [Uint8ClampedArray, [0, 255]],
+  [Int16Array, [-32768, 32767]],
+  [Uint16Array, [0, 65535]],
+  [Int32Array, [-(2 ** 31), 2 ** 31 - 1]],
+  [Uint32Array, [0, 2 ** 32 - 1]],
+]);
+
+function checkParameter(condition: boolean, message: string) {
+  if (!condition) {
+    throw new errors.ValueError(message);
+  }
+}
+
+/**
+ * Return the index of the first value of the sorted array greater than x.
+ */
+function searchSorted(sorted: number[], x: number): number {
+  let lo = 0;
+  let hi = sorted.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] > x) {
+      hi = mid;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Return an array of the given size, or of the broadcast shape of the parameters if it is not given, whose items are
+ * drawn by `draw` from the corresponding values of the parameters.
+ */
+function sample(
+  size: number | number[] | undefined,
+  params: Parameter[],
+  draw: (...values: number[]) => number,
+  T: ArrayLikeConstructor = Float64Array
+): NdArray {
+  const arrs = params.map((param) => NdArray.new(param));
+  const shape =
+    size === undefined || size === null
+      ? arrs.reduce((s, arr) => _.broadcastShapes(s, arr.shape) || [], [1])
+      : sizeShape(size);
+  if (
+    arrs.some(
+      (arr) =>
+        !_.haveSameShape(_.broadcastShapes(shape, arr.shape) || [], shape)
+    )
+  ) {
+    throw new errors.ValueError(
+      "shape mismatch: objects cannot be broadcast to a single shape"
+    );
+  }
+  const values = arrs.map(
+    (arr) => arr.broadcastTo(shape).flatten().tolist() as number[]
+  );
+  const out = new T(_.shapeSize(shape));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = draw(...values.map((v) => v[i]));
+  }
+  return new NdArray(out, shape);
+}
+
+function sizeShape(size?: number | number[]): number[] {
+  if (size === undefined || size === null) {
+    return [1];
+  }
+  return _.isNumber(size) ? [(size as number) | 0] : (size as number[]);
+}
+
+/**
+ * Construct a new `Generator`.
+ * @param seed - a non-negative integer, the generator being seeded from `Math.random` if it is not given
+ */
+export function default_rng(seed?: number): Generator {
+  return new Generator(seed);
+}
+
+let generator = new Generator();
+
+/**
+ * Seed the generator shared by the functions of `nj.random`, which makes their results reproducible.
+ * @param seed - a non-negative integer, the generator being seeded from `Math.random` if it is not given
+ */
+export function seed(seed?: number) {
+  generator = new Generator(seed);
+}
+
+/**
+ * Return the state of the generator shared by the functions of `nj.random`, see `Generator.state`.
+ */
+export function get_state(): GeneratorState {
+  return generator.state;
+}
+
+/**
+ * Restore the state of the generator shared by the functions of `nj.random`, see `Generator.state`.
+ */
+export function set_state(state: GeneratorState) {
+  generator.state = state;
+}
+
+/**
+ * Create an array of the given shape and propagate it with random samples from a uniform distribution over [0, 1).
+ * @param shape - The dimensions of the returned array, should all be positive integers
+ */
+export function random(...shape: number[]): NdArray;
+export function random(shape?: number | number[]): NdArray;
+export function random(...args: any[]): NdArray {
+  if (args.length === 0) {
+    return generator.random();
+  }
+  return generator.random(args.length === 1 ? args[0] : args);
+}
+
+/**
+ * Draw samples from the standard normal distribution, see `Generator.standard_normal`.
+ */
+export function standard_normal(size?: number | number[]): NdArray {
+  return generator.standard_normal(size);
+}
+
+/**
+ * Create an array of the given shape and propagate it with samples from the standard normal distribution.
+ * @param shape - The dimensions of the returned array, should all be positive integers
+ */
+export function randn(...shape: number[]): NdArray {
+  return generator.standard_normal(shape.length ? shape : null);
+}
+
+/**
+ * Draw samples from a normal (Gaussian) distribution, see `Generator.normal`.
+ */
+export function normal(
+  loc: Parameter = 0,
+  scale: Parameter = 1,
+  size?: number | number[]
+): NdArray {
+  return generator.normal(loc, scale, size);
+}
+
+/**
+ * Draw samples from a uniform distribution over [low, high), see `Generator.uniform`.
+ */
+export function uniform(
+  low: Parameter = 0,
+  high: Parameter = 1,
+  size?: number | number[]
+): NdArray {
+  return generator.uniform(low, high, size);
+}
+
+/**
+ * Draw random integers from `low` (inclusive) to `high` (exclusive), or in [0, low) if `high` is not given, see
+ * `Generator.integers`.
+ */
+export function randint(
+  low: Parameter,
+  high: Parameter = null,
+  size?: number | number[],
+  dtype: DType | ArrayLikeConstructor = "int32"
+): NdArray {
+  return generator.integers(low, high, size, dtype);
+}
+
+/**
+ * Draw random integers from `low` (inclusive) to `high` (exclusive, or inclusive if `endpoint` is true), or in
+ * [0, low) if `high` is not given, see `Generator.integers`.
+ */
+export function integers(
+  low: Parameter,
+  high: Parameter = null,
+  size?: number | number[],
+  dtype: DType | ArrayLikeConstructor = "int32",
+  endpoint = false
+): NdArray {
+  return generator.integers(low, high, size, dtype, endpoint);
+}
+
+/**
+ * Generate a random sample from the items of `a`, see `Generator.choice`.
+ */
+export function choice(
+  a: number | NdArray | ArbDimNumArray,
+  size?: number | number[],
+  replace = true,
+  p: NdArray | ArbDimNumArray = null
+): NdArray {
+  return generator.choice(a, size, replace, p);
+}
+
+/**
+ * Shuffle the array in place, along its first axis.
+ */
+export function shuffle(x: NdArray) {
+  generator.shuffle(x);
+}
+
+/**
+ * Return a copy of the array shuffled along its first axis, or a shuffled `arange(n)` if `x` is an integer `n`.
+ */
+export function permutation(x: number | NdArray | ArbDimNumArray): NdArray {
+  return generator.permutation(x);
+}
+
+/**
+ * Draw samples from an exponential distribution, see `Generator.exponential`.
+ */
+export function exponential(
+  scale: Parameter = 1,
+  size?: number | number[]
+): NdArray {
+  return generator.exponential(scale, size);
+}
+
+/**
+ * Draw samples from a gamma distribution, see `Generator.gamma`.
+ */
+export function gamma(
+  shape: Parameter,
+  scale: Parameter = 1,
+  size?: number | number[]
+): NdArray {
+  return generator.gamma(shape, scale, size);
+}
+
+/**
+ * Draw samples from a beta distribution, see `Generator.beta`.
+ */
+export function beta(
+  a: Parameter,
+  b: Parameter,
+  size?: number | number[]
+): NdArray {
+  return generator.beta(a, b, size);
+}
+
+/**
+ * Draw samples from a chi-square distribution, see `Generator.chisquare`.
+ */
+export function chisquare(df: Parameter, size?: number | number[]): NdArray {
+  return generator.chisquare(df, size);
+}
+
+/**
+ * Draw samples from a log-normal distribution, see `Generator.lognormal`.
+ */
+export function lognormal(
+  mean: Parameter = 0,
+  sigma: Parameter = 1,
+  size?: number | number[]
+): NdArray {
+  return generator.lognormal(mean, sigma, size);
+}
+
+/**
+ * Draw samples from a Poisson distribution, see `Generator.poisson`.
+ */
+export function poisson(lam: Parameter = 1, size?: number | number[]): NdArray {
+  return generator.poisson(lam, size);
+}
+
+/**
+ * Draw samples from a binomial distribution, see `Generator.binomial`.
+ */
+export function binomial(
+  n: Parameter,
+  p: Parameter,
+  size?: number | number[]
+): NdArray {
+  return generator.binomial(n, p, size);
+}
+
+/**
+ * Draw samples from a Dirichlet distribution, see `Generator.dirichlet`.
+ */
+export function dirichlet(
+  alpha: NdArray | ArbDimNumArray,
+  size?: number | number[]
+): NdArray {
+  return generator.dirichlet(alpha, size);
+}
+
+/**
+ * Draw samples from a multivariate normal distribution, see `Generator.multivariate_normal`.
+ */
+export function multivariate_normal(
+  mean: NdArray | ArbDimNumArray,
+  cov: NdArray | ArbDimNumArray,
+  size?: number | number[]
+): NdArray {
+  return generator.multivariate_normal(mean, cov, size);
+}
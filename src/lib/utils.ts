@@ -1,5 +1,9 @@
 "use strict";
+import ndarray, { NdArray as BaseNdArray } from "ndarray";
+
 import DTYPES from "./dtypes";
+import { isComplexValue } from "./complex";
+import * as errors from "./errors";
 
 function isNumber(value) {
   return typeof value === "number";
@@ -18,7 +22,7 @@ function baseFlatten(array, isDeep, result?: number[]) {
 
   while (++index < length) {
     let value = array[index];
-    if (isNumber(value)) {
+    if (isNumber(value) || isComplexValue(value)) {
       result[result.length] = value;
     } else if (isDeep) {
       // Recursively flatten arrays (susceptible to call stack limits).
@@ -45,7 +49,7 @@ function getType(dtype) {
 
 function _dim(x) {
   const ret = [];
-  while (typeof x === "object") {
+  while (typeof x === "object" && !isComplexValue(x)) {
     ret.push(x.length);
     x = x[0];
   }
@@ -56,9 +60,9 @@ function getShape(array) {
   let y, z;
   if (typeof array === "object") {
     y = array[0];
-    if (typeof y === "object") {
+    if (typeof y === "object" && !isComplexValue(y)) {
       z = y[0];
-      if (typeof z === "object") {
+      if (typeof z === "object" && !isComplexValue(z)) {
         return _dim(array);
       }
       return [array.length, y.length];
@@ -68,18 +72,83 @@ function getShape(array) {
   return [];
 }
 
-// function haveSameShape (shape1, shape2) {
-//   if (shapeSize(shape1) !== shapeSize(shape2) || shape1.length !== shape2.length) {
-//     return false;
-//   }
-//   let d = shape1.length;
-//   for (let i = 0; i < d; i++) {
-//     if (shape1[i] !== shape2[i]) {
-//       return false;
-//     }
-//   }
-//   return true;
-// }
+function haveSameShape(shape1, shape2) {
+  if (
+    shapeSize(shape1) !== shapeSize(shape2) ||
+    shape1.length !== shape2.length
+  ) {
+    return false;
+  }
+  const d = shape1.length;
+  for (let i = 0; i < d; i++) {
+    if (shape1[i] !== shape2[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Compute the shape resulting from broadcasting `shape1` against `shape2` following NumPy rules.
+ * @returns `undefined` if the shapes are not compatible
+ */
+function broadcastShapes(shape1: number[], shape2: number[]) {
+  const reversed1 = shape1.slice().reverse();
+  const reversed2 = shape2.slice().reverse();
+  const maxLength = Math.max(shape1.length, shape2.length);
+  const outShape: number[] = new Array(maxLength);
+  for (let i = 0; i < maxLength; i++) {
+    if (reversed1[i] === undefined || reversed1[i] === 1) {
+      outShape[i] = reversed2[i] === undefined ? reversed1[i] : reversed2[i];
+    } else if (reversed2[i] === undefined || reversed2[i] === 1) {
+      outShape[i] = reversed1[i];
+    } else if (reversed1[i] === reversed2[i]) {
+      outShape[i] = reversed1[i];
+    } else {
+      return;
+    }
+  }
+  return outShape.reverse();
+}
+
+function formatShape(shape: number[]) {
+  return "(" + shape.join(",") + ")";
+}
+
+/**
+ * Check that `axes` are valid axes of an array of dimension `ndim`, returning them as non-negative integers.
+ */
+function checkAxes(axes: number[], ndim: number): number[] {
+  return axes.map(function (axis, i) {
+    const ax = axis < 0 ? axis + ndim : axis;
+    if (ax < 0 || ax >= ndim) {
+      throw new errors.ValueError(
+        "axis " + axis + " is out of bounds for array of dimension " + ndim
+      );
+    }
+    if (axes.slice(0, i).some((a) => (a < 0 ? a + ndim : a) === ax)) {
+      throw new errors.ValueError("Duplicate axes given.");
+    }
+    return ax;
+  });
+}
+
+/**
+ * Return a view of the items `start` (included) to `stop` (excluded), every `step`, along the given axis.
+ */
+function axisRange(
+  s: BaseNdArray,
+  axis: number,
+  start: number,
+  stop: number,
+  step = 1
+): BaseNdArray {
+  const shape = s.shape.slice();
+  const stride = s.stride.slice();
+  shape[axis] = Math.max(0, Math.ceil((stop - start) / step));
+  stride[axis] = s.stride[axis] * step;
+  return ndarray(s.data, shape, stride, s.offset + start * s.stride[axis]);
+}
 
 export default {
   isNumber: isNumber,
@@ -89,4 +158,9 @@ export default {
   shapeSize: shapeSize,
   getType: getType,
   getShape: getShape,
+  haveSameShape: haveSameShape,
+  broadcastShapes: broadcastShapes,
+  formatShape: formatShape,
+  checkAxes: checkAxes,
+  axisRange: axisRange,
 };
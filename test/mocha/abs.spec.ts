@@ -10,4 +10,10 @@ describe('abs', function () {
     expect(nj.abs(x).tolist())
       .to.eql([1, 0, 1]);
   });
+  it('should compute the magnitude of complex values', function () {
+    const z = nj.complex64([{ re: 3, im: -4 }, -2]);
+    const abs = nj.abs(z);
+    expect(abs.dtype).to.equal('float32');
+    expect(abs.tolist()).to.eql([5, 2]);
+  });
 });
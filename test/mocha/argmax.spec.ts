@@ -0,0 +1,49 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('argmax', function () {
+  let x;
+  beforeEach(function () {
+    x = nj.array([[1, 5, 3], [4, 2, 6]]);
+  });
+  it('should return the index in the flattened array', function () {
+    expect(nj.argmax(x)).to.equal(5);
+    expect(nj.argmax(x.T)).to.equal(5);
+    expect(nj.argmax(x.T.slice(null, [1]))).to.equal(1);
+  });
+  it('should return the first occurrence', function () {
+    expect(nj.argmax([1, 3, 3, 2])).to.equal(1);
+  });
+  it('should return the first NaN', function () {
+    expect(nj.argmax([1, NaN, 3, NaN])).to.equal(1);
+  });
+  it('can compute the indices along an axis', function () {
+    const res = x.argmax({ axis: 0 });
+    expect(res.dtype).to.equal('int32');
+    expect(res.tolist()).to.eql([1, 0, 1]);
+    expect(x.argmax({ axis: -1 }).tolist()).to.eql([1, 2]);
+    expect(x.argmax({ axis: 1, keepdims: true }).tolist()).to.eql([[1], [2]]);
+  });
+  it('should raise an error on empty arrays', function () {
+    expect(function () {
+      nj.array([]).argmax();
+    }).to.throw(ValueError, 'attempt to get argmax of an empty sequence');
+  });
+});
+
+describe('argmin', function () {
+  it('should return the index in the flattened array', function () {
+    expect(nj.argmin([[4, 1], [1, 0]])).to.equal(3);
+    expect(nj.argmin([[4, 1], [1, 2]])).to.equal(1);
+  });
+  it('can compute the indices along an axis', function () {
+    const x = nj.array([[1, 5, 3], [4, 2, 6]], 'float32');
+    expect(nj.argmin(x, { axis: 0 }).tolist()).to.eql([0, 1, 0]);
+    expect(x.argmin({ axis: 1 }).tolist()).to.eql([0, 1]);
+  });
+});
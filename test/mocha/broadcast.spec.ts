@@ -0,0 +1,95 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('broadcast', function () {
+  describe('broadcastTo', function () {
+    it('can stretch a vector into a matrix without copying', function () {
+      const v = nj.array([1, 2, 3]);
+      const m = v.broadcastTo([2, 3]);
+      expect(m.shape).to.eql([2, 3]);
+      expect(m.tolist()).to.eql([[1, 2, 3], [1, 2, 3]]);
+      expect(m.selection.data).to.equal(v.selection.data);
+    });
+    it('can stretch size-1 axes', function () {
+      const c = nj.array([[1], [2]]);
+      expect(c.broadcastTo([2, 3]).tolist()).to.eql([[1, 1, 1], [2, 2, 2]]);
+    });
+    it('should raise an error if shapes are not compatible', function () {
+      expect(function () {
+        nj.arange(3).broadcastTo([2, 4]);
+      }).to.throw(ValueError, 'cannot broadcast array of shape (3) to shape (2,4)');
+    });
+  });
+
+  describe('binary operations', function () {
+    let m;
+    beforeEach(function () {
+      m = nj.arange(12).reshape(3, 4);
+    });
+    it('can add a row vector to each row of a matrix', function () {
+      expect(nj.ones([3, 4]).add([1, 2, 3, 4]).tolist()).to.eql([
+        [2, 3, 4, 5],
+        [2, 3, 4, 5],
+        [2, 3, 4, 5]]);
+    });
+    it('can subtract column means', function () {
+      const colMeans = nj.array([[4, 5, 6, 7]]);
+      expect(nj.subtract(m, colMeans).tolist()).to.eql([
+        [-4, -4, -4, -4],
+        [0, 0, 0, 0],
+        [4, 4, 4, 4]]);
+    });
+    it('can divide each row by a column vector', function () {
+      expect(m.divide([[1], [2], [4]]).tolist()).to.eql([
+        [0, 1, 2, 3],
+        [2, 2.5, 3, 3.5],
+        [2, 2.25, 2.5, 2.75]]);
+    });
+    it('can stretch size-1 axes on both operands', function () {
+      const col = nj.array([[0], [10], [20]]);
+      const row = nj.array([1, 2]);
+      const res = nj.add(col, row);
+      expect(res.shape).to.eql([3, 2]);
+      expect(res.tolist()).to.eql([[1, 2], [11, 12], [21, 22]]);
+      expect(nj.multiply(row, col).tolist()).to.eql([[0, 0], [10, 20], [20, 40]]);
+    });
+    it('can broadcast power and mod', function () {
+      expect(nj.power([[1], [2]], [1, 2, 3]).tolist()).to.eql([[1, 1, 1], [2, 4, 8]]);
+      expect(nj.mod([[5], [7]], [2, 3]).tolist()).to.eql([[1, 2], [1, 1]]);
+    });
+    it('can broadcast a number given as first operand', function () {
+      expect(nj.subtract(10, [1, 2, 3]).tolist()).to.eql([9, 8, 7]);
+    });
+    it('can broadcast in place when the output keeps its shape', function () {
+      const res = m.add([1, 1, 1, 1], false);
+      expect(res).to.equal(m);
+      expect(m.get(2, 3)).to.equal(12);
+    });
+    it('should not broadcast in place into a smaller array', function () {
+      const v = nj.arange(4);
+      expect(function () {
+        v.add(m, false);
+      }).to.throw(ValueError, "non-broadcastable output operand with shape (4) doesn't match the broadcast shape (3,4)");
+    });
+    it('should raise an error if shapes are not compatible', function () {
+      expect(function () {
+        m.add([1, 2, 3]);
+      }).to.throw(ValueError, 'operands could not be broadcast together with shapes (3,4) (3)');
+    });
+    it('can assign a broadcast value', function () {
+      const z = nj.zeros([2, 3]);
+      z.assign([1, 2, 3], false);
+      expect(z.tolist()).to.eql([[1, 2, 3], [1, 2, 3]]);
+    });
+    it('should keep the dtype of the first operand', function () {
+      const res = nj.uint8([[1, 2], [3, 4]]).add([10, 20]);
+      expect(res.dtype).to.equal('uint8');
+      expect(res.tolist()).to.eql([[11, 22], [13, 24]]);
+    });
+  });
+});
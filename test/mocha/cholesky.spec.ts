@@ -0,0 +1,27 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { LinAlgError } from "../../src/lib/errors";
+
+describe('linalg.cholesky', function () {
+  it('can decompose a positive definite matrix', function () {
+    const a = nj.array([[4, 12, -16], [12, 37, -43], [-16, -43, 98]]);
+    const l = nj.linalg.cholesky(a);
+    expect(l.dtype).to.equal('float64');
+    expect(l.tolist()).to.eql([[2, 0, 0], [6, 1, 0], [-8, 5, 3]]);
+    expect(nj.dot(l, l.T).tolist()).to.eql(a.tolist());
+  });
+  it('should raise an error if the matrix is not positive definite', function () {
+    expect(function () {
+      nj.linalg.cholesky([[1, 2], [2, 1]]);
+    }).to.throw(LinAlgError, 'Matrix is not positive definite');
+  });
+  it('should raise an error for non square matrices', function () {
+    expect(function () {
+      nj.linalg.cholesky([[1, 2, 3], [4, 5, 6]]);
+    }).to.throw(LinAlgError, 'Last 2 dimensions of the array must be square');
+  });
+});
@@ -0,0 +1,67 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('comparison', function () {
+  let x;
+  beforeEach(function () {
+    x = nj.array([[1, 2, 3], [4, 5, 6]]);
+  });
+  it('can compare an array with a scalar', function () {
+    const mask = nj.greater(x, 3);
+    expect(mask.dtype).to.equal('uint8');
+    expect(mask.tolist()).to.eql([[0, 0, 0], [1, 1, 1]]);
+    expect(nj.less_equal(x, 2).tolist()).to.eql([[1, 1, 0], [0, 0, 0]]);
+  });
+  it('can compare two arrays with broadcasting', function () {
+    expect(nj.less(x, [2, 2, 6]).tolist()).to.eql([[1, 0, 1], [0, 0, 0]]);
+    expect(nj.greater_equal(x, [[4], [5]]).tolist()).to.eql([[0, 0, 0], [0, 1, 1]]);
+  });
+  it('can test equality element-wise', function () {
+    expect(nj.equal_elementwise(x, [1, 0, 3]).tolist()).to.eql([[1, 0, 1], [0, 0, 0]]);
+    expect(nj.not_equal(x, [1, 0, 3]).tolist()).to.eql([[0, 1, 0], [1, 1, 1]]);
+  });
+  it('should treat NaN as unordered', function () {
+    expect(nj.greater([NaN, 1], 0).tolist()).to.eql([0, 1]);
+    expect(nj.not_equal([NaN], [NaN]).tolist()).to.eql([1]);
+  });
+  it('should raise an error if shapes are not compatible', function () {
+    expect(function () {
+      nj.greater(x, [1, 2]);
+    }).to.throw(ValueError, 'operands could not be broadcast together with shapes (2,3) (2)');
+  });
+  it('can broadcast any number of arrays', function () {
+    const [a, b, c] = nj.broadcast_arrays(x, [[1], [2]], 7);
+    expect(a.shape).to.eql([2, 3]);
+    expect(b.tolist()).to.eql([[1, 1, 1], [2, 2, 2]]);
+    expect(c.tolist()).to.eql([[7, 7, 7], [7, 7, 7]]);
+  });
+});
+
+describe('logical', function () {
+  const a = [0, 1, 0, 2];
+  const b = [0, 0, 3, 4];
+  it('can compute logical_and', function () {
+    expect(nj.logical_and(a, b).tolist()).to.eql([0, 0, 0, 1]);
+  });
+  it('can compute logical_or', function () {
+    expect(nj.logical_or(a, b).tolist()).to.eql([0, 1, 1, 1]);
+  });
+  it('can compute logical_xor', function () {
+    expect(nj.logical_xor(a, b).tolist()).to.eql([0, 1, 1, 0]);
+  });
+  it('can compute logical_not', function () {
+    const mask = nj.logical_not(a);
+    expect(mask.dtype).to.equal('uint8');
+    expect(mask.tolist()).to.eql([1, 0, 1, 0]);
+  });
+  it('can combine masks with broadcasting', function () {
+    const x = nj.arange(6).reshape(2, 3);
+    const mask = nj.logical_and(nj.greater(x, 0), nj.less(x, [[5], [5]]));
+    expect(mask.tolist()).to.eql([[0, 1, 1], [1, 1, 0]]);
+  });
+});
@@ -0,0 +1,210 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { NotImplementedError, ValueError } from '../../src/lib/errors';
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+describe('complex dtypes', function () {
+  it('should be inferred from complex values', function () {
+    const z = nj.array([[{ re: 1, im: 2 }, 3], [{ re: 0, im: -1 }, 4]]);
+    expect(z.dtype).to.equal('complex128');
+    expect(z.shape).to.eql([2, 2]);
+    expect(z.get(1, 0)).to.eql({ re: 0, im: -1 });
+    expect(z.tolist()).to.eql([
+      [{ re: 1, im: 2 }, { re: 3, im: 0 }],
+      [{ re: 0, im: -1 }, { re: 4, im: 0 }]
+    ]);
+  });
+  it('can be created from real values', function () {
+    const z = nj.complex64([1, 2]);
+    expect(z.dtype).to.equal('complex64');
+    expect(z.tolist()).to.eql([{ re: 1, im: 0 }, { re: 2, im: 0 }]);
+    expect(nj.zeros([2, 3], 'complex128').tolist()[1][2]).to.eql({ re: 0, im: 0 });
+    expect(nj.ones(2, 'complex64').tolist()).to.eql([{ re: 1, im: 0 }, { re: 1, im: 0 }]);
+  });
+  it('should support views', function () {
+    const z = nj.complex128([[{ re: 1, im: 1 }, 2], [3, { re: 4, im: -4 }]]);
+    expect(z.T.tolist()).to.eql([
+      [{ re: 1, im: 1 }, { re: 3, im: 0 }],
+      [{ re: 2, im: 0 }, { re: 4, im: -4 }]
+    ]);
+    expect(z.slice(1).flatten().tolist()).to.eql([{ re: 3, im: 0 }, { re: 4, im: -4 }]);
+    const c = z.clone();
+    c.set(0, 0, { re: 5, im: 6 });
+    expect(c.get(0, 0)).to.eql({ re: 5, im: 6 });
+    expect(z.get(0, 0)).to.eql({ re: 1, im: 1 });
+  });
+  it('can be converted to real dtypes, discarding the imaginary part', function () {
+    const z = nj.array([{ re: 1, im: 2 }, { re: 3, im: 4 }]);
+    z.dtype = 'float64';
+    expect(z.tolist()).to.eql([1, 3]);
+    const x = nj.float32([1, 2]);
+    x.dtype = 'complex64';
+    expect(x.tolist()).to.eql([{ re: 1, im: 0 }, { re: 2, im: 0 }]);
+  });
+  it('should be printed', function () {
+    expect(nj.array([{ re: 1, im: 2 }, { re: -0.5, im: -4 }]).toString())
+      .to.eql('array([    1+2j, -0.5-4j], dtype=complex128)');
+    expect(nj.complex64([[1, { re: 0, im: 1 }], [2, 3]]).toString())
+      .to.eql('' +
+      'array([[ 1+0j, 0+1j],\n' +
+      '       [ 2+0j, 3+0j]], dtype=complex64)');
+  });
+});
+
+describe('real and imag', function () {
+  it('should be views of complex arrays', function () {
+    const z = nj.array([{ re: 1, im: 2 }, { re: 3, im: -4 }]);
+    expect(z.real.tolist()).to.eql([1, 3]);
+    expect(nj.imag(z).tolist()).to.eql([2, -4]);
+    expect(nj.real(z).dtype).to.equal('float64');
+    z.imag.assign(0, false);
+    expect(z.tolist()).to.eql([{ re: 1, im: 0 }, { re: 3, im: 0 }]);
+  });
+  it('should work on views', function () {
+    const z = nj.array([[{ re: 1, im: 2 }, { re: 3, im: 4 }], [{ re: 5, im: 6 }, { re: 7, im: 8 }]]);
+    expect(z.T.real.tolist()).to.eql([[1, 5], [3, 7]]);
+    expect(z.slice(null, 1).imag.tolist()).to.eql([[4], [8]]);
+  });
+  it('should work on real arrays', function () {
+    const x = nj.array([1, 2]);
+    expect(nj.real(x)).to.equal(x);
+    expect(nj.imag(x).tolist()).to.eql([0, 0]);
+  });
+});
+
+describe('conj', function () {
+  it('should negate the imaginary part', function () {
+    const z = nj.array([{ re: 1, im: 2 }, { re: 3, im: -4 }]);
+    expect(nj.conj(z).tolist()).to.eql([{ re: 1, im: -2 }, { re: 3, im: 4 }]);
+    expect(z.conj().dtype).to.equal('complex128');
+    expect(z.get(0)).to.eql({ re: 1, im: 2 });
+  });
+  it('should copy real arrays', function () {
+    expect(nj.conj([1, -2]).tolist()).to.eql([1, -2]);
+  });
+});
+
+describe('angle', function () {
+  it('should compute the argument of complex values', function () {
+    const z = nj.array([{ re: 1, im: 1 }, { re: 0, im: -2 }, -1]);
+    expect(approx(nj.angle(z))).to.eql([785398, -1570796, 3141593]);
+    expect(approx(nj.angle(z, true))).to.eql([45e6, -90e6, 180e6]);
+  });
+  it('should work on real arrays', function () {
+    expect(nj.angle([2, -1, 0]).tolist()).to.eql([0, Math.PI, 0]);
+  });
+});
+
+describe('complex arithmetic', function () {
+  const a = nj.array([{ re: 1, im: 2 }, { re: 3, im: -4 }]);
+  const b = nj.array([{ re: 0, im: 1 }, { re: 2, im: 2 }]);
+
+  it('can add and subtract complex arrays', function () {
+    expect(a.add(b).tolist()).to.eql([{ re: 1, im: 3 }, { re: 5, im: -2 }]);
+    expect(nj.subtract(a, b).tolist()).to.eql([{ re: 1, im: 1 }, { re: 1, im: -6 }]);
+  });
+  it('can multiply and divide complex arrays', function () {
+    expect(a.multiply(b).tolist()).to.eql([{ re: -2, im: 1 }, { re: 14, im: -2 }]);
+    expect(approx(a.divide(b))).to.eql([{ re: 2e6, im: -1e6 }, { re: -0.25e6, im: -1.75e6 }]);
+    expect(approx(a.multiply(b).divide(b))).to.eql(approx(a));
+  });
+  it('should accept real and complex scalars', function () {
+    expect(a.add(1).tolist()).to.eql([{ re: 2, im: 2 }, { re: 4, im: -4 }]);
+    expect(a.divide(2).tolist()).to.eql([{ re: 0.5, im: 1 }, { re: 1.5, im: -2 }]);
+    expect(a.multiply({ re: 0, im: 1 }).tolist()).to.eql([{ re: -2, im: 1 }, { re: 4, im: 3 }]);
+  });
+  it('should promote real arrays to complex', function () {
+    const x = nj.array([1, 2]);
+    const sum = x.add(a);
+    expect(sum.dtype).to.equal('complex128');
+    expect(sum.tolist()).to.eql([{ re: 2, im: 2 }, { re: 5, im: -4 }]);
+    expect(nj.float32([2]).multiply(nj.complex64([{ re: 1, im: 1 }])).dtype).to.equal('complex64');
+    expect(nj.multiply([2, 3], [{ re: 1, im: 1 }, 2]).tolist()).to.eql([{ re: 2, im: 2 }, { re: 6, im: 0 }]);
+  });
+  it('should broadcast', function () {
+    expect(a.reshape(2, 1).add(b).tolist()).to.eql([
+      [{ re: 1, im: 3 }, { re: 3, im: 4 }],
+      [{ re: 3, im: -3 }, { re: 5, im: -2 }]
+    ]);
+  });
+  it('should broadcast promoted real operands', function () {
+    expect(nj.add(1, a).tolist()).to.eql([{ re: 2, im: 2 }, { re: 4, im: -4 }]);
+    expect(nj.subtract(1, a).tolist()).to.eql([{ re: 0, im: -2 }, { re: -2, im: 4 }]);
+    expect(approx(nj.divide(1, b))).to.eql([{ re: 0, im: -1e6 }, { re: 0.25e6, im: -0.25e6 }]);
+    expect(nj.multiply([[1], [2]], a).tolist()).to.eql([
+      [{ re: 1, im: 2 }, { re: 3, im: -4 }],
+      [{ re: 2, im: 4 }, { re: 6, im: -8 }]
+    ]);
+    const sum = nj.array([[1], [2]]).add(a);
+    expect(sum.dtype).to.equal('complex128');
+    expect(sum.tolist()).to.eql([
+      [{ re: 2, im: 2 }, { re: 4, im: -4 }],
+      [{ re: 3, im: 2 }, { re: 5, im: -4 }]
+    ]);
+  });
+  it('should update the array when copy is false', function () {
+    const c = a.clone();
+    expect(c.multiply(b, false)).to.equal(c);
+    expect(c.tolist()).to.eql([{ re: -2, im: 1 }, { re: 14, im: -2 }]);
+  });
+  it('should not store complex results in real arrays', function () {
+    expect(() => nj.float64([1, 2]).add(a, false))
+      .to.throw(ValueError, "Cannot cast ufunc 'add' output from dtype('complex128') to dtype('float64') with casting rule 'same_kind'");
+  });
+  it('can negate, round and compare complex arrays', function () {
+    expect(a.negative().tolist()).to.eql([{ re: -1, im: -2 }, { re: -3, im: 4 }]);
+    expect(nj.array([{ re: 1.4, im: -2.6 }]).round().tolist()).to.eql([{ re: 1, im: -3 }]);
+    expect(a.equal(a.clone())).to.equal(true);
+    expect(a.equal(b)).to.equal(false);
+    expect(nj.array([{ re: 1, im: 0 }]).equal([1])).to.equal(true);
+  });
+});
+
+describe('complex reductions', function () {
+  const a = nj.array([[{ re: 1, im: 2 }, { re: 3, im: -4 }], [{ re: 0, im: 1 }, { re: 2, im: 0 }]]);
+
+  it('can sum complex arrays', function () {
+    expect(a.sum()).to.eql({ re: 6, im: -1 });
+    expect(nj.sum(a, { axis: 0 }).tolist()).to.eql([{ re: 1, im: 3 }, { re: 5, im: -4 }]);
+    expect(a.sum({ axis: 1, keepdims: true }).dtype).to.equal('complex128');
+    expect(a.trace()).to.eql({ re: 3, im: 2 });
+  });
+  it('can average complex arrays', function () {
+    expect(a.mean()).to.eql({ re: 1.5, im: -0.25 });
+    expect(a.mean({ axis: 1 }).tolist()).to.eql([{ re: 2, im: -1 }, { re: 1, im: 0.5 }]);
+  });
+  it('can compare complex arrays element-wise', function () {
+    const b = nj.array([[{ re: 1, im: 2 }, { re: 3, im: 4 }], [{ re: 0, im: 1 }, 2]]);
+    expect(nj.equal_elementwise(a, b).tolist()).to.eql([[1, 0], [1, 1]]);
+    expect(nj.not_equal(a, b).tolist()).to.eql([[0, 1], [0, 0]]);
+    expect(nj.nonzero(nj.array([{ re: 0, im: 0 }, { re: 0, im: 1 }]))[0].tolist()).to.eql([1]);
+  });
+  it('can stack complex arrays', function () {
+    const c = nj.stack([a.pick(0), nj.float64([1, 2])]);
+    expect(c.dtype).to.equal('complex128');
+    expect(c.tolist()).to.eql([[{ re: 1, im: 2 }, { re: 3, im: -4 }], [{ re: 1, im: 0 }, { re: 2, im: 0 }]]);
+    expect(nj.stack([nj.complex64([1]), nj.complex64([2])]).dtype).to.equal('complex64');
+  });
+  it('should discard the imaginary parts when assigned to real arrays', function () {
+    expect(nj.zeros(2, 'float64').assign(a.pick(0)).tolist()).to.eql([1, 3]);
+  });
+  it('should raise an error for operations not implemented on complex arrays', function () {
+    expect(() => a.max()).to.throw(NotImplementedError, 'complex arrays are not supported by max');
+    expect(() => a.exp()).to.throw(NotImplementedError, 'complex arrays are not supported by exp');
+    expect(() => a.pow(2)).to.throw(NotImplementedError, 'complex arrays are not supported by pow');
+    expect(() => nj.array([1, 2]).pow(a.pick(0))).to.throw(NotImplementedError, 'complex arrays are not supported by pow');
+    expect(() => a.dot(a)).to.throw(NotImplementedError, 'complex arrays are not supported by dot');
+    expect(() => a.sort()).to.throw(NotImplementedError, 'complex arrays are not supported by sort');
+    expect(() => nj.sin(a)).to.throw(NotImplementedError, 'complex arrays are not supported by sin');
+    expect(() => nj.greater(a, 0)).to.throw(NotImplementedError, 'complex arrays are not supported by greater');
+    expect(() => nj.einsum('ii', a)).to.throw(NotImplementedError, 'complex arrays are not supported by einsum');
+    expect(() => nj.linalg.det(a)).to.throw(NotImplementedError, 'complex arrays are not supported by linalg');
+  });
+});
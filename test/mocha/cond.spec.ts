@@ -0,0 +1,24 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+describe('linalg.cond', function () {
+  const a = [[1, 0, -1], [0, 1, 0], [1, 0, 1]];
+
+  it('should use the 2-norm by default', function () {
+    expect(nj.linalg.cond(a)).to.be.closeTo(Math.SQRT2, 1e-12);
+    expect(nj.linalg.cond(a, -2)).to.be.closeTo(Math.SQRT1_2, 1e-12);
+  });
+  it('can use other norms', function () {
+    expect(nj.linalg.cond(a, 'fro')).to.be.closeTo(Math.sqrt(10), 1e-12);
+    expect(nj.linalg.cond(a, Infinity)).to.be.closeTo(2, 1e-12);
+    expect(nj.linalg.cond(a, 1)).to.be.closeTo(2, 1e-12);
+  });
+  it('should be infinite for singular matrices', function () {
+    expect(nj.linalg.cond([[1, 2], [2, 4]], 1)).to.equal(Infinity);
+    expect(nj.linalg.cond(nj.zeros([2, 2]))).to.equal(Infinity);
+  });
+});
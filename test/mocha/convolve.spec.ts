@@ -4,6 +4,7 @@
 import { expect } from 'chai';
 
 import nj from "../../src";
+import { ValueError } from '../../src/lib/errors';
 
 describe('convolve', function () {
   it('should work on vectors', function () {
@@ -90,6 +91,131 @@ describe('convolve', function () {
     x.convolve(filter);
   });
 
+  it('should support the full and same modes', function () {
+    const x = nj.arange(12).reshape(3, 4);
+    const filter = [[1, 2], [3, 4]];
+    expect(nj.convolve(x, filter, { mode: 'full' }).round().add(0).tolist())
+      .to.eql([
+      [0, 1, 4, 7, 6],
+      [4, 16, 26, 36, 26],
+      [20, 56, 66, 76, 50],
+      [24, 59, 66, 73, 44]]);
+    expect(nj.convolve(x, filter, { mode: 'same' }).round().add(0).tolist())
+      .to.eql([
+      [0, 1, 4, 7],
+      [4, 16, 26, 36],
+      [20, 56, 66, 76]]);
+    expect(nj.convolve([1, 2, 3], [0, 1, 0.5], { mode: 'same' }).multiply(2).round().tolist())
+      .to.eql([2, 5, 8]);
+  });
+
+  it('should extend the array following the boundary', function () {
+    const x = nj.arange(12).reshape(3, 4);
+    const filter = [[1, 2], [3, 4]];
+    expect(nj.convolve(x, filter, { mode: 'same', boundary: 'wrap' }).round().tolist())
+      .to.eql([
+      [74, 60, 70, 80],
+      [30, 16, 26, 36],
+      [70, 56, 66, 76]]);
+    expect(nj.convolve(x, filter, { mode: 'same', boundary: 'symmetric' }).round().add(0).tolist())
+      .to.eql([
+      [0, 4, 14, 24],
+      [12, 16, 26, 36],
+      [52, 56, 66, 76]]);
+    expect(nj.convolve(x, filter, { mode: 'same', boundary: 'reflect' }).round().tolist())
+      .to.eql([
+      [34, 32, 42, 52],
+      [18, 16, 26, 36],
+      [58, 56, 66, 76]]);
+    expect(nj.convolve([1, 2, 3], [1, 1, 1], { mode: 'full', fillvalue: 1 }).round().tolist())
+      .to.eql([3, 4, 6, 6, 5]);
+  });
+
+  it('should support the boundaries with the optimized filters', function () {
+    const x = nj.arange(12).reshape(3, 4);
+    const sobel = [[1, 2, 1], [0, 0, 0], [-1, -2, -1]];
+    expect(nj.convolve(x, sobel, { mode: 'same', boundary: 'symmetric' }).round().tolist())
+      .to.eql([
+      [16, 16, 16, 16],
+      [32, 32, 32, 32],
+      [16, 16, 16, 16]]);
+  });
+
+  it('should throw on invalid modes or boundaries', function () {
+    expect(() => nj.convolve([1, 2, 3], [1, 1], { mode: 'wide' as any }))
+      .to.throw(ValueError, "acceptable mode flags are 'valid', 'same', or 'full'");
+    expect(() => nj.convolve([1, 2, 3], [1, 1], { mode: 'full', boundary: 'circular' as any }))
+      .to.throw(ValueError, "acceptable boundary flags are 'fill', 'wrap', 'symmetric', or 'reflect'");
+  });
+
+  it('should keep the dtype of the array', function () {
+    const x = nj.int32(nj.arange(5 * 5).reshape(5, 5).tolist());
+    const filter = nj.arange(9).reshape(3, 3);
+    const conv = x.convolve(filter);
+    expect(conv.dtype).to.equal('int32');
+    expect(conv.tolist())
+      .to.eql([
+      [120, 156, 192],
+      [300, 336, 372],
+      [480, 516, 552]]);
+    expect(nj.float64([0.1, 0.2, 0.3]).convolve([1, 1]).tolist())
+      .to.eql([0.1 + 0.2, 0.2 + 0.3]);
+  });
+
+  it('should round integer outputs', function () {
+    const x = nj.uint8([10, 20, 30, 40]);
+    const conv = x.convolve([0.25, 0.5, 0.25]);
+    expect(conv.dtype).to.equal('uint8');
+    expect(conv.tolist()).to.eql([20, 30]);
+  });
+
+  it('should accept the dtype of the output', function () {
+    const x = nj.uint8([[100, 200], [150, 250]]);
+    const conv = x.convolve([[1, 1], [1, 1]], { dtype: 'uint16' });
+    expect(conv.dtype).to.equal('uint16');
+    expect(conv.tolist()).to.eql([[700]]);
+    expect(x.convolve([[0.5]], { dtype: 'float32' }).tolist())
+      .to.eql([[50, 100], [75, 125]]);
+  });
+
+  it('should work with separable filters', function () {
+    const x = nj.arange(7 * 6 * 2).reshape(7, 6, 2);
+    const filter = nj.array([1, 4, 6, 4, 1]).reshape(5, 1, 1)
+      .multiply(nj.array([1, 0, -1]).reshape(1, 3, 1))
+      .multiply(nj.array([2, 1]).reshape(1, 1, 2));
+    expect(x.convolve(filter).tolist())
+      .to.eql(x.fftconvolve(filter).round().add(0).tolist());
+  });
+
+  it('should compute integer outputs directly for large filters, keeping the dtype', function () {
+    const x = nj.int32(nj.arange(64 * 64).reshape(64, 64).tolist());
+    const filter = nj.ones([31, 31]);
+    const conv = x.convolve(filter);
+    expect(conv.dtype).to.equal('int32');
+    expect(conv.shape).to.eql([34, 34]);
+    expect(conv.get(0, 0)).to.equal(961 * (15 * 64 + 15));
+    expect(conv.get(33, 33)).to.equal(961 * (48 * 64 + 48));
+  });
+
+  it('should compute large non-separable integer filters exactly', function () {
+    const x = nj.int32(nj.arange(20 * 20).reshape(20, 20).multiply(2503).mod(100003).tolist());
+    const filter = nj.int32(nj.arange(9 * 9).reshape(9, 9).multiply(37).mod(101).subtract(50).tolist());
+    const conv = x.convolve(filter);
+    expect(conv.dtype).to.equal('int32');
+    expect(conv.shape).to.eql([12, 12]);
+    [[0, 0], [5, 7], [11, 11]].forEach(function ([i, j]) {
+      let expected = 0;
+      for (let k = 0; k < 9; k++) {
+        for (let l = 0; l < 9; l++) {
+          expected += filter.get(k, l) * x.get(i + 8 - k, j + 8 - l);
+        }
+      }
+      expect(conv.get(i, j)).to.equal(expected);
+    });
+    expect(x.convolve(filter, { dtype: 'float64' }).round().add(0).tolist())
+      .to.eql(conv.tolist());
+  });
+
   it('should be fast with 5x5 filter even if X is large', function () {
     this.timeout(1000);
     const N = 1000;
@@ -126,4 +252,16 @@ describe('fftconvolve', function () {
       [300, 336, 372],
       [480, 516, 552]]);
   });
+
+  it('should support the modes and boundaries', function () {
+    const x = nj.arange(12).reshape(3, 4);
+    const filter = nj.arange(4).reshape(2, 2).add(1);
+    expect(nj.fftconvolve(x, filter, { mode: 'full' }).round().add(0).tolist())
+      .to.eql(nj.convolve(x, filter, { mode: 'full' }).round().tolist());
+    expect(x.fftconvolve(filter, { mode: 'same', boundary: 'reflect' }).round().tolist())
+      .to.eql([
+      [34, 32, 42, 52],
+      [18, 16, 26, 36],
+      [58, 56, 66, 76]]);
+  });
 });
@@ -0,0 +1,56 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from '../../src/lib/errors';
+
+describe('correlate', function () {
+  it('should work on vectors', function () {
+    expect(nj.correlate([1, 2, 3], [0, 1, 0.5]).multiply(2).round().tolist())
+      .to.eql([7]);
+    expect(nj.correlate([1, 2, 3], [0, 1, 0.5], { mode: 'full' }).multiply(2).round().add(0).tolist())
+      .to.eql([1, 4, 7, 6, 0]);
+    expect(nj.correlate([1, 2, 3], [0, 1, 0.5], { mode: 'same' }).multiply(2).round().tolist())
+      .to.eql([4, 7, 6]);
+  });
+
+  it('should work on N-dimensional arrays', function () {
+    const x = nj.arange(5 * 5).reshape(5, 5);
+    const filter = nj.arange(9).reshape(3, 3);
+    expect(nj.correlate(x, filter).round().tolist())
+      .to.eql([
+      [312, 348, 384],
+      [492, 528, 564],
+      [672, 708, 744]]);
+  });
+});
+
+describe('correlate2d', function () {
+  const x = nj.arange(12).reshape(3, 4);
+  const filter = [[1, 2], [3, 4]];
+
+  it('should use the full mode by default', function () {
+    expect(nj.correlate2d(x, filter).round().tolist())
+      .to.eql([
+      [0, 4, 11, 18, 9],
+      [16, 34, 44, 54, 24],
+      [40, 74, 84, 94, 40],
+      [16, 26, 29, 32, 11]]);
+  });
+
+  it('should support the modes and boundaries', function () {
+    expect(nj.correlate2d(x, filter, { mode: 'valid' }).round().tolist())
+      .to.eql([
+      [34, 44, 54],
+      [74, 84, 94]]);
+    expect(nj.correlate2d(x, filter, { mode: 'same', boundary: 'wrap' }).round().tolist())
+      .to.eql(nj.correlate2d(x, filter, { boundary: 'wrap' }).slice([0, 3], [0, 4]).round().tolist());
+  });
+
+  it('should only accept 2-D arrays', function () {
+    expect(() => nj.correlate2d([1, 2, 3], [1, 1]))
+      .to.throw(ValueError, 'correlate2d inputs must both be 2-D arrays');
+  });
+});
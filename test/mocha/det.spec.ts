@@ -0,0 +1,36 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+describe('linalg.det', function () {
+  it('can compute the determinant of a matrix', function () {
+    expect(nj.linalg.det([[1, 2], [3, 4]])).to.be.closeTo(-2, 1e-12);
+    expect(nj.linalg.det([[2, 0, 0], [0, 3, 0], [0, 0, 4]])).to.equal(24);
+    expect(nj.linalg.det(nj.arange(4).reshape(2, 2).T)).to.be.closeTo(-2, 1e-12);
+  });
+  it('should be 0 for singular matrices', function () {
+    expect(nj.linalg.det([[1, 2], [2, 4]])).to.equal(0);
+  });
+  it('should take the row permutations into account', function () {
+    expect(nj.linalg.det([[0, 1], [1, 0]])).to.equal(-1);
+  });
+});
+
+describe('linalg.slogdet', function () {
+  it('can compute the sign and log of the determinant', function () {
+    const [sign, logdet] = nj.linalg.slogdet([[1, 2], [3, 4]]);
+    expect(sign).to.equal(-1);
+    expect(logdet).to.be.closeTo(Math.log(2), 1e-12);
+  });
+  it('should not overflow for large determinants', function () {
+    const [sign, logdet] = nj.linalg.slogdet(nj.identity(400).multiply(10));
+    expect(sign).to.equal(1);
+    expect(logdet).to.be.closeTo(400 * Math.log(10), 1e-9);
+  });
+  it('should return a zero sign for singular matrices', function () {
+    expect(nj.linalg.slogdet([[1, 2], [2, 4]])).to.eql([0, -Infinity]);
+  });
+});
@@ -32,10 +32,16 @@ describe('divide', function () {
     expect(m.divide(m).tolist())
       .to.eql(m.tolist());
   });
-  it('should throw an error when dividing an array with a vector', function () {
+  it('should broadcast a vector when dividing an array with it', function () {
+    const x1 = nj.arange(9).reshape(3, 3);
+    const x2 = nj.array([1, 2, 4]);
+    expect(nj.divide(x1, x2).tolist())
+      .to.eql([[0, 0.5, 0.5], [3, 2, 1.25], [6, 3.5, 2]]);
+  });
+  it('should throw an error when dividing arrays with incompatible shapes', function () {
     expect(function () {
       const x1 = nj.arange(9).reshape(3, 3);
-      const x2 = nj.arange(3);
+      const x2 = nj.arange(2);
       nj.divide(x1, x2);
     }).to.throw();
   });
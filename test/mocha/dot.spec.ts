@@ -72,4 +72,15 @@ describe('dot', function () {
     expect(V.dot(M).tolist())
       .to.eql(VdotM.tolist());
   });
+  it('should sum over the last axis of a and the second-to-last of b for N-d arrays', function () {
+    const a = nj.arange(24).reshape(2, 3, 4);
+    const b = nj.arange(24).reshape(3, 4, 2);
+    const c = nj.dot(a, b);
+    expect(c.shape).to.eql([2, 3, 3, 2]);
+    expect(c.pick(1, 2).tolist()).to.eql([[268, 354], [956, 1042], [1644, 1730]]);
+    expect(nj.dot(a, nj.arange(4)).tolist()).to.eql([[14, 38, 62], [86, 110, 134]]);
+    expect(nj.dot(nj.arange(3), a.T).tolist()).to.eql([[20, 56], [23, 59], [26, 62], [29, 65]]);
+    expect(nj.dot(nj.arange(6).reshape(2, 3), nj.arange(24).reshape(2, 3, 4)).shape).to.eql([2, 2, 4]);
+    expect(function () { nj.dot(a, a); }).to.throw('cannot compute the matrix product of given arrays');
+  });
 });
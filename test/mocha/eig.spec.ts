@@ -0,0 +1,60 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+describe('linalg.eig', function () {
+  it('can compute real eigenvalues and eigenvectors', function () {
+    const a = nj.array([[1, 2, 3], [4, 5, 6], [7, 8, 10]]);
+    const [w, v] = nj.linalg.eig(a);
+    expect(w.shape).to.eql([3]);
+    expect(v.shape).to.eql([3, 3]);
+    expect(w.multiply(1e5).round().tolist()).to.eql([1670749, -90574, 19825]);
+    expect(approx(nj.dot(a, v))).to.eql(approx(v.multiply(w.reshape(1, 3))));
+    expect(approx(v.multiply(v).sum({ axis: 0 }))).to.eql([1e6, 1e6, 1e6]);
+  });
+  it('should return complex results for complex eigenvalues', function () {
+    const [w, v] = nj.linalg.eig([[0, -1], [1, 0]]);
+    expect(w.dtype).to.equal('complex128');
+    expect(approx(w)).to.eql([{ re: 0, im: 1e6 }, { re: 0, im: -1e6 }]);
+    expect(v.dtype).to.equal('complex128');
+    expect(v.shape).to.eql([2, 2]);
+    // eigenvector of i: (1, -i) / sqrt(2)
+    expect(approx(v.slice(null, [1]))).to.eql([[{ re: 707107, im: 0 }], [{ re: 0, im: -707107 }]]);
+    // eigenvector of -i: (1, i) / sqrt(2)
+    expect(approx(v.slice(null, 1))).to.eql([[{ re: 707107, im: 0 }], [{ re: 0, im: 707107 }]]);
+  });
+  it('should satisfy a v = w v for mixed eigenvalues', function () {
+    const a = nj.array([[2, 0, 0, 1], [0, 1, -3, 0], [1, 2, 1, 0], [0, 0, 4, 3]]);
+    const [w, v] = nj.linalg.eig(a);
+    expect(w.shape).to.eql([4]);
+    expect(v.shape).to.eql([4, 4]);
+    for (let j = 0; j < 4; j++) {
+      const [wr, wi] = [w.real.get(j), w.imag.get(j)];
+      const vr = v.real.pick(null, j);
+      const vi = v.imag.pick(null, j);
+      expect(approx(nj.dot(a, vr))).to.eql(approx(vr.multiply(wr).subtract(vi.multiply(wi))));
+      expect(approx(nj.dot(a, vi))).to.eql(approx(vi.multiply(wr).add(vr.multiply(wi))));
+    }
+  });
+  it('should handle triangular and defective matrices', function () {
+    expect(nj.linalg.eig([[1, 2], [0, 3]])[0].tolist()).to.eql([1, 3]);
+    const [w, v] = nj.linalg.eig([[1, 1], [0, 1]]);
+    expect(w.tolist()).to.eql([1, 1]);
+    expect(approx(v.slice(null, [1]))).to.eql([[1e6], [0]]);
+  });
+});
+
+describe('linalg.eigvals', function () {
+  it('should return the eigenvalues only', function () {
+    const a = nj.array([[1, 2, 3], [4, 5, 6], [7, 8, 10]]);
+    expect(approx(nj.linalg.eigvals(a))).to.eql(approx(nj.linalg.eig(a)[0]));
+    expect(approx(nj.linalg.eigvals([[0, -1], [1, 0]]))).to.eql([{ re: 0, im: 1e6 }, { re: 0, im: -1e6 }]);
+  });
+});
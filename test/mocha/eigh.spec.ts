@@ -0,0 +1,40 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { LinAlgError } from "../../src/lib/errors";
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+describe('linalg.eigh', function () {
+  it('should return ascending eigenvalues and orthonormal eigenvectors', function () {
+    const a = nj.array([[4, 1, 2], [1, 3, 0], [2, 0, 5]]);
+    const [w, v] = nj.linalg.eigh(a);
+    expect(w.shape).to.eql([3]);
+    expect(v.shape).to.eql([3, 3]);
+    expect(w.get(0)).to.be.lessThan(w.get(1));
+    expect(w.get(1)).to.be.lessThan(w.get(2));
+    expect(approx(nj.dot(v.T, v))).to.eql(approx(nj.identity(3)));
+    expect(approx(nj.dot(a, v))).to.eql(approx(v.multiply(w.reshape(1, 3))));
+  });
+  it('can compute simple eigenvalues', function () {
+    const [w, v] = nj.linalg.eigh([[2, 1], [1, 2]]);
+    expect(approx(w)).to.eql([1e6, 3e6]);
+    expect(approx(nj.abs(v.slice(null, [1])))).to.eql([[707107], [707107]]);
+    expect(nj.linalg.eigh(nj.identity(3))[0].tolist()).to.eql([1, 1, 1]);
+  });
+  it('should only use the given triangle', function () {
+    const a = nj.array([[2, 100], [1, 2]]);
+    expect(approx(nj.linalg.eigh(a)[0])).to.eql([1e6, 3e6]);
+    expect(approx(nj.linalg.eigh(a, 'U')[0])).to.eql([-98e6, 102e6]);
+  });
+  it('should raise an error for non square matrices', function () {
+    expect(function () {
+      nj.linalg.eigh([[1, 2, 3], [4, 5, 6]]);
+    }).to.throw(LinAlgError, 'Last 2 dimensions of the array must be square');
+  });
+});
@@ -0,0 +1,80 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('einsum', function () {
+  const a = nj.arange(6).reshape(2, 3);
+  const b = nj.arange(12).reshape(3, 4);
+  const c = nj.arange(24).reshape(2, 3, 4);
+
+  it('can compute matrix products', function () {
+    expect(nj.einsum('ij,jk->ik', a, b).tolist()).to.eql(nj.dot(a, b).tolist());
+    expect(nj.einsum('ij,jk', a, b).tolist()).to.eql(nj.dot(a, b).tolist());
+    const d = nj.arange(40).reshape(2, 4, 5);
+    expect(nj.einsum('bij,bjk->bik', c, d).tolist()).to.eql(nj.matmul(c, d).tolist());
+  });
+  it('can transpose and sum', function () {
+    expect(nj.einsum('ij->ji', a).tolist()).to.eql(a.T.tolist());
+    expect(nj.einsum('ji', a).tolist()).to.eql(a.T.tolist());
+    expect(nj.einsum('ij->', a).tolist()).to.eql([15]);
+    expect(nj.einsum('ijk->j', c).tolist()).to.eql([60, 92, 124]);
+  });
+  it('can compute inner and outer products', function () {
+    expect(nj.einsum('i,i', [1, 2, 3], [4, 5, 6]).tolist()).to.eql([32]);
+    expect(nj.einsum('i,j->ij', [1, 2], [3, 4, 5]).tolist()).to.eql([[3, 4, 5], [6, 8, 10]]);
+    expect(nj.einsum('i,i,i->i', [1, 2], [3, 4], [5, 6]).tolist()).to.eql([15, 48]);
+  });
+  it('should take diagonals for repeated indices', function () {
+    const m = nj.arange(9).reshape(3, 3);
+    expect(nj.einsum('ii->i', m).tolist()).to.eql([0, 4, 8]);
+    expect(nj.einsum('ii', m).tolist()).to.eql([12]);
+    expect(nj.einsum('iij,jk->ik', nj.arange(18).reshape(3, 3, 2), [[1], [1]]).tolist())
+      .to.eql([[1], [17], [33]]);
+  });
+  it('should broadcast the dimensions covered by an ellipsis', function () {
+    const res = nj.einsum('...ij,...jk->...ik', c, nj.arange(8).reshape(4, 2));
+    expect(res.shape).to.eql([2, 3, 2]);
+    expect(res.pick(1).tolist()).to.eql([[172, 226], [220, 290], [268, 354]]);
+    expect(nj.einsum('...i,...i->...', a, [0, 1, 2]).tolist()).to.eql([5, 14]);
+    expect(nj.einsum('...i,...i', nj.ones([2, 1, 3]), nj.ones([4, 3])).shape).to.eql([2, 4]);
+    expect(nj.einsum('i...->...', a).tolist()).to.eql([3, 5, 7]);
+  });
+  it('should contract several operands', function () {
+    const d = nj.arange(8).reshape(4, 2);
+    expect(nj.einsum('ij,jk,kl->il', a, b, d).tolist()).to.eql(nj.dot(nj.dot(a, b), d).tolist());
+    expect(nj.einsum('ab,cd->', [[1, 2]], [[3], [4]]).tolist()).to.eql([21]);
+  });
+  it('should keep the dtype of the first operand', function () {
+    expect(nj.einsum('ij,jk', nj.int32(a.tolist()), b).dtype).to.equal('int32');
+  });
+  it('should raise errors for invalid subscripts', function () {
+    expect(function () {
+      nj.einsum('ij,jk', a);
+    }).to.throw(ValueError, 'fewer operands provided to einstein sum function than specified in the subscripts string');
+    expect(function () {
+      nj.einsum('ijk', a);
+    }).to.throw(ValueError, 'einstein sum subscripts string contains too many subscripts for operand 0');
+    expect(function () {
+      nj.einsum('i', a);
+    }).to.throw(ValueError, "operand has more dimensions than subscripts given in einstein sum, but no '...' ellipsis provided to broadcast the extra dimensions.");
+    expect(function () {
+      nj.einsum('ij->k', a);
+    }).to.throw(ValueError, "einstein sum subscripts string included output subscript 'k' which never appeared in an input");
+    expect(function () {
+      nj.einsum('ij->ii', a);
+    }).to.throw(ValueError, "einstein sum subscripts string includes output subscript 'i' multiple times");
+    expect(function () {
+      nj.einsum('i1', a);
+    }).to.throw(ValueError, "invalid subscript '1' in einstein sum subscripts string, subscripts must be letters");
+    expect(function () {
+      nj.einsum('ij,ij', a, b);
+    }).to.throw(ValueError, "size of label 'i' for operand 1 (3) does not match previous terms (2).");
+    expect(function () {
+      nj.einsum('ii', a);
+    }).to.throw(ValueError, "dimensions in operand 0 for collapsing index 'i' don't match (2 != 3)");
+  });
+});
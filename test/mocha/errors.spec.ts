@@ -4,7 +4,7 @@
 import { expect } from 'chai';
 
 import * as errors from "../../src/lib/errors";
-import { ValueError, ConfigError, NotImplementedError}  from "../../src/lib/errors"
+import { ValueError, ConfigError, NotImplementedError, IndexError, LinAlgError}  from "../../src/lib/errors"
 
 describe('errors', function () {
   it('can be a ValueError', function () {
@@ -22,4 +22,14 @@ describe('errors', function () {
       throw new errors.NotImplementedError();
     }).to.throw(NotImplementedError);  
   });
+  it('can be an IndexError', function () {
+    expect(function () {
+      throw new errors.IndexError('txt...');
+    }).to.throw(IndexError, 'txt...');
+  });
+  it('can be a LinAlgError', function () {
+    expect(function () {
+      throw new errors.LinAlgError('txt...');
+    }).to.throw(LinAlgError, 'txt...');
+  });
 });
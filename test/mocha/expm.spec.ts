@@ -0,0 +1,29 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+describe('linalg.expm', function () {
+  it('should compute the exponential of diagonal matrices', function () {
+    expect(nj.linalg.expm(nj.zeros([3, 3])).tolist()).to.eql(nj.identity(3).tolist());
+    expect(approx(nj.linalg.expm([[1e-3, 0], [0, 2]])))
+      .to.eql(approx(nj.array([[Math.exp(1e-3), 0], [0, Math.exp(2)]])));
+  });
+  it('should compute rotations', function () {
+    const [c, s] = [Math.cos(1), Math.sin(1)];
+    expect(approx(nj.linalg.expm([[0, 1], [-1, 0]]))).to.eql(approx(nj.array([[c, s], [-s, c]])));
+  });
+  it('should scale and square matrices with large norms', function () {
+    expect(nj.linalg.expm([[1, 2], [3, 4]]).multiply(1e5).round().tolist())
+      .to.eql([[5196896, 7473656], [11210485, 16407380]]);
+    const e = Math.exp(10);
+    expect(approx(nj.linalg.expm([[10, 1], [0, 10]]).divide(e)))
+      .to.eql([[1e6, 1e6], [0, 1e6]]);
+  });
+});
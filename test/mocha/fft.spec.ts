@@ -4,6 +4,7 @@
 import { expect } from 'chai';
 
 import nj from "../../src";
+import { ValueError } from '../../src/lib/errors';
 
 describe('fft', function () {
   it('should work on vectors', function () {
@@ -13,4 +14,71 @@ describe('fft', function () {
     expect(ifft.multiply(10000).round().tolist())
       .to.eql(C.multiply(10000).round().tolist());
   });
+  it('should keep the sign convention of real and imaginary parts along the last axis', function () {
+    const delta = nj.array([[0, 0], [1, 0], [0, 0], [0, 0]]);
+    expect(nj.fft(delta).round().add(0).tolist())
+      .to.eql([[1, 0], [0, 1], [-1, 0], [0, -1]]);
+    expect(nj.ifft(delta).multiply(4).round().add(0).tolist())
+      .to.eql([[1, 0], [0, -1], [-1, 0], [0, 1]]);
+    const x = nj.array([[[1, 0], [2, -1]], [[0, -1], [-1, 2]], [[3, 1], [0.5, 0]]]);
+    expect(nj.fft(x).multiply(1000).round().add(0).tolist())
+      .to.eql([[[5500, 1000], [2500, -1000]], [[1750, -5897], [714, 701]], [[1750, 1897], [-6214, 3299]]]);
+  });
+  it('should follow the sign convention of NumPy for complex arrays', function () {
+    const delta = nj.complex128([0, 1, 0, 0]);
+    expect(nj.fft(delta).round().add(0).tolist())
+      .to.eql([{ re: 1, im: 0 }, { re: 0, im: -1 }, { re: -1, im: 0 }, { re: 0, im: 1 }]);
+    expect(nj.ifft(delta).multiply(4).round().add(0).tolist())
+      .to.eql([{ re: 1, im: 0 }, { re: 0, im: 1 }, { re: -1, im: 0 }, { re: 0, im: -1 }]);
+  });
+  it('should accept and return complex arrays', function () {
+    const z = nj.array([{ re: 1, im: 0 }, { re: 2, im: -1 }, { re: 0, im: -1 }, { re: -1, im: 2 }]);
+    const fft = nj.fft(z);
+    expect(fft.dtype).to.equal('complex128');
+    expect(fft.multiply(10000).round().add(0).tolist())
+      .to.eql([{ re: 20000, im: 0 }, { re: -20000, im: -20000 }, { re: 0, im: -20000 }, { re: 40000, im: 40000 }]);
+    expect(nj.ifft(fft).multiply(10000).round().add(0).tolist())
+      .to.eql(z.multiply(10000).tolist());
+  });
+  it('should transform complex arrays over all the axes', function () {
+    const z = nj.complex64([[1, 2], [3, 4]]);
+    expect(nj.fft(z).round().add(0).tolist())
+      .to.eql([[{ re: 10, im: 0 }, { re: -2, im: 0 }], [{ re: -4, im: 0 }, { re: 0, im: 0 }]]);
+    expect(z.dtype).to.equal('complex64');
+  });
+  it('can transform along an axis', function () {
+    const z = nj.array([[1, 2, 3, 4], [0, { re: 0, im: 1 }, 0, 0]]);
+    expect(nj.fft(z, null, -1).tolist()).to.eql([
+      [{ re: 10, im: 0 }, { re: -2, im: 2 }, { re: -2, im: 0 }, { re: -2, im: -2 }],
+      [{ re: 0, im: 1 }, { re: 1, im: 0 }, { re: 0, im: -1 }, { re: -1, im: 0 }]
+    ]);
+    expect(nj.fft(z, null, 0).tolist()).to.eql([
+      [{ re: 1, im: 0 }, { re: 2, im: 1 }, { re: 3, im: 0 }, { re: 4, im: 0 }],
+      [{ re: 1, im: 0 }, { re: 2, im: -1 }, { re: 3, im: 0 }, { re: 4, im: 0 }]
+    ]);
+    expect(nj.ifft(nj.fft(z, null, 0), null, 0).tolist()).to.eql(z.tolist());
+  });
+  it('should truncate or pad the input to n points', function () {
+    const z = nj.complex128([1, 2, 3]);
+    expect(nj.fft(z, 2).tolist()).to.eql([{ re: 3, im: 0 }, { re: -1, im: 0 }]);
+    expect(nj.fft(z, 4).multiply(1e6).round().add(0).tolist())
+      .to.eql([{ re: 6e6, im: 0 }, { re: -2e6, im: -2e6 }, { re: 2e6, im: 0 }, { re: -2e6, im: 2e6 }]);
+  });
+  it('should transform pairs of real and imaginary parts along an axis', function () {
+    // (channels, time, 2)
+    const x = nj.array([[[1, 0], [1, 0]], [[1, 0], [-1, 0]]]);
+    expect(nj.fft(x, null, 1).add(0).tolist()).to.eql([[[2, 0], [0, 0]], [[0, 0], [2, 0]]]);
+    expect(nj.fft(x, 4, -1).shape).to.eql([2, 4, 2]);
+  });
+  it('should support normalization modes', function () {
+    const z = nj.complex128([1, 2, 3, 4]);
+    expect(nj.fft(z, null, null, 'forward').tolist())
+      .to.eql([{ re: 2.5, im: 0 }, { re: -0.5, im: 0.5 }, { re: -0.5, im: 0 }, { re: -0.5, im: -0.5 }]);
+    expect(nj.fft(z, null, null, 'ortho').tolist())
+      .to.eql([{ re: 5, im: 0 }, { re: -1, im: 1 }, { re: -1, im: 0 }, { re: -1, im: -1 }]);
+    expect(nj.ifft(nj.fft(z, null, null, 'ortho'), null, null, 'ortho').tolist()).to.eql(z.tolist());
+    expect(nj.ifft(nj.fft(z, null, null, 'forward'), null, null, 'forward').tolist()).to.eql(z.tolist());
+    expect(() => nj.fft(z, null, null, 'unitary' as any))
+      .to.throw(ValueError, 'Invalid norm value unitary; should be "backward","ortho" or "forward".');
+  });
 });
@@ -0,0 +1,21 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+describe('fft.fftfreq', function () {
+  it('should return the sample frequencies', function () {
+    expect(nj.fft.fftfreq(4).tolist()).to.eql([0, 0.25, -0.5, -0.25]);
+    expect(nj.fft.fftfreq(5, 0.1).multiply(1e6).round().tolist())
+      .to.eql([0, 2e6, 4e6, -4e6, -2e6]);
+  });
+});
+
+describe('fft.rfftfreq', function () {
+  it('should return the non-negative sample frequencies', function () {
+    expect(nj.fft.rfftfreq(4).tolist()).to.eql([0, 0.25, 0.5]);
+    expect(nj.fft.rfftfreq(5, 0.5).tolist()).to.eql([0, 0.4, 0.8]);
+  });
+});
@@ -0,0 +1,61 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from '../../src/lib/errors';
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+describe('fft.fftn', function () {
+  it('should transform over all the axes', function () {
+    const z = nj.complex128([[1, 2], [3, 4]]);
+    expect(nj.fft.fftn(z).tolist()).to.eql([
+      [{ re: 10, im: 0 }, { re: -2, im: 0 }],
+      [{ re: -4, im: 0 }, { re: 0, im: 0 }]
+    ]);
+    expect(approx(nj.fft.ifftn(nj.fft.fftn(z)))).to.eql(approx(z));
+  });
+  it('should transform the last axes of the given shape', function () {
+    const z = nj.complex128(nj.arange(24).reshape(2, 3, 4).tolist());
+    const X = nj.fft.fftn(z, [3, 2]);
+    expect(X.shape).to.eql([2, 3, 2]);
+    expect(approx(X)).to.eql(approx(nj.fft.fftn(z.slice(null, null, [2]), null, [1, 2])));
+  });
+  it('should transform the given axes', function () {
+    const z = nj.random([2, 3, 4]).multiply(nj.array([{ re: 1, im: 1 }]));
+    expect(approx(nj.fft.fftn(z, null, [0, 2]))).to.eql(approx(nj.fft(nj.fft(z, null, 0), null, 2)));
+    expect(approx(nj.fft.fftn(z, null, [2, 0], 'ortho'))).to.eql(approx(nj.fft.fftn(z, null, [0, 2], 'ortho')));
+  });
+  it('should validate its arguments', function () {
+    const z = nj.complex128([[1, 2], [3, 4]]);
+    expect(() => nj.fft.fftn(z, [2], [0, 1]))
+      .to.throw(ValueError, 'Shape and axes have different lengths.');
+    expect(() => nj.fft.fftn(z, null, [0, 0]))
+      .to.throw(ValueError, 'Duplicate axes given.');
+    expect(() => nj.fft.fftn(z, null, [2]))
+      .to.throw(ValueError, 'axis 2 is out of bounds for array of dimension 2');
+  });
+});
+
+describe('fft.fft2', function () {
+  it('should transform over the last two axes', function () {
+    const z = nj.random([3, 4, 5]).multiply(nj.array([{ re: 1, im: -1 }]));
+    expect(approx(nj.fft.fft2(z))).to.eql(approx(nj.fft.fftn(z, null, [1, 2])));
+    expect(approx(nj.fft.ifft2(nj.fft.fft2(z)))).to.eql(approx(z));
+  });
+  it('should support normalization modes', function () {
+    const z = nj.complex128([[1, 2], [3, 4]]);
+    expect(nj.fft.fft2(z, null, [-2, -1], 'forward').tolist()).to.eql([
+      [{ re: 2.5, im: 0 }, { re: -0.5, im: 0 }],
+      [{ re: -1, im: 0 }, { re: 0, im: 0 }]
+    ]);
+    expect(nj.fft.ifft2(z, null, [-2, -1], 'forward').tolist()).to.eql([
+      [{ re: 10, im: 0 }, { re: -2, im: 0 }],
+      [{ re: -4, im: 0 }, { re: 0, im: 0 }]
+    ]);
+  });
+});
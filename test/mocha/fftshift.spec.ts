@@ -0,0 +1,32 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+describe('fft.fftshift', function () {
+  it('should move the zero frequency to the center', function () {
+    expect(nj.fft.fftshift(nj.fft.fftfreq(5)).multiply(5).round().add(0).tolist())
+      .to.eql([-2, -1, 0, 1, 2]);
+    expect(nj.fft.fftshift([0, 1, 2, 3]).tolist()).to.eql([2, 3, 0, 1]);
+  });
+  it('should shift all the axes by default', function () {
+    const x = nj.arange(6).reshape(2, 3);
+    expect(nj.fft.fftshift(x).tolist()).to.eql([[5, 3, 4], [2, 0, 1]]);
+    expect(nj.fft.fftshift(x, 1).tolist()).to.eql([[2, 0, 1], [5, 3, 4]]);
+    expect(nj.fft.fftshift(x, [-2]).tolist()).to.eql([[3, 4, 5], [0, 1, 2]]);
+  });
+  it('should support complex arrays', function () {
+    const z = nj.array([{ re: 0, im: 1 }, 1, 2]);
+    expect(nj.fft.fftshift(z).tolist()).to.eql([{ re: 2, im: 0 }, { re: 0, im: 1 }, { re: 1, im: 0 }]);
+  });
+});
+
+describe('fft.ifftshift', function () {
+  it('should invert fftshift', function () {
+    const x = nj.arange(15).reshape(3, 5);
+    expect(nj.fft.ifftshift(nj.fft.fftshift(x)).tolist()).to.eql(x.tolist());
+    expect(nj.fft.ifftshift([0, 1, 2, 3, 4]).tolist()).to.eql([2, 3, 4, 0, 1]);
+  });
+});
@@ -0,0 +1,55 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { IndexError, ValueError } from "../../src/lib/errors";
+
+describe('index', function () {
+  let x;
+  beforeEach(function () {
+    x = nj.arange(12).reshape(3, 4);
+  });
+  it('can select elements with index arrays', function () {
+    expect(x.index([0, 2], [1, -1]).tolist()).to.eql([1, 11]);
+  });
+  it('should broadcast index arrays', function () {
+    expect(x.index([[0], [2]], [0, 3]).tolist()).to.eql([[0, 3], [8, 11]]);
+  });
+  it('should keep the axes which are not indexed', function () {
+    expect(x.index([2, 0]).tolist()).to.eql([[8, 9, 10, 11], [0, 1, 2, 3]]);
+  });
+  it('should keep the dtype', function () {
+    expect(nj.float32([1.5, 2.5]).index([1]).dtype).to.equal('float32');
+  });
+  it('should raise an error if too many indices are given', function () {
+    expect(function () {
+      x.index([0], [0], [0]);
+    }).to.throw(IndexError, 'too many indices for array: array is 2-dimensional, but 3 were indexed');
+  });
+  it('can assign values selected by index arrays', function () {
+    x.setIndex([[0, 2], [1, 0]], [-1, -2]);
+    expect(x.pick(0).tolist()).to.eql([0, -1, 2, 3]);
+    expect(x.pick(2).tolist()).to.eql([-2, 9, 10, 11]);
+    x.setIndex([[1]], 0);
+    expect(x.pick(1).tolist()).to.eql([0, 0, 0, 0]);
+  });
+});
+
+describe('ix_', function () {
+  it('should build an open mesh', function () {
+    const [rows, cols] = nj.ix_([0, 2], [3, 1]);
+    expect(rows.shape).to.eql([2, 1]);
+    expect(cols.shape).to.eql([1, 2]);
+  });
+  it('can select the cross product of index lists', function () {
+    const x = nj.arange(12).reshape(3, 4);
+    expect(x.index(...nj.ix_([0, 2], [3, 1])).tolist()).to.eql([[3, 1], [11, 9]]);
+  });
+  it('should raise an error if a sequence is not 1-D', function () {
+    expect(function () {
+      nj.ix_([[0]]);
+    }).to.throw(ValueError, 'Cross index must be 1 dimensional');
+  });
+});
@@ -0,0 +1,26 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('inner', function () {
+  it('should compute the inner product of two vectors', function () {
+    expect(nj.inner([1, 2, 3], [0, 1, 0]).tolist()).to.eql([2]);
+  });
+  it('should sum over the last axes', function () {
+    const a = nj.arange(24).reshape(2, 3, 4);
+    expect(nj.inner(a, nj.arange(4)).tolist())
+      .to.eql([[14, 38, 62], [86, 110, 134]]);
+    const res = nj.inner(nj.arange(6).reshape(2, 3), nj.arange(12).reshape(2, 2, 3));
+    expect(res.shape).to.eql([2, 2, 2]);
+    expect(res.tolist()).to.eql([[[5, 14], [23, 32]], [[14, 50], [86, 122]]]);
+  });
+  it('should raise an error if the last dimensions do not match', function () {
+    expect(function () {
+      nj.inner([1, 2, 3], [1, 2]);
+    }).to.throw(ValueError, 'shapes (3) and (2) not aligned: 3 (dim 0) != 2 (dim 0)');
+  });
+});
@@ -0,0 +1,35 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { LinAlgError } from "../../src/lib/errors";
+
+describe('linalg.inv', function () {
+  it('can invert a matrix', function () {
+    const a = nj.array([[1, 2], [3, 4]]);
+    const inv = nj.linalg.inv(a);
+    expect(inv.dtype).to.equal('float64');
+    expect(inv.multiply(1e6).round().tolist())
+      .to.eql([[-2e6, 1e6], [1.5e6, -0.5e6]]);
+  });
+  it('should give the identity when multiplied by the matrix', function () {
+    const a = nj.array([[0, 2, 1], [4, -1, 3], [2, 5, 7]], 'int32');
+    expect(nj.dot(a, nj.linalg.inv(a)).multiply(1e6).round().tolist())
+      .to.eql(nj.identity(3).multiply(1e6).tolist());
+  });
+  it('should raise an error for singular matrices', function () {
+    expect(function () {
+      nj.linalg.inv([[1, 2], [2, 4]]);
+    }).to.throw(LinAlgError, 'Singular matrix');
+  });
+  it('should raise an error for non square matrices', function () {
+    expect(function () {
+      nj.linalg.inv([[1, 2, 3], [4, 5, 6]]);
+    }).to.throw(LinAlgError, 'Last 2 dimensions of the array must be square');
+    expect(function () {
+      nj.linalg.inv([1, 2]);
+    }).to.throw(LinAlgError, '1-dimensional array given. Array must be two-dimensional');
+  });
+});
@@ -0,0 +1,23 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+describe('kron', function () {
+  it('should compute the Kronecker product of vectors', function () {
+    expect(nj.kron([1, 10, 100], [5, 6, 7]).tolist())
+      .to.eql([5, 6, 7, 50, 60, 70, 500, 600, 700]);
+  });
+  it('should compute the Kronecker product of matrices', function () {
+    expect(nj.kron(nj.identity(2), nj.ones([2, 2])).tolist())
+      .to.eql([[1, 1, 0, 0], [1, 1, 0, 0], [0, 0, 1, 1], [0, 0, 1, 1]]);
+  });
+  it('should prepend ones to the shape with fewer dimensions', function () {
+    const res = nj.kron([[1, 2], [3, 4]], [1, -1]);
+    expect(res.shape).to.eql([2, 4]);
+    expect(res.tolist()).to.eql([[1, -1, 2, -2], [3, -3, 4, -4]]);
+    expect(nj.kron(nj.ones([2, 2, 2]), nj.ones([3, 1])).shape).to.eql([2, 6, 2]);
+  });
+});
@@ -0,0 +1,43 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+describe('linalg.lstsq', function () {
+  it('can fit a line', function () {
+    // y = 1 * x - 1
+    const x = nj.array([0, 1, 2, 3]);
+    const y = nj.array([-1, 0.2, 0.9, 2.1]);
+    const a = nj.stack([x, nj.ones([4])], -1);
+    const [sol, residuals, rank, s] = nj.linalg.lstsq(a, y);
+    expect(approx(sol)).to.eql([1e6, -0.95e6]);
+    expect(approx(residuals)).to.eql([0.05e6]);
+    expect(rank).to.equal(2);
+    expect(s.shape).to.eql([2]);
+  });
+  it('can solve for multiple right-hand sides', function () {
+    const a = nj.array([[1, 0], [0, 1], [1, 1]]);
+    const [sol, residuals] = nj.linalg.lstsq(a, [[1, 2], [1, 2], [2, 4]]);
+    expect(approx(sol)).to.eql([[1e6, 2e6], [1e6, 2e6]]);
+    expect(residuals.shape).to.eql([2]);
+    expect(approx(residuals)).to.eql([0, 0]);
+  });
+  it('should return the minimum norm solution of rank deficient systems', function () {
+    const [sol, residuals, rank] = nj.linalg.lstsq([[1, 1], [1, 1]], [1, 2]);
+    expect(approx(sol)).to.eql([0.75e6, 0.75e6]);
+    expect(residuals.shape).to.eql([0]);
+    expect(rank).to.equal(1);
+  });
+  it('should raise an error if b is not compatible', function () {
+    expect(function () {
+      nj.linalg.lstsq([[1, 0], [0, 1], [1, 1]], [1, 2]);
+    }).to.throw(ValueError, 'lstsq: b of shape (2) is incompatible with a of shape (3,2)');
+  });
+});
@@ -0,0 +1,41 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+function approx (arr) {
+  return arr.multiply(1e6).round().tolist();
+}
+
+describe('linalg.lu', function () {
+  it('can decompose a square matrix', function () {
+    const a = nj.array([[1, 2, 0], [3, 4, 4], [5, 6, 3]]);
+    const [p, l, u] = nj.linalg.lu(a);
+    expect(p.tolist()).to.eql([[0, 1, 0], [0, 0, 1], [1, 0, 0]]);
+    expect(l.shape).to.eql([3, 3]);
+    expect(u.shape).to.eql([3, 3]);
+    expect(l.get(0, 0)).to.equal(1);
+    expect(l.get(0, 1)).to.equal(0);
+    expect(u.get(1, 0)).to.equal(0);
+    expect(approx(nj.dot(p, nj.dot(l, u)))).to.eql(approx(a));
+  });
+  it('can decompose rectangular matrices', function () {
+    const wide = nj.array([[1, 2, 3, 4], [5, 6, 7, 8], [2, 1, 0, 1]]);
+    let [p, l, u] = nj.linalg.lu(wide);
+    expect([p.shape, l.shape, u.shape]).to.eql([[3, 3], [3, 3], [3, 4]]);
+    expect(approx(nj.dot(p, nj.dot(l, u)))).to.eql(approx(wide));
+
+    const tall = wide.T;
+    [p, l, u] = nj.linalg.lu(tall);
+    expect([p.shape, l.shape, u.shape]).to.eql([[4, 4], [4, 3], [3, 3]]);
+    expect(approx(nj.dot(p, nj.dot(l, u)))).to.eql(approx(tall));
+  });
+  it('should decompose singular matrices', function () {
+    const a = nj.array([[1, 2], [2, 4]]);
+    const [p, l, u] = nj.linalg.lu(a);
+    expect(u.get(1, 1)).to.equal(0);
+    expect(approx(nj.dot(p, nj.dot(l, u)))).to.eql(approx(a));
+  });
+});
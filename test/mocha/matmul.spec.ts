@@ -0,0 +1,45 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('matmul', function () {
+  const c = nj.arange(8).reshape(2, 2, 2);
+
+  it('should compute the matrix product of matrices', function () {
+    const a = nj.arange(12).reshape([4, 3]);
+    const b = nj.arange(12).reshape([3, 4]);
+    expect(nj.matmul(a, b).tolist()).to.eql(nj.dot(a, b).tolist());
+    expect(a.matmul(b).tolist()).to.eql(nj.dot(a, b).tolist());
+  });
+  it('should compute products of stacked matrices', function () {
+    expect(nj.matmul(c, c).tolist()).to.eql([[[2, 3], [6, 11]], [[46, 55], [66, 79]]]);
+    expect(nj.matmul(c.T, nj.identity(2)).tolist()).to.eql(c.T.tolist());
+  });
+  it('should broadcast the leading dimensions', function () {
+    const a = nj.arange(6).reshape(3, 1, 1, 2);
+    const res = nj.matmul(a, c);
+    expect(res.shape).to.eql([3, 2, 1, 2]);
+    expect(res.pick(2, 1).tolist()).to.eql([[4 * 4 + 5 * 6, 4 * 5 + 5 * 7]]);
+    expect(nj.matmul(nj.identity(2), c).tolist()).to.eql(c.tolist());
+  });
+  it('should promote vectors', function () {
+    expect(nj.matmul(c, [1, 1]).tolist()).to.eql([[1, 5], [9, 13]]);
+    expect(nj.matmul([1, 1], c).tolist()).to.eql([[2, 4], [10, 12]]);
+    expect(nj.matmul([1, 2], [3, 4]).tolist()).to.eql([11]);
+  });
+  it('should keep the dtype of the first array', function () {
+    expect(nj.matmul(nj.float32(c.tolist()), c).dtype).to.equal('float32');
+  });
+  it('should raise an error for incompatible shapes', function () {
+    expect(function () {
+      nj.matmul(c, nj.ones([3, 2]));
+    }).to.throw(ValueError, 'matmul: Input operand 1 has a mismatch in its core dimension 0');
+    expect(function () {
+      nj.matmul(nj.ones([3, 2, 2]), c);
+    }).to.throw(ValueError, 'operands could not be broadcast together with remapped shapes');
+  });
+});
@@ -0,0 +1,35 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { LinAlgError, ValueError } from "../../src/lib/errors";
+
+describe('linalg.matrix_power', function () {
+  const i = [[0, 1], [-1, 0]];
+
+  it('should raise a matrix to a positive power', function () {
+    expect(nj.linalg.matrix_power(i, 1).tolist()).to.eql(i);
+    expect(nj.linalg.matrix_power(i, 3).tolist()).to.eql([[0, -1], [1, 0]]);
+    expect(nj.linalg.matrix_power([[1, 1], [1, 0]], 10).tolist()).to.eql([[89, 55], [55, 34]]);
+  });
+  it('should keep the dtype for positive powers', function () {
+    const a = nj.array([[1, 1], [1, 0]], 'int32');
+    expect(nj.linalg.matrix_power(a, 5).dtype).to.equal('int32');
+  });
+  it('should return the identity for a zero power', function () {
+    expect(nj.linalg.matrix_power(i, 0).tolist()).to.eql([[1, 0], [0, 1]]);
+  });
+  it('should invert the matrix for negative powers', function () {
+    expect(nj.linalg.matrix_power([[2, 0], [0, 4]], -2).tolist()).to.eql([[0.25, 0], [0, 0.0625]]);
+    expect(function () {
+      nj.linalg.matrix_power([[1, 2], [2, 4]], -1);
+    }).to.throw(LinAlgError, 'Singular matrix');
+  });
+  it('should raise an error for non integer powers', function () {
+    expect(function () {
+      nj.linalg.matrix_power(i, 1.5);
+    }).to.throw(ValueError, 'exponent must be an integer');
+  });
+});
@@ -0,0 +1,24 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+describe('linalg.matrix_rank', function () {
+  it('can compute the rank of a matrix', function () {
+    expect(nj.linalg.matrix_rank(nj.identity(4))).to.equal(4);
+    expect(nj.linalg.matrix_rank([[1, 2], [2, 4]])).to.equal(1);
+    expect(nj.linalg.matrix_rank(nj.arange(20).reshape(4, 5))).to.equal(2);
+    expect(nj.linalg.matrix_rank(nj.zeros([3, 3]))).to.equal(0);
+  });
+  it('can take a tolerance', function () {
+    const a = nj.array([[1, 0], [0, 1e-3]]);
+    expect(nj.linalg.matrix_rank(a)).to.equal(2);
+    expect(nj.linalg.matrix_rank(a, 1e-2)).to.equal(1);
+  });
+  it('should handle vectors', function () {
+    expect(nj.linalg.matrix_rank([0, 1, 0])).to.equal(1);
+    expect(nj.linalg.matrix_rank([0, 0])).to.equal(0);
+  });
+});
@@ -14,4 +14,12 @@ describe('max', function () {
     const arr = nj.arange(10);
     expect(arr.max()).to.equal(9);
   });
+
+  it('can compute the max along an axis', function () {
+    const arr = nj.array([[1, 5, 3], [4, 2, 6]], 'int16');
+    const res = nj.max(arr, { axis: 0 });
+    expect(res.dtype).to.equal('int16');
+    expect(res.tolist()).to.eql([4, 5, 6]);
+    expect(arr.max({ axis: 1, keepdims: true }).tolist()).to.eql([[5], [6]]);
+  });
 });
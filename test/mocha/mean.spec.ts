@@ -11,4 +11,11 @@ describe('mean', function () {
     expect(nj.arange(7).mean()).to.equal(3);
     expect(nj.arange(10).mean()).to.equal(4.5);
   });
+
+  it('can compute the means along an axis', function () {
+    const x = nj.arange(6).reshape(2, 3);
+    expect(nj.mean(x, { axis: 0 }).tolist()).to.eql([1.5, 2.5, 3.5]);
+    expect(x.mean({ axis: 1, keepdims: true }).tolist()).to.eql([[1], [4]]);
+    expect(nj.int32(x.tolist()).mean({ axis: 1 }).dtype).to.equal('float64');
+  });
 });
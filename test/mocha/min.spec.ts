@@ -14,4 +14,10 @@ describe('min', function () {
     const arr = nj.arange(10);
     expect(arr.min()).to.equal(0);
   });
+
+  it('can compute the min along an axis', function () {
+    const arr = nj.array([[1, 5, 3], [4, 2, 6]]);
+    expect(nj.min(arr, { axis: -1 }).tolist()).to.eql([1, 2]);
+    expect(arr.min({ axis: 0, keepdims: true }).tolist()).to.eql([[1, 2, 3]]);
+  });
 });
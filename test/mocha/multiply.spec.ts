@@ -37,10 +37,16 @@ describe('multiply', function () {
       [4, 9],
       [16, 25]]);
   });
-  it('should throw an error when multiplying an array with a vector', function () {
+  it('should broadcast a vector when multiplying an array with it', function () {
+    const x1 = nj.arange(9).reshape(3, 3);
+    const x2 = nj.arange(3).add(1);
+    expect(nj.multiply(x1, x2).tolist())
+      .to.eql([[0, 2, 6], [3, 8, 15], [6, 14, 24]]);
+  });
+  it('should throw an error when multiplying arrays with incompatible shapes', function () {
     expect(function () {
       const x1 = nj.arange(9).reshape(3, 3);
-      const x2 = nj.arange(3);
+      const x2 = nj.arange(2);
       nj.multiply(x1, x2);
     }).to.throw();
   });
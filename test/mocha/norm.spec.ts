@@ -0,0 +1,73 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+function approx (x) {
+  return typeof x === 'number' ? Math.round(x * 1e6) : x.multiply(1e6).round().tolist();
+}
+
+describe('linalg.norm', function () {
+  const b = nj.arange(9).subtract(4);
+  const a = b.reshape(3, 3);
+
+  it('should compute the 2-norm of the flattened array by default', function () {
+    expect(approx(nj.linalg.norm(b))).to.equal(7745967);
+    expect(approx(nj.linalg.norm(a))).to.equal(7745967);
+    expect(approx(nj.linalg.norm(nj.arange(8).reshape(2, 2, 2)))).to.equal(11832160);
+  });
+  it('can compute vector norms', function () {
+    expect(nj.linalg.norm(b, Infinity)).to.equal(4);
+    expect(nj.linalg.norm(b, -Infinity)).to.equal(0);
+    expect(nj.linalg.norm(b, 0)).to.equal(8);
+    expect(nj.linalg.norm(b, 1)).to.equal(20);
+    expect(nj.linalg.norm(b, -1)).to.equal(0);
+    expect(approx(nj.linalg.norm(b, 2))).to.equal(7745967);
+    expect(approx(nj.linalg.norm(b, 3))).to.equal(5848035);
+    expect(nj.linalg.norm([3, 4])).to.equal(5);
+  });
+  it('can compute matrix norms', function () {
+    expect(approx(nj.linalg.norm(a, 'fro'))).to.equal(7745967);
+    expect(approx(nj.linalg.norm(a, 'nuc'))).to.equal(9797959);
+    expect(nj.linalg.norm(a, Infinity)).to.equal(9);
+    expect(nj.linalg.norm(a, -Infinity)).to.equal(2);
+    expect(nj.linalg.norm(a, 1)).to.equal(7);
+    expect(nj.linalg.norm(a, -1)).to.equal(6);
+    expect(approx(nj.linalg.norm(a, 2))).to.equal(7348469);
+    expect(approx(nj.linalg.norm(a, -2))).to.equal(0);
+  });
+  it('can compute norms along axes', function () {
+    const c = nj.arange(8).reshape(2, 2, 2);
+    expect(approx(nj.linalg.norm(c, null, 1))).to.eql([[2000000, 3162278], [7211103, 8602325]]);
+    expect(approx(nj.linalg.norm(c, null, [1, 2]))).to.eql([3741657, 11224972]);
+    expect(approx(nj.linalg.norm(c, 'nuc', [2, 1]))).to.eql(approx(nj.linalg.norm(c, 'nuc', [1, 2])));
+    expect(nj.linalg.norm(a, 1, 0).tolist()).to.eql([7, 6, 7]);
+    expect(nj.linalg.norm(a, 1, -1).tolist()).to.eql([9, 2, 9]);
+  });
+  it('can keep the normed dimensions', function () {
+    const c = nj.arange(8).reshape(2, 2, 2);
+    expect(nj.linalg.norm(c, null, null, true).shape).to.eql([1, 1, 1]);
+    expect(nj.linalg.norm(c, 1, 2, true).tolist()).to.eql([[[1], [5]], [[9], [13]]]);
+    expect(nj.linalg.norm(c, 2, [1, 2], true).shape).to.eql([2, 1, 1]);
+  });
+  it('should raise an error for invalid orders or axes', function () {
+    expect(function () {
+      nj.linalg.norm(b, 'fro');
+    }).to.throw(ValueError, "Invalid norm order 'fro' for vectors");
+    expect(function () {
+      nj.linalg.norm(a, 3);
+    }).to.throw(ValueError, 'Invalid norm order for matrices.');
+    expect(function () {
+      nj.linalg.norm(nj.arange(8).reshape(2, 2, 2), 2);
+    }).to.throw(ValueError, 'Improper number of dimensions to norm.');
+    expect(function () {
+      nj.linalg.norm(a, null, 2);
+    }).to.throw(ValueError, 'axis 2 is out of bounds for array of dimension 2');
+    expect(function () {
+      nj.linalg.norm(a, null, [1, -1]);
+    }).to.throw(ValueError, 'Duplicate axes given.');
+  });
+});
@@ -0,0 +1,18 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+describe('outer', function () {
+  it('should compute the outer product of two vectors', function () {
+    expect(nj.outer([1, 2, 3], [4, 5]).tolist())
+      .to.eql([[4, 5], [8, 10], [12, 15]]);
+  });
+  it('should flatten its inputs', function () {
+    const res = nj.outer(nj.arange(4).reshape(2, 2), [1, -1]);
+    expect(res.shape).to.eql([4, 2]);
+    expect(res.tolist()).to.eql([[0, -0], [1, -1], [2, -2], [3, -3]]);
+  });
+});
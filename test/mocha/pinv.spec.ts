@@ -0,0 +1,28 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+describe('linalg.pinv', function () {
+  it('should be the inverse of invertible matrices', function () {
+    const a = nj.array([[3, 1], [1, 2]]);
+    expect(approx(nj.linalg.pinv(a))).to.eql(approx(nj.linalg.inv(a)));
+  });
+  it('can compute the pseudo-inverse of rectangular matrices', function () {
+    const a = nj.array([[1, 2], [3, 4], [5, 6]]);
+    const p = nj.linalg.pinv(a);
+    expect(p.shape).to.eql([2, 3]);
+    expect(p.multiply(12).round().tolist()).to.eql([[-16, -4, 8], [13, 4, -5]]);
+    expect(approx(nj.dot(a, nj.dot(p, a)))).to.eql(approx(a));
+  });
+  it('should ignore small singular values', function () {
+    const a = nj.array([[1, 1], [1, 1]]);
+    expect(approx(nj.linalg.pinv(a))).to.eql(approx(nj.ones([2, 2]).divide(4)));
+  });
+});
@@ -0,0 +1,54 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+describe('linalg.qr', function () {
+  const a = nj.array([[12, -51, 4], [6, 167, -68], [-4, 24, -41], [1, 2, 3]]);
+
+  it('should compute the reduced decomposition by default', function () {
+    const [q, r] = nj.linalg.qr(a);
+    expect(q.shape).to.eql([4, 3]);
+    expect(r.shape).to.eql([3, 3]);
+    expect(approx(nj.dot(q.T, q))).to.eql(approx(nj.identity(3)));
+    expect(approx(nj.dot(q, r))).to.eql(approx(a));
+    expect(r.get(1, 0)).to.equal(0);
+    expect(r.get(2, 0)).to.equal(0);
+    expect(r.get(2, 1)).to.equal(0);
+  });
+  it('can compute the complete decomposition', function () {
+    const [q, r] = nj.linalg.qr(a, 'complete');
+    expect(q.shape).to.eql([4, 4]);
+    expect(r.shape).to.eql([4, 3]);
+    expect(approx(nj.dot(q.T, q))).to.eql(approx(nj.identity(4)));
+    expect(approx(nj.dot(q, r))).to.eql(approx(a));
+    expect(r.slice(3).tolist()).to.eql([[0, 0, 0]]);
+  });
+  it('can compute R only', function () {
+    const r = nj.linalg.qr(a, 'r');
+    expect(approx(r)).to.eql(approx(nj.linalg.qr(a)[1]));
+  });
+  it('should handle wide matrices', function () {
+    const [q, r] = nj.linalg.qr(a.T);
+    expect(q.shape).to.eql([3, 3]);
+    expect(r.shape).to.eql([3, 4]);
+    expect(approx(nj.dot(q, r))).to.eql(approx(a.T));
+  });
+  it('should handle rank deficient matrices', function () {
+    const b = nj.array([[1, 2], [0, 0], [3, 6]]);
+    const [q, r] = nj.linalg.qr(b);
+    expect(approx(nj.dot(q, r))).to.eql(approx(b));
+  });
+  it('should raise an error for unknown modes', function () {
+    expect(function () {
+      nj.linalg.qr(a, 'full' as any);
+    }).to.throw(ValueError, "Unrecognized mode 'full'");
+  });
+});
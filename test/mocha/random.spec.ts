@@ -4,6 +4,7 @@
 import { expect } from 'chai';
 
 import nj from "../../src";
+import { ValueError } from '../../src/lib/errors';
 
 describe('random', function () {
   it('can generate vectors', function () {
@@ -18,3 +19,343 @@ describe('random', function () {
     expect(nj.random([2, 1]).shape).to.eql([2, 1]);
   });
 });
+
+describe('random.seed', function () {
+  it('should make the random functions reproducible', function () {
+    nj.random.seed(42);
+    const a = nj.random(2, 3);
+    nj.random.seed(42);
+    expect(nj.random([2, 3]).tolist()).to.eql(a.tolist());
+    expect(nj.random([2, 3]).tolist()).not.to.eql(a.tolist());
+  });
+
+  it('should only accept non-negative integers', function () {
+    expect(() => nj.random.seed(-1))
+      .to.throw(ValueError, 'Seed must be a non-negative integer, got -1');
+    expect(() => nj.random.seed(0.5))
+      .to.throw(ValueError, 'Seed must be a non-negative integer, got 0.5');
+  });
+
+  it('should save and restore the state', function () {
+    const state = nj.random.get_state();
+    const a = nj.random(5);
+    nj.random.set_state(state);
+    expect(nj.random(5).tolist()).to.eql(a.tolist());
+  });
+});
+
+describe('random.default_rng', function () {
+  it('should draw the same numbers from the same seed', function () {
+    const a = nj.random.default_rng(12345).random(1000);
+    expect(nj.random.default_rng(12345).random(1000).tolist()).to.eql(a.tolist());
+    expect(nj.random.default_rng(12346).random(1000).tolist()).not.to.eql(a.tolist());
+    expect(a.min()).to.be.at.least(0);
+    expect(a.max()).to.be.below(1);
+    expect(a.mean()).to.be.closeTo(0.5, 0.05);
+  });
+
+  it('should implement xoshiro256**', function () {
+    const rng = nj.random.default_rng();
+    rng.state = { bit_generator: 'xoshiro256**', state: [1, 0, 2, 0, 3, 0, 4, 0] };
+    expect(rng.nextUint64()).to.eql([0, 11520]);
+    expect(rng.nextUint64()).to.eql([0, 0]);
+    expect(rng.nextUint64()).to.eql([0, 1509978240]);
+  });
+
+  it('should save and restore the state', function () {
+    const rng = nj.random.default_rng(1);
+    const state = rng.state;
+    const a = rng.random([3, 2]);
+    expect(a.shape).to.eql([3, 2]);
+    expect(rng.random([3, 2]).tolist()).not.to.eql(a.tolist());
+    rng.state = state;
+    expect(rng.random([3, 2]).tolist()).to.eql(a.tolist());
+    expect(() => { rng.state = { bit_generator: 'pcg64', state: [] } as any; })
+      .to.throw(ValueError, 'state must be a xoshiro256** state, as returned by Generator.state');
+  });
+
+  it('should spawn independent generators', function () {
+    const rng = nj.random.default_rng(7);
+    const state = rng.state;
+    const children = rng.spawn(2);
+    const a = children[0].random(4).tolist();
+    const b = children[1].random(4).tolist();
+    expect(a).not.to.eql(b);
+    expect(rng.random(4).tolist()).not.to.eql(a);
+    rng.state = state;
+    expect(rng.random(4).tolist()).to.eql(a);
+  });
+});
+
+describe('random.normal', function () {
+  it('should draw from a normal distribution', function () {
+    const x = nj.random.default_rng(1).normal(3, 2, 20000);
+    expect(x.shape).to.eql([20000]);
+    expect(x.mean()).to.be.closeTo(3, 0.05);
+    expect(x.std()).to.be.closeTo(2, 0.05);
+  });
+
+  it('should broadcast the parameters against the size', function () {
+    const x = nj.random.default_rng(2).normal([0, 10], [1, 0.1], [10000, 2]);
+    expect(x.slice(null, [0, 1]).mean()).to.be.closeTo(0, 0.05);
+    expect(x.slice(null, [1, 2]).mean()).to.be.closeTo(10, 0.01);
+    expect(x.slice(null, [1, 2]).std()).to.be.closeTo(0.1, 0.01);
+    expect(nj.random.normal([1, 2, 3]).shape).to.eql([3]);
+    expect(() => nj.random.normal(0, [1, 2], 3))
+      .to.throw(ValueError, 'shape mismatch: objects cannot be broadcast to a single shape');
+    expect(() => nj.random.normal(0, -1))
+      .to.throw(ValueError, 'scale < 0');
+  });
+
+  it('should be available as randn', function () {
+    expect(nj.random.randn(2, 3).shape).to.eql([2, 3]);
+    expect(nj.random.randn().shape).to.eql([1]);
+    expect(nj.random.standard_normal([4]).shape).to.eql([4]);
+  });
+});
+
+describe('random.uniform', function () {
+  it('should draw from [low, high)', function () {
+    const x = nj.random.default_rng(3).uniform(-2, 3, [100, 100]);
+    expect(x.shape).to.eql([100, 100]);
+    expect(x.min()).to.be.at.least(-2);
+    expect(x.max()).to.be.below(3);
+    expect(x.mean()).to.be.closeTo(0.5, 0.05);
+  });
+});
+
+describe('random.integers', function () {
+  it('should draw integers from [low, high)', function () {
+    const x = nj.random.default_rng(4).integers(0, 10, 10000);
+    expect(x.dtype).to.equal('int32');
+    expect(x.min()).to.equal(0);
+    expect(x.max()).to.equal(9);
+    expect(x.mean()).to.be.closeTo(4.5, 0.1);
+  });
+
+  it('should support high, dtype and endpoint', function () {
+    const rng = nj.random.default_rng(5);
+    const x = rng.integers(3, null, [20, 20], 'uint8');
+    expect(x.dtype).to.equal('uint8');
+    expect(x.shape).to.eql([20, 20]);
+    expect(x.max()).to.equal(2);
+    expect(rng.integers(1, 1, 5, 'int8', true).tolist()).to.eql([1, 1, 1, 1, 1]);
+  });
+
+  it('should be drawn from the shared generator', function () {
+    nj.random.seed(7);
+    const x = nj.random.integers(0, 10, 5, 'uint8', true);
+    nj.random.seed(7);
+    expect(x.dtype).to.equal('uint8');
+    expect(x.tolist()).to.eql(nj.random.randint(0, 11, 5, 'uint8').tolist());
+  });
+
+  it('should check the bounds', function () {
+    expect(() => nj.random.randint(5, 5))
+      .to.throw(ValueError, 'low >= high');
+    expect(() => nj.random.randint(0, 300, 3, 'uint8'))
+      .to.throw(ValueError, 'high is out of bounds for uint8');
+    expect(() => nj.random.randint(-1, 3, 3, 'uint8'))
+      .to.throw(ValueError, 'low is out of bounds for uint8');
+    expect(() => nj.random.default_rng(1).integers(0, 10, 3, 'float32'))
+      .to.throw(ValueError, 'Unsupported dtype float32 for integers');
+    expect(() => nj.random.randint(0, 10, 3, 'array'))
+      .to.throw(ValueError, 'Unsupported dtype array for integers');
+  });
+});
+
+describe('random.choice', function () {
+  it('should sample with replacement', function () {
+    const x = nj.random.default_rng(6).choice(5, [10, 10]);
+    expect(x.shape).to.eql([10, 10]);
+    expect(x.min()).to.be.at.least(0);
+    expect(x.max()).to.be.at.most(4);
+  });
+
+  it('should sample without replacement', function () {
+    const x = nj.random.default_rng(7).choice(10, 10, false);
+    expect((x.tolist() as number[]).sort((a, b) => a - b)).to.eql([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(() => nj.random.choice(3, 4, false))
+      .to.throw(ValueError, 'Cannot take a larger sample than population when replace is False');
+  });
+
+  it('should use the probabilities', function () {
+    const x = nj.random.default_rng(8).choice(3, 30000, true, [0.1, 0.3, 0.6]).tolist();
+    expect(x.filter((v) => v === 0).length / 30000).to.be.closeTo(0.1, 0.01);
+    expect(x.filter((v) => v === 2).length / 30000).to.be.closeTo(0.6, 0.01);
+    const y = nj.random.default_rng(9).choice(4, 3, false, [0.5, 0, 0.25, 0.25]).tolist();
+    expect(y.sort()).to.eql([0, 2, 3]);
+    expect(() => nj.random.choice(3, 2, true, [0.5, 0.6, 0]))
+      .to.throw(ValueError, 'probabilities do not sum to 1');
+    expect(() => nj.random.choice(3, 2, true, [0.5, 0.5]))
+      .to.throw(ValueError, 'a and p must have same size');
+  });
+
+  it('should sample the items of arrays', function () {
+    const x = nj.random.default_rng(10).choice([[1, 2], [3, 4], [5, 6]], 4);
+    expect(x.shape).to.eql([4, 2]);
+    x.tolist().forEach(function (row) {
+      expect([[1, 2], [3, 4], [5, 6]]).to.deep.include(row);
+    });
+  });
+});
+
+describe('random.shuffle', function () {
+  it('should shuffle the array in place, along the first axis', function () {
+    const x = nj.arange(12).reshape(6, 2);
+    nj.random.shuffle(x);
+    const rows = x.tolist();
+    expect(rows).not.to.eql(nj.arange(12).reshape(6, 2).tolist());
+    rows.forEach(function (row) {
+      expect(row[1]).to.equal(row[0] + 1);
+    });
+    expect(rows.map((row) => row[0]).sort((a, b) => a - b)).to.eql([0, 2, 4, 6, 8, 10]);
+  });
+});
+
+describe('random.permutation', function () {
+  it('should permute arange(n)', function () {
+    const x = nj.random.default_rng(11).permutation(10);
+    expect(x.dtype).to.equal('int32');
+    expect((x.tolist() as number[]).sort((a, b) => a - b)).to.eql([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('should return a shuffled copy of arrays', function () {
+    const a = nj.arange(6).reshape(3, 2);
+    const x = nj.random.permutation(a);
+    expect(x.shape).to.eql([3, 2]);
+    expect(a.tolist()).to.eql([[0, 1], [2, 3], [4, 5]]);
+  });
+});
+
+describe('random distributions', function () {
+  const N = 20000;
+
+  function variance (x) {
+    return Math.pow(x.std(), 2);
+  }
+
+  it('binomial', function () {
+    const rng = nj.random.default_rng(20);
+    const small = rng.binomial(20, 0.1, N);
+    expect(small.dtype).to.equal('int32');
+    expect(small.mean()).to.be.closeTo(2, 0.05);
+    const large = rng.binomial(1000, 0.7, N);
+    expect(large.mean()).to.be.closeTo(700, 0.5);
+    expect(variance(large)).to.be.closeTo(210, 10);
+    expect(rng.binomial(10, 0, 3).tolist()).to.eql([0, 0, 0]);
+    expect(rng.binomial(10, 1, 3).tolist()).to.eql([10, 10, 10]);
+    expect(() => rng.binomial(10, 1.5))
+      .to.throw(ValueError, 'p < 0, p > 1 or p is NaN');
+  });
+
+  it('poisson', function () {
+    const rng = nj.random.default_rng(21);
+    const small = rng.poisson(3, N);
+    expect(small.dtype).to.equal('int32');
+    expect(small.mean()).to.be.closeTo(3, 0.05);
+    const large = rng.poisson(100, N);
+    expect(large.mean()).to.be.closeTo(100, 0.3);
+    expect(variance(large)).to.be.closeTo(100, 5);
+    expect(() => rng.poisson(-1))
+      .to.throw(ValueError, 'lam < 0');
+  });
+
+  it('exponential', function () {
+    const x = nj.random.default_rng(22).exponential(2, N);
+    expect(x.min()).to.be.at.least(0);
+    expect(x.mean()).to.be.closeTo(2, 0.05);
+    expect(variance(x)).to.be.closeTo(4, 0.3);
+  });
+
+  it('gamma', function () {
+    const rng = nj.random.default_rng(23);
+    const x = rng.gamma(2.5, 2, N);
+    expect(x.mean()).to.be.closeTo(5, 0.1);
+    expect(variance(x)).to.be.closeTo(10, 0.5);
+    const y = rng.gamma(0.3, 1, N);
+    expect(y.mean()).to.be.closeTo(0.3, 0.02);
+    expect(() => rng.gamma(-1))
+      .to.throw(ValueError, 'shape < 0');
+  });
+
+  it('beta', function () {
+    const x = nj.random.default_rng(24).beta(2, 5, N);
+    expect(x.min()).to.be.at.least(0);
+    expect(x.max()).to.be.at.most(1);
+    expect(x.mean()).to.be.closeTo(2 / 7, 0.01);
+    expect(() => nj.random.beta(0, 1))
+      .to.throw(ValueError, 'a <= 0');
+  });
+
+  it('beta with small parameters', function () {
+    const x = nj.random.default_rng(42).beta(1e-3, 1e-3, N);
+    expect(x.min()).to.be.at.least(0);
+    expect(x.max()).to.be.at.most(1);
+    expect(x.mean()).to.be.closeTo(0.5, 0.05);
+    const y = nj.random.default_rng(42).beta(0.5, 0.5, N);
+    expect(y.mean()).to.be.closeTo(0.5, 0.01);
+    expect(variance(y)).to.be.closeTo(1 / 8, 0.01);
+  });
+
+  it('chisquare', function () {
+    const x = nj.random.default_rng(25).chisquare(3, N);
+    expect(x.mean()).to.be.closeTo(3, 0.1);
+    expect(variance(x)).to.be.closeTo(6, 0.4);
+  });
+
+  it('lognormal', function () {
+    const x = nj.random.default_rng(26).lognormal(0, 0.5, N);
+    expect(x.min()).to.be.above(0);
+    expect(x.mean()).to.be.closeTo(Math.exp(0.125), 0.02);
+    expect(nj.log(x).std()).to.be.closeTo(0.5, 0.01);
+  });
+
+  it('dirichlet', function () {
+    const x = nj.random.default_rng(27).dirichlet([1, 2, 3], [N, 1]);
+    expect(x.shape).to.eql([N, 1, 3]);
+    expect(x.slice(null, null, [0, 1]).mean()).to.be.closeTo(1 / 6, 0.01);
+    expect(x.slice(null, null, [2, 3]).mean()).to.be.closeTo(1 / 2, 0.01);
+    expect(nj.sum(x.pick(0, 0))).to.be.closeTo(1, 1e-12);
+    expect(nj.random.dirichlet([1, 1]).shape).to.eql([2]);
+    expect(() => nj.random.dirichlet([1, 0]))
+      .to.throw(ValueError, 'alpha <= 0');
+  });
+
+  it('dirichlet with small concentrations', function () {
+    const x = nj.random.default_rng(42).dirichlet([1e-3, 1e-3], N);
+    expect(x.shape).to.eql([N, 2]);
+    expect(x.min()).to.be.at.least(0);
+    expect(nj.abs(x.sum({ axis: 1 }).subtract(1)).max()).to.be.below(1e-12);
+    expect(x.slice(null, [0, 1]).mean()).to.be.closeTo(0.5, 0.05);
+    const y = nj.random.default_rng(43).dirichlet([0.02, 0.03, 0.05], N);
+    expect(y.slice(null, [2, 3]).mean()).to.be.closeTo(1 / 2, 0.03);
+  });
+
+  it('multivariate_normal', function () {
+    const x = nj.random.default_rng(28).multivariate_normal([1, -1], [[2, 0.8], [0.8, 1]], N);
+    expect(x.shape).to.eql([N, 2]);
+    const a = x.slice(null, [0, 1]).flatten();
+    const b = x.slice(null, [1, 2]).flatten();
+    expect(a.mean()).to.be.closeTo(1, 0.05);
+    expect(b.mean()).to.be.closeTo(-1, 0.05);
+    expect(variance(a)).to.be.closeTo(2, 0.1);
+    expect(a.subtract(a.mean()).multiply(b.subtract(b.mean())).mean()).to.be.closeTo(0.8, 0.05);
+    expect(nj.random.multivariate_normal([0, 0], [[1, 0], [0, 1]]).shape).to.eql([2]);
+    expect(() => nj.random.multivariate_normal([0, 0], [[1, 0, 0], [0, 1, 0]]))
+      .to.throw(ValueError, 'cov must be 2 dimensional and square');
+    expect(() => nj.random.multivariate_normal([0], [[1, 0], [0, 1]]))
+      .to.throw(ValueError, 'mean and cov must have same length');
+  });
+
+  it('should broadcast the parameters against the size', function () {
+    const rng = nj.random.default_rng(29);
+    const x = rng.poisson([1, 1000], [N, 2]);
+    expect(x.slice(null, [0, 1]).mean()).to.be.closeTo(1, 0.05);
+    expect(x.slice(null, [1, 2]).mean()).to.be.closeTo(1000, 1);
+    expect(rng.gamma([[1], [2]], [1, 2, 3]).shape).to.eql([2, 3]);
+    expect(rng.binomial([10, 20], 0.5).shape).to.eql([2]);
+    expect(() => rng.exponential([1, 2], 3))
+      .to.throw(ValueError, 'shape mismatch: objects cannot be broadcast to a single shape');
+  });
+});
@@ -113,4 +113,13 @@ describe('reshape', function () {
              [4, 5],
              [6, 7]]);
   });
+  it('should respect the stride of 1d views', () => {
+    const a = nj.arange(8);
+    expect(a.slice([null, null, 2]).reshape(2, 2).tolist())
+      .to.eql([[0, 2], [4, 6]]);
+    expect(a.slice([null, null, -1]).reshape(2, 4).tolist())
+      .to.eql([[7, 6, 5, 4], [3, 2, 1, 0]]);
+    expect(a.reshape(4, 2).pick(null, 1).reshape(2, 2).tolist())
+      .to.eql([[1, 3], [5, 7]]);
+  });
 });
@@ -0,0 +1,64 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from '../../src/lib/errors';
+
+function approx (arr) {
+  return arr.multiply(1e5).round().add(0).tolist();
+}
+
+describe('fft.rfft', function () {
+  it('should keep the non-negative frequency terms', function () {
+    const x = nj.array([1, 2, 3, 4, 5]);
+    const X = nj.fft.rfft(x);
+    expect(X.dtype).to.equal('complex128');
+    expect(approx(X)).to.eql([
+      { re: 1500000, im: 0 }, { re: -250000, im: 344095 }, { re: -250000, im: 81230 }
+    ]);
+  });
+  it('should truncate or pad the input to n points', function () {
+    const x = nj.array([1, 2, 3, 4, 5]);
+    expect(nj.fft.rfft(x, 4).tolist()).to.eql([
+      { re: 10, im: 0 }, { re: -2, im: 2 }, { re: -2, im: 0 }
+    ]);
+    expect(approx(nj.fft.rfft(x, 8)).length).to.equal(5);
+    expect(approx(nj.fft.rfft(x, 8))[2]).to.eql({ re: 300000, im: 200000 });
+  });
+  it('should transform along the given axis', function () {
+    const x = nj.arange(6).reshape(2, 3);
+    expect(nj.fft.rfft(x, null, 0).tolist()).to.eql([
+      [{ re: 3, im: 0 }, { re: 5, im: 0 }, { re: 7, im: 0 }],
+      [{ re: -3, im: 0 }, { re: -3, im: 0 }, { re: -3, im: 0 }]
+    ]);
+    expect(nj.fft.rfft(x).shape).to.eql([2, 2]);
+  });
+  it('should validate its arguments', function () {
+    expect(() => nj.fft.rfft([1, 2], 0))
+      .to.throw(ValueError, 'Invalid number of FFT data points (0) specified.');
+    expect(() => nj.fft.rfft([1, 2], 2, 1))
+      .to.throw(ValueError, 'axis 1 is out of bounds for array of dimension 1');
+  });
+});
+
+describe('fft.irfft', function () {
+  it('should invert rfft', function () {
+    const x = nj.array([1, 2, 3, 4, 5, 6]);
+    const y = nj.fft.irfft(nj.fft.rfft(x));
+    expect(y.dtype).to.equal('float64');
+    expect(approx(y)).to.eql(approx(x));
+    expect(approx(nj.fft.irfft(nj.fft.rfft(x.slice([5])), 5))).to.eql(approx(x.slice([5])));
+  });
+  it('should default to 2*(m-1) points', function () {
+    const y = nj.fft.irfft(nj.fft.rfft([1, 2, 3, 4, 5]));
+    expect(approx(y)).to.eql([187500, 265452, 437500, 609548]);
+  });
+  it('should work along the given axis', function () {
+    const x = nj.random([4, 3]);
+    const y = nj.fft.irfft(nj.fft.rfft(x, null, 0), 4, 0);
+    expect(y.shape).to.eql([4, 3]);
+    expect(approx(y)).to.eql(approx(x));
+  });
+});
@@ -4,6 +4,7 @@
 import { expect } from 'chai';
 
 import nj from "../../src";
+import { IndexError, ValueError } from "../../src/lib/errors";
 
 describe('slice', function () {
   describe('on 1d array', function () {
@@ -36,6 +37,27 @@ describe('slice', function () {
     it('can slice using start and step', function () {
        expect(a.slice([1, null, null, 2]).tolist()).to.eql([1, 3]); // same as a[1::2]
     });
+    it('can slice using negative steps', function () {
+      expect(a.slice([4, 1, -2]).tolist()).to.eql([4, 2]); // same as a[4:1:-2]
+      expect(a.slice([5, 1, -2]).tolist()).to.eql([4, 2]); // same as a[5:1:-2]
+      expect(a.slice([3, null, -1]).tolist()).to.eql([3, 2, 1, 0]); // same as a[3::-1]
+      expect(a.slice([null, 1, -1]).tolist()).to.eql([4, 3, 2]); // same as a[:1:-1]
+      expect(a.slice([-2, -5, -1]).tolist()).to.eql([3, 2, 1]); // same as a[-2:-5:-1]
+      expect(a.slice([null, null, -3]).tolist()).to.eql([4, 1]); // same as a[::-3]
+    });
+    it('should follow NumPy boundary rules', function () {
+      expect(a.slice([1, 4, -1]).tolist()).to.eql([]); // same as a[1:4:-1]
+      expect(a.slice([2, 0]).tolist()).to.eql([]); // same as a[2:0]
+      expect(a.slice([10, -10, -1]).tolist()).to.eql([4, 3, 2, 1, 0]); // same as a[10:-10:-1]
+      expect(a.slice([-10, 10, 2]).tolist()).to.eql([0, 2, 4]); // same as a[-10:10:2]
+      expect(a.slice([1, null]).tolist()).to.eql([1, 2, 3, 4]); // same as a[1:None]
+    });
+    it('should return reversed views without copying', function () {
+      const r = a.slice([null, null, -1]);
+      expect(r.selection.data).to.equal(a.selection.data);
+      r.set(0, 40);
+      expect(a.get(4)).to.equal(40);
+    });
   });
   describe('on 2d array', function () {
     let a;
@@ -84,6 +106,13 @@ describe('slice', function () {
         [17, 18, 19],
         [22, 23, 24]]); // same as a[-4:,2:]
     });
+    it('can reverse rows and columns', function () {
+      expect(a.slice([null, null, -2], [3, 0, -1]).tolist()) // same as a[::-2, 3:0:-1]
+        .to.eql([
+        [23, 22, 21],
+        [13, 12, 11],
+        [3, 2, 1]]);
+    });
     it('can slice in all dimensions using start, end and step', function () {
       expect(a.slice([1, 4, 2], [1, 4, 2]).tolist()) // same as a[1:4:2, 1:4:2]
         .to.eql([
@@ -91,4 +120,69 @@ describe('slice', function () {
         [16, 18]]);
     });
   });
+  describe('with a string index', function () {
+    let a;
+    beforeEach(function () {
+      a = nj.arange(4 * 4).reshape(4, 4);
+    });
+    it('can slice with omitted bounds and steps', function () {
+      expect(a.slice("1:3, ::2").tolist()).to.eql([[4, 6], [8, 10]]);
+      expect(a.slice(":2").tolist()).to.eql([[0, 1, 2, 3], [4, 5, 6, 7]]);
+      expect(a.slice("2:, 1:-1").tolist()).to.eql([[9, 10], [13, 14]]);
+      expect(a.slice(" : , 3: ").tolist()).to.eql([[3], [7], [11], [15]]);
+    });
+    it('should clip out-of-range bounds', function () {
+      expect(a.slice("-10:1, 2:100").tolist()).to.eql([[2, 3]]);
+      expect(a.slice("3:1").shape).to.eql([0, 4]);
+    });
+    it('can remove axes with integer indices', function () {
+      expect(a.slice("1:3, -1").tolist()).to.eql([7, 11]);
+      expect(a.slice("0").tolist()).to.eql([0, 1, 2, 3]);
+    });
+    it('can use negative steps', function () {
+      expect(a.slice("::-1, 0").tolist()).to.eql([12, 8, 4, 0]);
+      expect(a.slice("0, 3:0:-2").tolist()).to.eql([3, 1]);
+      expect(a.slice("0, -2::-1").tolist()).to.eql([2, 1, 0]);
+    });
+    it('can use an ellipsis', function () {
+      const b = nj.arange(24).reshape(2, 3, 4);
+      expect(b.slice("..., 0").tolist()).to.eql([[0, 4, 8], [12, 16, 20]]);
+      expect(b.slice("1, ...").shape).to.eql([3, 4]);
+      expect(b.slice("0, ..., ::3").tolist()).to.eql([[0, 3], [4, 7], [8, 11]]);
+      expect(b.slice("0, \u2026, 1").tolist()).to.eql([1, 5, 9]);
+    });
+    it('can insert new axes', function () {
+      expect(a.slice("None, 0").shape).to.eql([1, 4]);
+      expect(a.slice("0, :, newaxis").tolist()).to.eql([[0], [1], [2], [3]]);
+    });
+    it('should return views', function () {
+      a.slice("1:3, ::-2").assign(-1, false);
+      expect(a.tolist()).to.eql([
+        [0, 1, 2, 3],
+        [4, -1, 6, -1],
+        [8, -1, 10, -1],
+        [12, 13, 14, 15]]);
+    });
+    it('can get elements', function () {
+      expect(a.get("1, -1")).to.equal(7);
+      expect(a.get("..., 0").tolist()).to.eql([0, 4, 8, 12]);
+    });
+    it('should raise errors on invalid indices', function () {
+      expect(function () {
+        a.slice("1:2:3:4");
+      }).to.throw(ValueError, "invalid index: '1:2:3:4'");
+      expect(function () {
+        a.slice("::0");
+      }).to.throw(ValueError, 'slice step cannot be zero');
+      expect(function () {
+        a.slice("0, 0, 0");
+      }).to.throw(IndexError, 'too many indices for array: array is 2-dimensional, but 3 were indexed');
+      expect(function () {
+        a.slice("..., 0, ...");
+      }).to.throw(IndexError, "an index can only have a single ellipsis ('...')");
+      expect(function () {
+        a.get("4, 0");
+      }).to.throw(IndexError, 'index 4 is out of bounds for axis 0 with size 4');
+    });
+  });
 });
@@ -0,0 +1,36 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { LinAlgError, ValueError } from "../../src/lib/errors";
+
+describe('linalg.solve', function () {
+  const a = [[3, 1], [1, 2]];
+  it('can solve a system with a vector right-hand side', function () {
+    const x = nj.linalg.solve(a, [9, 8]);
+    expect(x.dtype).to.equal('float64');
+    expect(x.shape).to.eql([2]);
+    expect(x.multiply(1e6).round().tolist()).to.eql([2e6, 3e6]);
+  });
+  it('can solve a system with multiple right-hand sides', function () {
+    const x = nj.linalg.solve(a, [[9, 1], [8, 2]]);
+    expect(x.shape).to.eql([2, 2]);
+    expect(x.multiply(1e6).round().tolist()).to.eql([[2e6, 0], [3e6, 1e6]]);
+  });
+  it('should pivot on zero diagonal elements', function () {
+    const x = nj.linalg.solve([[0, 1, 0], [0, 0, 1], [1, 0, 0]], [1, 2, 3]);
+    expect(x.tolist()).to.eql([3, 1, 2]);
+  });
+  it('should raise an error for singular matrices', function () {
+    expect(function () {
+      nj.linalg.solve([[1, 2], [2, 4]], [1, 2]);
+    }).to.throw(LinAlgError, 'Singular matrix');
+  });
+  it('should raise an error if b is not compatible', function () {
+    expect(function () {
+      nj.linalg.solve(a, [1, 2, 3]);
+    }).to.throw(ValueError, 'solve: b of shape (3) is incompatible with a of shape (2,2)');
+  });
+});
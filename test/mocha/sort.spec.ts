@@ -0,0 +1,59 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+describe('sort', function () {
+  let x;
+  beforeEach(function () {
+    x = nj.array([[3, 1, 2], [1, 0, 5]]);
+  });
+  it('should sort along the last axis by default and create a copy', function () {
+    const sorted = nj.sort(x);
+    expect(sorted).not.to.equal(x);
+    expect(sorted.tolist()).to.eql([[1, 2, 3], [0, 1, 5]]);
+    expect(x.tolist()).to.eql([[3, 1, 2], [1, 0, 5]]);
+  });
+  it('can sort along a given axis', function () {
+    expect(x.sort({ axis: 0 }).tolist()).to.eql([[1, 0, 2], [3, 1, 5]]);
+  });
+  it('can sort the flattened array', function () {
+    expect(x.sort({ axis: null }).tolist()).to.eql([0, 1, 1, 2, 3, 5]);
+  });
+  it('can sort in place', function () {
+    const res = x.sort({ axis: 1 }, false);
+    expect(res).to.equal(x);
+    expect(x.tolist()).to.eql([[1, 2, 3], [0, 1, 5]]);
+  });
+  it('can sort a view in place', function () {
+    x.pick(0).sort({}, false);
+    expect(x.tolist()).to.eql([[1, 2, 3], [1, 0, 5]]);
+  });
+  it('should keep the dtype', function () {
+    const sorted = nj.int16([5, -3, 2]).sort();
+    expect(sorted.dtype).to.equal('int16');
+    expect(sorted.tolist()).to.eql([-3, 2, 5]);
+  });
+  it('should sort NaN values to the end', function () {
+    expect(nj.sort([NaN, 2, 1]).tolist()).to.eql([1, 2, NaN]);
+  });
+});
+
+describe('argsort', function () {
+  it('should return the indices that sort the array', function () {
+    const res = nj.argsort([3, 1, 2]);
+    expect(res.dtype).to.equal('int32');
+    expect(res.tolist()).to.eql([1, 2, 0]);
+  });
+  it('should be stable', function () {
+    expect(nj.argsort([1, 0, 1, 0, 1], { kind: 'stable' }).tolist()).to.eql([1, 3, 0, 2, 4]);
+  });
+  it('can sort along a given axis', function () {
+    const x = nj.array([[0, 3], [2, 2]]);
+    expect(x.argsort({ axis: 0 }).tolist()).to.eql([[0, 1], [1, 0]]);
+    expect(x.argsort({ axis: 1 }).tolist()).to.eql([[0, 1], [0, 1]]);
+    expect(x.argsort({ axis: null }).tolist()).to.eql([0, 2, 3, 1]);
+  });
+});
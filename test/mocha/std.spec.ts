@@ -30,4 +30,11 @@ describe('std', function () {
         expect(nj.std(this.array, options)).to.equal(expectation);
       })
   })
+
+  it('can compute the standard deviations along an axis', function () {
+    const x = nj.array([[-1, 1], [2, 2], [0, 6]]);
+    expect(nj.std(x, { axis: 1 }).tolist()).to.eql([1, 0, 3]);
+    expect(x.std({ axis: 0, ddof: 1, keepdims: true }).shape).to.eql([1, 2]);
+    expect(x.std({ axis: 1, ddof: 1 }).tolist()[2]).to.equal(Math.sqrt(18));
+  });
 });
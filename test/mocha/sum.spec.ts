@@ -4,6 +4,7 @@
 import { expect } from 'chai';
 
 import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
 
 describe('sum', function () {
   it('should work on vectors', function () {
@@ -15,4 +16,44 @@ describe('sum', function () {
     const x = nj.ones([10, 10]);
     expect(nj.sum(x)).to.eql(100);
   });
+
+  describe('along an axis', function () {
+    let x;
+    beforeEach(function () {
+      x = nj.arange(24).reshape(2, 3, 4);
+    });
+    it('can sum over a single axis', function () {
+      expect(nj.sum(x, { axis: 0 }).tolist()).to.eql([
+        [12, 14, 16, 18],
+        [20, 22, 24, 26],
+        [28, 30, 32, 34]]);
+      expect(x.sum({ axis: 2 }).tolist()).to.eql([[6, 22, 38], [54, 70, 86]]);
+    });
+    it('should accept negative axes', function () {
+      expect(x.sum({ axis: -1 }).tolist()).to.eql(x.sum({ axis: 2 }).tolist());
+    });
+    it('can sum over several axes', function () {
+      expect(x.sum({ axis: [0, 2] }).tolist()).to.eql([60, 92, 124]);
+      expect(x.sum({ axis: [0, 1, 2] }).tolist()).to.eql([276]);
+    });
+    it('can keep the reduced dimensions', function () {
+      const res = x.sum({ axis: 1, keepdims: true });
+      expect(res.shape).to.eql([2, 1, 4]);
+      expect(res.tolist()).to.eql([[[12, 15, 18, 21]], [[48, 51, 54, 57]]]);
+      expect(x.sum({ keepdims: true }).shape).to.eql([1, 1, 1]);
+    });
+    it('should work on non contiguous views', function () {
+      expect(x.T.sum({ axis: 0 }).tolist()).to.eql(x.sum({ axis: 2 }).T.tolist());
+    });
+    it('should promote typed arrays to float64', function () {
+      const res = nj.uint8([[200, 200], [100, 100]]).sum({ axis: 0 });
+      expect(res.dtype).to.equal('float64');
+      expect(res.tolist()).to.eql([300, 300]);
+    });
+    it('should raise an error if the axis is out of bounds', function () {
+      expect(function () {
+        x.sum({ axis: 3 });
+      }).to.throw(ValueError, 'axis 3 is out of bounds for array of dimension 3');
+    });
+  });
 });
@@ -0,0 +1,65 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+
+function approx (arr) {
+  return arr.multiply(1e6).round().add(0).tolist();
+}
+
+function diag (s, m, n) {
+  const d = nj.zeros([m, n], 'float64');
+  for (let i = 0; i < s.size; i++) {
+    d.set(i, i, s.get(i));
+  }
+  return d;
+}
+
+describe('linalg.svd', function () {
+  const a = nj.array([[1, 2], [3, 4], [5, 6]]);
+
+  it('should compute full matrices by default', function () {
+    const [u, s, vh] = nj.linalg.svd(a);
+    expect(u.shape).to.eql([3, 3]);
+    expect(vh.shape).to.eql([2, 2]);
+    expect(s.multiply(1e5).round().tolist()).to.eql([952552, 51430]);
+    expect(approx(nj.dot(u.T, u))).to.eql(approx(nj.identity(3)));
+    expect(approx(nj.dot(vh, vh.T))).to.eql(approx(nj.identity(2)));
+    expect(approx(nj.dot(u, nj.dot(diag(s, 3, 2), vh)))).to.eql(approx(a));
+  });
+  it('can compute reduced matrices', function () {
+    const [u, s, vh] = nj.linalg.svd(a, { fullMatrices: false });
+    expect(u.shape).to.eql([3, 2]);
+    expect(vh.shape).to.eql([2, 2]);
+    expect(approx(nj.dot(u, nj.dot(diag(s, 2, 2), vh)))).to.eql(approx(a));
+  });
+  it('should handle wide matrices', function () {
+    let [u, s, vh] = nj.linalg.svd(a.T);
+    expect(u.shape).to.eql([2, 2]);
+    expect(vh.shape).to.eql([3, 3]);
+    expect(approx(nj.dot(vh, vh.T))).to.eql(approx(nj.identity(3)));
+    expect(approx(nj.dot(u, nj.dot(diag(s, 2, 3), vh)))).to.eql(approx(a.T));
+    [u, s, vh] = nj.linalg.svd(a.T, { fullMatrices: false });
+    expect(vh.shape).to.eql([2, 3]);
+    expect(approx(nj.dot(u, nj.dot(diag(s, 2, 2), vh)))).to.eql(approx(a.T));
+  });
+  it('can only compute the singular values', function () {
+    const s = nj.linalg.svd(a, { computeUV: false });
+    expect(s.shape).to.eql([2]);
+    expect(s.multiply(1e5).round().tolist()).to.eql([952552, 51430]);
+  });
+  it('should return orthonormal vectors for rank deficient matrices', function () {
+    const b = nj.arange(20).reshape(4, 5);
+    const [u, s, vh] = nj.linalg.svd(b);
+    expect(approx(nj.dot(u.T, u))).to.eql(approx(nj.identity(4)));
+    expect(approx(nj.dot(vh, vh.T))).to.eql(approx(nj.identity(5)));
+    expect(approx(nj.dot(u, nj.dot(diag(s, 4, 5), vh)))).to.eql(approx(b));
+    expect(s.get(2)).to.be.lessThan(1e-12);
+
+    const [u0, s0] = nj.linalg.svd(nj.zeros([3, 2]));
+    expect(s0.tolist()).to.eql([0, 0]);
+    expect(u0.tolist()).to.eql(nj.identity(3).tolist());
+  });
+});
@@ -0,0 +1,114 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { IndexError, ValueError } from "../../src/lib/errors";
+
+describe('take', function () {
+  let x;
+  beforeEach(function () {
+    x = nj.array([[1, 2], [3, 4], [5, 6]], 'int16');
+  });
+  it('can take elements from the flattened array', function () {
+    expect(nj.take(x, [1, 4]).tolist()).to.eql([2, 5]);
+    expect(x.T.take([1, 4]).tolist()).to.eql([3, 4]);
+  });
+  it('can gather rows and columns', function () {
+    const rows = x.take([2, 0], 0);
+    expect(rows.dtype).to.equal('int16');
+    expect(rows.tolist()).to.eql([[5, 6], [1, 2]]);
+    expect(x.take([1, 1, 0], -1).tolist()).to.eql([[2, 2, 1], [4, 4, 3], [6, 6, 5]]);
+  });
+  it('should insert the shape of the indices', function () {
+    const res = nj.arange(24).reshape(2, 3, 4).take([[0, 2], [1, 1]], 1);
+    expect(res.shape).to.eql([2, 2, 2, 4]);
+    expect(res.tolist()[1][0]).to.eql([[12, 13, 14, 15], [20, 21, 22, 23]]);
+  });
+  it('should remove the axis for a single index', function () {
+    const col = x.take(1, 1);
+    expect(col.shape).to.eql([3]);
+    expect(col.tolist()).to.eql([2, 4, 6]);
+    expect(nj.take(x, -1, 0).tolist()).to.eql([5, 6]);
+    expect(nj.arange(24).reshape(2, 3, 4).take(2, 1).shape).to.eql([2, 4]);
+    expect(nj.arange(5).take(3, 0).tolist()).to.eql([3]);
+    expect(x.take(3).tolist()).to.eql([4]);
+  });
+  it('should accept negative indices', function () {
+    expect(x.take([-1], 0).tolist()).to.eql([[5, 6]]);
+  });
+  it('should raise an error if an index is out of bounds', function () {
+    expect(function () {
+      x.take([3], 0);
+    }).to.throw(IndexError, 'index 3 is out of bounds for axis 0 with size 3');
+  });
+});
+
+describe('put', function () {
+  it('can replace elements of the flattened array in place', function () {
+    const x = nj.arange(6).reshape(2, 3);
+    const res = nj.put(x, [0, 4], [-1, -2]);
+    expect(res).to.equal(x);
+    expect(x.tolist()).to.eql([[-1, 1, 2], [3, -2, 5]]);
+  });
+  it('should repeat values', function () {
+    const x = nj.zeros([2, 2]);
+    x.T.put([0, 1, 2], [7, 8]);
+    expect(x.tolist()).to.eql([[7, 7], [8, 0]]);
+  });
+  it('should raise an error if an index is out of bounds', function () {
+    expect(function () {
+      nj.zeros(3).put([3], 1);
+    }).to.throw(IndexError, 'index 3 is out of bounds with size 3');
+  });
+});
+
+describe('take_along_axis', function () {
+  let x;
+  beforeEach(function () {
+    x = nj.array([[10, 30, 20], [60, 40, 50]]);
+  });
+  it('can reorder using argsort results', function () {
+    const idx = x.argsort({ axis: 1 });
+    expect(nj.take_along_axis(x, idx, 1).tolist()).to.eql([[10, 20, 30], [40, 50, 60]]);
+    expect(nj.take_along_axis(x, x.argsort({ axis: 0 }), 0).tolist()).to.eql(x.tolist());
+  });
+  it('can gather the max along an axis', function () {
+    const idx = x.argmax({ axis: 1, keepdims: true });
+    expect(nj.take_along_axis(x, idx, 1).tolist()).to.eql([[30], [60]]);
+  });
+  it('can use the flattened array', function () {
+    expect(nj.take_along_axis(x, [5, 0], null).tolist()).to.eql([50, 10]);
+  });
+  it('should raise an error if dimensions do not match', function () {
+    expect(function () {
+      nj.take_along_axis(x, [0, 1], 1);
+    }).to.throw(ValueError, '`indices` and `arr` must have the same number of dimensions');
+  });
+  it('should raise an error if axis is out of bounds', function () {
+    expect(function () {
+      nj.take_along_axis(x, [[0], [1]], 2);
+    }).to.throw(ValueError, 'axis 2 is out of bounds for array of dimension 2');
+    expect(function () {
+      nj.take_along_axis(x, [[0], [1]], -3);
+    }).to.throw(ValueError, 'axis -3 is out of bounds for array of dimension 2');
+    expect(nj.take_along_axis(x, [[0], [1]], -1).tolist()).to.eql([[10], [40]]);
+  });
+});
+
+describe('put_along_axis', function () {
+  it('can set values along an axis in place', function () {
+    const x = nj.array([[10, 30, 20], [60, 40, 50]]);
+    const idx = x.argmax({ axis: 1, keepdims: true });
+    nj.put_along_axis(x, idx, 99, 1);
+    expect(x.tolist()).to.eql([[10, 99, 20], [99, 40, 50]]);
+    nj.put_along_axis(x, [[1, 0, 1]], [[-1, -2, -3]], 0);
+    expect(x.tolist()).to.eql([[10, -2, 20], [-1, 40, -3]]);
+  });
+  it('should raise an error if axis is out of bounds', function () {
+    expect(function () {
+      nj.put_along_axis(nj.zeros([2, 3]), [[0], [1]], 1, 2);
+    }).to.throw(ValueError, 'axis 2 is out of bounds for array of dimension 2');
+  });
+});
@@ -0,0 +1,50 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('tensordot', function () {
+  it('should sum over the last two axes of a and the first two of b by default', function () {
+    const a = nj.arange(4).reshape(2, 2);
+    expect(nj.tensordot(a, a).tolist()).to.eql([14]);
+    const c = nj.arange(24).reshape(2, 3, 4);
+    const d = nj.arange(24).reshape(3, 4, 2);
+    expect(nj.tensordot(c, d).tolist()).to.eql(nj.einsum('ijk,jkl->il', c, d).tolist());
+  });
+  it('can take the number of axes', function () {
+    expect(nj.tensordot([1, 2], [3, 4], 0).tolist()).to.eql([[3, 4], [6, 8]]);
+    expect(nj.tensordot([1, 2], [3, 4], 1).tolist()).to.eql([11]);
+    const a = nj.arange(6).reshape(2, 3);
+    const b = nj.arange(6).reshape(3, 2);
+    expect(nj.tensordot(a, b, 1).tolist()).to.eql(nj.dot(a, b).tolist());
+  });
+  it('can take lists of axes', function () {
+    const a = nj.arange(60).reshape(3, 4, 5);
+    const b = nj.arange(24).reshape(4, 3, 2);
+    const c = nj.tensordot(a, b, [[1, 0], [0, 1]]);
+    expect(c.shape).to.eql([5, 2]);
+    expect(c.tolist()).to.eql([[4400, 4730], [4532, 4874], [4664, 5018], [4796, 5162], [4928, 5306]]);
+    expect(nj.tensordot(nj.arange(6).reshape(2, 3), nj.arange(6).reshape(2, 3), [-1, 1]).tolist())
+      .to.eql([[5, 14], [14, 50]]);
+  });
+  it('should raise an error if the summed axes do not match', function () {
+    expect(function () {
+      nj.tensordot(nj.arange(6).reshape(2, 3), nj.arange(6).reshape(2, 3), 1);
+    }).to.throw(ValueError, 'shape-mismatch for sum');
+    expect(function () {
+      nj.tensordot(nj.arange(6).reshape(2, 3), nj.arange(6).reshape(3, 2), [[1], [0, 1]]);
+    }).to.throw(ValueError, 'shape-mismatch for sum');
+  });
+  it('should raise an error if an axis is repeated', function () {
+    const a = nj.arange(9).reshape(3, 3);
+    expect(function () {
+      nj.tensordot(a, a, [[0, 0], [0, 1]]);
+    }).to.throw(ValueError, "duplicate value in 'axes'");
+    expect(function () {
+      nj.tensordot(a, a, [[0, 1], [1, -1]]);
+    }).to.throw(ValueError, "duplicate value in 'axes'");
+  });
+});
@@ -0,0 +1,36 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('trace', function () {
+  const a = nj.arange(9).reshape(3, 3);
+
+  it('should sum the main diagonal', function () {
+    expect(nj.trace(a)).to.equal(12);
+    expect(a.trace()).to.equal(12);
+    expect(nj.trace(nj.identity(3))).to.equal(3);
+    expect(nj.trace([[1, 2, 3], [4, 5, 6]])).to.equal(6);
+  });
+  it('can take an offset', function () {
+    expect(nj.trace(a, 1)).to.equal(6);
+    expect(nj.trace(a, -1)).to.equal(10);
+    expect(nj.trace(a, 3)).to.equal(0);
+    expect(nj.trace(a.T, 1)).to.equal(10);
+  });
+  it('should sum the diagonals of stacked arrays', function () {
+    const b = nj.arange(24).reshape(2, 3, 4);
+    expect(nj.trace(b)).to.be.instanceOf(nj.NdArray);
+    expect((nj.trace(b) as any).tolist()).to.eql([16, 18, 20, 22]);
+    expect((nj.trace(b, 1, 1, 2) as any).tolist()).to.eql([18, 54]);
+    expect((nj.trace(b, 0, -1, 0) as any).tolist()).to.eql([13, 21, 29]);
+  });
+  it('should raise an error for arrays with less than 2 dimensions', function () {
+    expect(function () {
+      nj.trace([1, 2]);
+    }).to.throw(ValueError, 'diag requires an array of at least two dimensions');
+  });
+});
@@ -13,6 +13,8 @@ describe('utils', function () {
     expect(nj.broadcast([8, 1, 6, 1], [7, 1, 5])).to.eql([8, 7, 6, 5]);
     expect(nj.broadcast([5, 4], [1])).to.eql([5, 4]);
     expect(nj.broadcast([15, 3, 5], [15, 1, 5])).to.eql([15, 3, 5]);
+    expect(nj.broadcast([0, 3], [1, 3])).to.eql([0, 3]);
+    expect(nj.broadcast([0, 3], [2, 3])).to.equal(undefined);
   });
 
   describe('iteraxis', function () {
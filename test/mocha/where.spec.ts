@@ -0,0 +1,99 @@
+/* eslint-env mocha */
+'use strict';
+
+import { expect } from 'chai';
+
+import nj from "../../src";
+import { ValueError } from "../../src/lib/errors";
+
+describe('where', function () {
+  it('can choose elements from x or y', function () {
+    const a = nj.arange(5);
+    expect(nj.where(nj.less(a, 3), a, a.multiply(10)).tolist()).to.eql([0, 1, 2, 30, 40]);
+  });
+  it('should broadcast its arguments', function () {
+    const x = nj.arange(6).reshape(2, 3);
+    expect(nj.where(nj.greater(x, 2), x, 0).tolist()).to.eql([[0, 0, 0], [3, 4, 5]]);
+    expect(nj.where([[1], [0]], [1, 2, 3], -1).tolist()).to.eql([[1, 2, 3], [-1, -1, -1]]);
+  });
+  it('should keep the dtype of x', function () {
+    const x = nj.float32([0.5, 1.5]);
+    const res = nj.where([1, 0], x, 2);
+    expect(res.dtype).to.equal('float32');
+    expect(res.tolist()).to.eql([0.5, 2]);
+  });
+  it('should promote integer arrays to float64 for non-integer values', function () {
+    const x = nj.int32([1, 2]);
+    const res = nj.where([1, 0], x, 1.5);
+    expect(res.dtype).to.equal('float64');
+    expect(res.tolist()).to.eql([1, 1.5]);
+    expect(nj.where([0, 1], [0.5, 2.5], x).tolist()).to.eql([1, 2.5]);
+    expect(nj.where([1, 0], x, 3).dtype).to.equal('int32');
+  });
+  it('should use the common dtype of x and y', function () {
+    expect(nj.where([1, 0], nj.int8([1, 2]), nj.int16([3, 4])).dtype).to.equal('int16');
+    expect(nj.where([1, 0], nj.uint8([1, 2]), nj.int8([3, 4])).dtype).to.equal('float64');
+    const res = nj.where([1, 0], nj.int32([1, 2]), nj.float32([0.5, 1.5]));
+    expect(res.dtype).to.equal('float64');
+    expect(res.tolist()).to.eql([1, 1.5]);
+  });
+  it('should return the indices of non-zero elements given only a condition', function () {
+    const [rows, cols] = nj.where([[0, 1], [1, 1]]);
+    expect(rows.dtype).to.equal('int32');
+    expect(rows.tolist()).to.eql([0, 1, 1]);
+    expect(cols.tolist()).to.eql([1, 0, 1]);
+  });
+  it('should raise an error if only x is given', function () {
+    expect(function () {
+      nj.where([1], [1], undefined);
+    }).to.throw(ValueError, 'either both or neither of x and y should be given');
+  });
+});
+
+describe('nonzero', function () {
+  it('should return one index array per dimension', function () {
+    const x = nj.array([[3, 0, 0], [0, 4, 0], [5, 6, 0]]);
+    const indices = nj.nonzero(x);
+    expect(indices.length).to.equal(2);
+    expect(indices[0].tolist()).to.eql([0, 1, 2, 2]);
+    expect(indices[1].tolist()).to.eql([0, 1, 0, 1]);
+    expect(x.T.nonzero()[0].tolist()).to.eql([0, 0, 1, 1]);
+  });
+});
+
+describe('argwhere', function () {
+  it('should group indices by element', function () {
+    const x = nj.arange(6).reshape(2, 3);
+    expect(nj.argwhere(nj.greater(x, 1)).tolist()).to.eql([[0, 2], [1, 0], [1, 1], [1, 2]]);
+  });
+  it('should return an empty array if there is no match', function () {
+    expect(nj.argwhere(nj.zeros([2, 2])).shape).to.eql([0, 2]);
+  });
+});
+
+describe('mask', function () {
+  let x;
+  beforeEach(function () {
+    x = nj.array([[1, 5], [4, 2]], 'int16');
+  });
+  it('can read elements selected by a mask', function () {
+    const res = x.mask(nj.greater(x, 2));
+    expect(res.dtype).to.equal('int16');
+    expect(res.tolist()).to.eql([5, 4]);
+    expect(x.T.mask([[1, 0], [1, 0]]).tolist()).to.eql([1, 5]);
+  });
+  it('can assign a scalar to elements selected by a mask', function () {
+    const res = x.setMask(nj.greater(x, 2), 0);
+    expect(res).to.equal(x);
+    expect(x.tolist()).to.eql([[1, 0], [0, 2]]);
+  });
+  it('can assign values to elements selected by a mask', function () {
+    x.setMask([[1, 0], [1, 1]], [7, 8, 9]);
+    expect(x.tolist()).to.eql([[7, 5], [8, 9]]);
+  });
+  it('should raise an error if the mask shape does not match', function () {
+    expect(function () {
+      x.mask([1, 0]);
+    }).to.throw(ValueError, 'boolean index did not match indexed array: mask shape is (2) but array shape is (2,2)');
+  });
+});